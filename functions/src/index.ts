@@ -1,15 +1,12 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import { createHash } from 'crypto';
+import { getDailyLimitMs, getQuotaPolicy } from './quota-policy';
 
 // Initialize Firebase Admin
 admin.initializeApp();
 const db = admin.firestore();
 
-// Constants for security validation
-const FREE_TIME_LIMIT_MS = 30 * 60 * 1000; // 30 minutes
-const DAILY_LIMIT_MS = 60 * 60 * 1000; // 1 hour
-
 interface SessionData {
   sessionId: string;
   userId?: string;
@@ -67,27 +64,21 @@ function detectAnomalies(session: SessionData, requestTime: number): { anomaly:
 }
 
 /**
- * Calculate time remaining based on user type and usage
+ * Calculate time remaining based on the tier's quota policy and usage
  */
-function calculateTimeRemaining(session: SessionData): number {
+async function calculateTimeRemaining(session: SessionData): Promise<number> {
   const now = new Date();
   const today = now.toISOString().split('T')[0];
-  
-  switch (session.subscriptionStatus) {
-    case 'premium':
-      return -1; // Unlimited
-      
-    case 'trial':
-      return -1; // Unlimited during valid trial
-      
-    case 'limited':
-      const todayUsage = session.dailyUsage[today] || 0;
-      return Math.max(0, DAILY_LIMIT_MS - todayUsage);
-      
-    case 'anonymous':
-    default:
-      return Math.max(0, FREE_TIME_LIMIT_MS - session.timeUsed);
+  const tier = session.subscriptionStatus || 'anonymous';
+  const limitMs = getDailyLimitMs(await getQuotaPolicy(db, tier));
+
+  if (limitMs === -1) {
+    return -1; // Unlimited
   }
+
+  // Anonymous sessions draw their allowance once, for the life of the session
+  const used = tier === 'anonymous' ? session.timeUsed : session.dailyUsage[today] || 0;
+  return Math.max(0, limitMs - used);
 }
 
 /**
@@ -130,7 +121,7 @@ export const validateSession = functions.https.onCall(async (data: ValidationReq
       const response: ValidationResponse = {
         isValid: true,
         subscriptionStatus: newSession.subscriptionStatus!,
-        timeRemaining: userId ? DAILY_LIMIT_MS : FREE_TIME_LIMIT_MS,
+        timeRemaining: getDailyLimitMs(await getQuotaPolicy(db, newSession.subscriptionStatus!)),
         hasKnowledgeBase: false
       };
       
@@ -174,7 +165,7 @@ export const validateSession = functions.https.onCall(async (data: ValidationReq
     });
 
     // Calculate time remaining
-    const timeRemaining = calculateTimeRemaining(session);
+    const timeRemaining = await calculateTimeRemaining(session);
     const hasKnowledgeBase = ['trial', 'premium'].includes(session.subscriptionStatus);
     
     // Determine if session is still valid
@@ -235,7 +226,7 @@ export const trackUsage = functions.https.onCall(async (data: { sessionId: strin
       lastUsageUpdate: admin.firestore.Timestamp.now()
     });
 
-    const timeRemaining = calculateTimeRemaining({ ...session, dailyUsage: updatedDailyUsage });
+    const timeRemaining = await calculateTimeRemaining({ ...session, dailyUsage: updatedDailyUsage });
     
     return {
       success: true,
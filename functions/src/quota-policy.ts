@@ -0,0 +1,70 @@
+import * as admin from 'firebase-admin';
+
+/**
+ * Quota policies per tier - mirrors src/lib/services/quota-policy.ts in the web app.
+ * Code defaults below; a quota_policies/{tier} doc in Firestore overrides any field.
+ */
+
+export type QuotaTier = 'anonymous' | 'limited' | 'trial' | 'premium' | 'team';
+
+export interface QuotaPolicy {
+  tier: QuotaTier;
+  dailyMinutes: number | null;          // null = unlimited
+  concurrentSessions: number;
+  taskExecutionsPerDay: number | null;  // null = unlimited
+  maxTokensPerTask: number;
+  dailyTokenBudget: number | null;      // null = unlimited
+}
+
+export const DEFAULT_QUOTA_POLICIES: Record<QuotaTier, QuotaPolicy> = {
+  anonymous: { tier: 'anonymous', dailyMinutes: 30, concurrentSessions: 1, taskExecutionsPerDay: 10, maxTokensPerTask: 300, dailyTokenBudget: 3000 },
+  limited: { tier: 'limited', dailyMinutes: 60, concurrentSessions: 1, taskExecutionsPerDay: 50, maxTokensPerTask: 300, dailyTokenBudget: 15000 },
+  trial: { tier: 'trial', dailyMinutes: null, concurrentSessions: 2, taskExecutionsPerDay: 200, maxTokensPerTask: 600, dailyTokenBudget: 120000 },
+  premium: { tier: 'premium', dailyMinutes: null, concurrentSessions: 3, taskExecutionsPerDay: null, maxTokensPerTask: 2000, dailyTokenBudget: null },
+  team: { tier: 'team', dailyMinutes: null, concurrentSessions: 3, taskExecutionsPerDay: null, maxTokensPerTask: 2000, dailyTokenBudget: null }
+};
+
+const CACHE_TTL_MS = 60000;
+const policyCache = new Map<QuotaTier, { policy: QuotaPolicy; expiresAt: number }>();
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isLimit(value: unknown): value is number | null {
+  return value === null || isCount(value);
+}
+
+/**
+ * Policy for a tier, from Firestore when configured, else the code default
+ */
+export async function getQuotaPolicy(db: admin.firestore.Firestore, tier: QuotaTier): Promise<QuotaPolicy> {
+  const cached = policyCache.get(tier);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  const policy = { ...DEFAULT_QUOTA_POLICIES[tier] };
+  try {
+    const stored = (await db.collection('quota_policies').doc(tier).get()).data();
+    if (stored) {
+      if (isLimit(stored.dailyMinutes)) policy.dailyMinutes = stored.dailyMinutes;
+      if (isCount(stored.concurrentSessions)) policy.concurrentSessions = stored.concurrentSessions;
+      if (isLimit(stored.taskExecutionsPerDay)) policy.taskExecutionsPerDay = stored.taskExecutionsPerDay;
+      if (isCount(stored.maxTokensPerTask)) policy.maxTokensPerTask = stored.maxTokensPerTask;
+      if (isLimit(stored.dailyTokenBudget)) policy.dailyTokenBudget = stored.dailyTokenBudget;
+    }
+  } catch (error) {
+    console.error(`Failed to load quota policy for ${tier}, using defaults:`, error);
+  }
+
+  policyCache.set(tier, { policy, expiresAt: Date.now() + CACHE_TTL_MS });
+  return policy;
+}
+
+/**
+ * Daily allowance in ms, -1 = unlimited
+ */
+export function getDailyLimitMs(policy: QuotaPolicy): number {
+  return policy.dailyMinutes === null ? -1 : policy.dailyMinutes * 60 * 1000;
+}
@@ -0,0 +1,20 @@
+/**
+ * JWKS Endpoint
+ *
+ * Publishes the public keys that verify extension session tokens (ES256, matched by
+ * the token's kid). See src/lib/jwt-keys.ts for the rotation procedure.
+ */
+
+import { NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/jwt-keys';
+
+// Keys come from the environment at request time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(getPublicJwks(), {
+    headers: {
+      'Cache-Control': 'public, max-age=300'
+    }
+  });
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface BillingSummary {
+  subscriptionStatus: string;
+  planTier: string | null;
+  planName: string;
+  subscriptionStartDate?: string | null;
+  subscriptionEndDate?: string | null;
+  gracePeriodEndsAt?: string | null;
+  billingWarning: {
+    code: string;
+    message: string;
+    accessEndsAt: string | null;
+  } | null;
+  hasBillingAccount: boolean;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  premium: 'Active',
+  grace: 'Payment failed',
+  past_due: 'Past due',
+  canceled_at_period_end: 'Canceled, active until period end',
+  limited: 'Free'
+};
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleDateString() : null;
+}
+
+export default function BillingPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [summary, setSummary] = useState<BillingSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (!user) {
+      router.push(`/login?returnUrl=${encodeURIComponent('/account/billing')}`);
+      return;
+    }
+
+    const fetchSummary = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const idToken = await user.getIdToken();
+        const response = await fetch('/api/v3/billing', {
+          headers: { Authorization: `Bearer ${idToken}` }
+        });
+
+        if (!response.ok) {
+          throw new Error((await response.json()).message || 'Failed to load billing details');
+        }
+
+        setSummary(await response.json());
+      } catch (error) {
+        console.error('❌ Billing summary error:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load billing details');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSummary();
+  }, [user, loading, router]);
+
+  const openBillingPortal = async () => {
+    if (!user) return;
+
+    setIsOpeningPortal(true);
+    setError('');
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch('/api/v3/billing/portal', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${idToken}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to open billing portal');
+      }
+
+      // Redirect to the Stripe customer portal
+      window.location.assign(data.url);
+    } catch (error) {
+      console.error('❌ Billing portal error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to open billing portal');
+      setIsOpeningPortal(false);
+    }
+  };
+
+  if (loading || isLoading || !summary) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        {error ? (
+          <div className="max-w-lg mx-auto bg-white rounded-lg shadow-lg p-8 text-center">
+            <p className="text-red-600 mb-4">{error}</p>
+            <Link href="/" className="text-blue-600 hover:underline">Back to home</Link>
+          </div>
+        ) : (
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        )}
+      </div>
+    );
+  }
+
+  const renewalLabel = summary.subscriptionStatus === 'canceled_at_period_end' ? 'Access ends' : 'Renews';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full mx-auto bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Billing</h1>
+
+        {summary.billingWarning && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {summary.billingWarning.message}
+            {summary.billingWarning.accessEndsAt && (
+              <span> Access ends {formatDate(summary.billingWarning.accessEndsAt)}.</span>
+            )}
+          </div>
+        )}
+
+        <dl className="mb-6 space-y-3 text-sm">
+          <div className="flex justify-between">
+            <dt className="text-gray-500">Plan</dt>
+            <dd className="font-semibold text-gray-900">{summary.planName}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-500">Status</dt>
+            <dd className="text-gray-900">{STATUS_LABELS[summary.subscriptionStatus] || summary.subscriptionStatus}</dd>
+          </div>
+          {summary.subscriptionStartDate && (
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Member since</dt>
+              <dd className="text-gray-900">{formatDate(summary.subscriptionStartDate)}</dd>
+            </div>
+          )}
+          {summary.subscriptionEndDate && summary.planTier && (
+            <div className="flex justify-between">
+              <dt className="text-gray-500">{renewalLabel}</dt>
+              <dd className="text-gray-900">{formatDate(summary.subscriptionEndDate)}</dd>
+            </div>
+          )}
+        </dl>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-3">
+          {summary.hasBillingAccount ? (
+            <button
+              onClick={openBillingPortal}
+              disabled={isOpeningPortal}
+              className="block w-full py-3 px-4 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isOpeningPortal ? 'Opening billing portal...' : 'Manage subscription, card and invoices'}
+            </button>
+          ) : (
+            <Link
+              href="/pricing"
+              className="block w-full py-3 px-4 bg-blue-600 text-white text-center rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+            >
+              Upgrade to Premium
+            </Link>
+          )}
+
+          <Link
+            href="/account/devices"
+            className="block w-full py-2 px-4 text-center text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            Manage active devices
+          </Link>
+
+          <Link
+            href="/"
+            className="block w-full py-2 px-4 text-center text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Back to home
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface ActiveSession {
+  sessionId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  startTime: string | null;
+  lastHeartbeat: string | null;
+  idle: boolean;
+}
+
+interface RegisteredDevice {
+  deviceId: string;
+  userAgent: string | null;
+  status: 'active' | 'revoked';
+  createdAt: string | null;
+  lastSeenAt: string | null;
+}
+
+interface ActiveSessionsResponse {
+  sessions: ActiveSession[];
+  maxSessions: number;
+  limitMode: 'evict' | 'reject';
+}
+
+function formatDateTime(value?: string | null) {
+  return value ? new Date(value).toLocaleString() : 'Unknown';
+}
+
+export default function DevicesPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [data, setData] = useState<ActiveSessionsResponse | null>(null);
+  const [devices, setDevices] = useState<RegisteredDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchSessions = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const idToken = await user.getIdToken();
+      const [response, devicesResponse] = await Promise.all([
+        fetch('/api/v3/sessions', { headers: { Authorization: `Bearer ${idToken}` } }),
+        fetch('/api/v3/devices', { headers: { Authorization: `Bearer ${idToken}` } })
+      ]);
+
+      if (!response.ok) {
+        throw new Error((await response.json()).message || 'Failed to load devices');
+      }
+      if (!devicesResponse.ok) {
+        throw new Error((await devicesResponse.json()).message || 'Failed to load devices');
+      }
+
+      setData(await response.json());
+      setDevices((await devicesResponse.json()).devices);
+    } catch (error) {
+      console.error('❌ Active sessions error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (!user) {
+      router.push(`/login?returnUrl=${encodeURIComponent('/account/devices')}`);
+      return;
+    }
+
+    fetchSessions();
+  }, [user, loading, router, fetchSessions]);
+
+  const revokeSession = async (sessionId: string) => {
+    if (!user) return;
+
+    setRevokingId(sessionId);
+    setError('');
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/v3/sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${idToken}` }
+      });
+
+      if (!response.ok) {
+        throw new Error((await response.json()).message || 'Failed to sign out device');
+      }
+
+      await fetchSessions();
+    } catch (error) {
+      console.error('❌ Session revoke error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sign out device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const revokeDevice = async (deviceId: string) => {
+    if (!user) return;
+    if (!window.confirm('Remove this device? It will be signed out and has to be set up again to use your account.')) return;
+
+    setRevokingId(deviceId);
+    setError('');
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/v3/devices/${encodeURIComponent(deviceId)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${idToken}` }
+      });
+
+      if (!response.ok) {
+        throw new Error((await response.json()).message || 'Failed to remove device');
+      }
+
+      await fetchSessions();
+    } catch (error) {
+      console.error('❌ Device revoke error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to remove device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const activeDevices = devices.filter(device => device.status === 'active');
+
+  if (loading || (isLoading && !data) || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        {error ? (
+          <div className="max-w-lg mx-auto bg-white rounded-lg shadow-lg p-8 text-center">
+            <p className="text-red-600 mb-4">{error}</p>
+            <Link href="/" className="text-blue-600 hover:underline">Back to home</Link>
+          </div>
+        ) : (
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full mx-auto bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Active devices</h1>
+        <p className="text-sm text-gray-500 mb-6">
+          Your plan allows {data.maxSessions} active session{data.maxSessions === 1 ? '' : 's'}.{' '}
+          {data.limitMode === 'evict'
+            ? 'Starting another signs out the device used least recently.'
+            : 'Sign out a device here to start a session somewhere else.'}
+        </p>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {data.sessions.length === 0 ? (
+          <p className="mb-6 text-sm text-gray-600">No active sessions.</p>
+        ) : (
+          <ul className="mb-6 divide-y divide-gray-200">
+            {data.sessions.map(session => (
+              <li key={session.sessionId} className="py-4 flex items-start justify-between gap-4">
+                <div className="text-sm">
+                  <p className="font-semibold text-gray-900 break-all">{session.userAgent || 'Unknown browser'}</p>
+                  <p className="text-gray-500">
+                    Last active {formatDateTime(session.lastHeartbeat)}
+                    {session.idle && ' (idle)'}
+                  </p>
+                  {session.ipAddress && <p className="text-gray-500">IP {session.ipAddress}</p>}
+                </div>
+                <button
+                  onClick={() => revokeSession(session.sessionId)}
+                  disabled={revokingId === session.sessionId}
+                  className="shrink-0 py-2 px-3 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  {revokingId === session.sessionId ? 'Signing out...' : 'Sign out'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">Registered devices</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Browsers where the extension has been set up with a device key. Removing one signs it out for good.
+        </p>
+
+        {activeDevices.length === 0 ? (
+          <p className="mb-6 text-sm text-gray-600">No registered devices.</p>
+        ) : (
+          <ul className="mb-6 divide-y divide-gray-200">
+            {activeDevices.map(device => (
+              <li key={device.deviceId} className="py-4 flex items-start justify-between gap-4">
+                <div className="text-sm">
+                  <p className="font-semibold text-gray-900 break-all">{device.userAgent || 'Unknown browser'}</p>
+                  <p className="text-gray-500">Added {formatDateTime(device.createdAt)}</p>
+                  <p className="text-gray-500">Last seen {formatDateTime(device.lastSeenAt)}</p>
+                </div>
+                <button
+                  onClick={() => revokeDevice(device.deviceId)}
+                  disabled={revokingId === device.deviceId}
+                  className="shrink-0 py-2 px-3 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  {revokingId === device.deviceId ? 'Removing...' : 'Remove'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Link
+          href="/"
+          className="block w-full py-2 px-4 text-center text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface UsageStats {
   totalUsers: number;
@@ -14,35 +15,41 @@ interface UsageStats {
     totalUsage: number;
     status: string;
   }>;
+  windowDays: number;
+  computedAt: string;
 }
 
 export default function UsageDashboardPage() {
+  const { user } = useAuth();
   const [stats, setStats] = useState<UsageStats | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [apiKey, setApiKey] = useState('');
   const [selectedUserId, setSelectedUserId] = useState('');
   const [userUsageData, setUserUsageData] = useState<any>(null);
 
+  // Admin APIs take the signed-in admin's Firebase ID token
+  const adminFetch = async (url: string, init: RequestInit = {}) => {
+    const idToken = await user!.getIdToken();
+    return fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${idToken}` }
+    });
+  };
+
   const fetchUsageStats = async () => {
-    if (!apiKey) {
-      alert('Please enter your admin API key');
+    if (!user) {
+      alert('Please sign in with an admin account');
       return;
     }
 
     setIsLoading(true);
     try {
-      // This would need to be implemented as a proper admin API
-      const response = await fetch('/api/admin/usage-stats', {
-        headers: {
-          'x-api-key': apiKey
-        }
-      });
+      const response = await adminFetch('/api/admin/usage-stats');
+      const data = await response.json();
 
       if (response.ok) {
-        const data = await response.json();
         setStats(data.stats);
       } else {
-        alert('Failed to fetch stats. Check your API key.');
+        alert('Failed to fetch stats: ' + (data.message || data.error));
       }
     } catch (error) {
       console.error('Error fetching stats:', error);
@@ -57,15 +64,19 @@ export default function UsageDashboardPage() {
       alert('Please enter a user ID');
       return;
     }
+    if (!user) {
+      alert('Please sign in with an admin account');
+      return;
+    }
 
     try {
-      const response = await fetch(`/api/usage/validate-usage?userId=${selectedUserId}`);
+      const response = await adminFetch(`/api/usage/validate-usage?userId=${encodeURIComponent(selectedUserId)}`);
+      const data = await response.json();
       
       if (response.ok) {
-        const data = await response.json();
         setUserUsageData(data);
       } else {
-        alert('Failed to fetch user usage data');
+        alert('Failed to fetch user usage data: ' + (data.message || data.error));
       }
     } catch (error) {
       console.error('Error checking user usage:', error);
@@ -77,17 +88,13 @@ export default function UsageDashboardPage() {
     <div className="max-w-6xl mx-auto p-8">
       <h1 className="text-3xl font-bold mb-8">📊 Usage Dashboard (Admin)</h1>
 
-      {/* API Key Input */}
+      {/* Admin Access */}
       <div className="mb-8 p-4 bg-yellow-50 border border-yellow-200 rounded">
         <h2 className="text-lg font-semibold mb-2">Admin Access</h2>
-        <div className="flex gap-4">
-          <input
-            type="password"
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            placeholder="Enter admin API key"
-            className="flex-1 px-3 py-2 border border-gray-300 rounded"
-          />
+        <div className="flex gap-4 items-center">
+          <p className="flex-1 text-sm text-gray-700">
+            {user ? `Signed in as ${user.email}. Stats are refreshed hourly by the usage rollup.` : 'Sign in with an admin account to view usage stats.'}
+          </p>
           <button
             onClick={fetchUsageStats}
             disabled={isLoading}
@@ -142,6 +149,47 @@ export default function UsageDashboardPage() {
         </div>
       )}
 
+      {/* Daily Usage */}
+      {stats && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Daily Usage (last {stats.windowDays} days)</h2>
+          <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+            {Object.entries(stats.dailyUsage).map(([date, usage]) => (
+              <div key={date} className="p-3 bg-gray-50 rounded text-sm">
+                <div className="text-gray-600">{date}</div>
+                <div className="font-bold">{Math.round(usage / 60000)}m</div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Computed {new Date(stats.computedAt).toLocaleString()}</p>
+        </div>
+      )}
+
+      {/* Top Users */}
+      {stats && stats.topUsers.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Top Users</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">User</th>
+                <th className="py-2">Status</th>
+                <th className="py-2">Usage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.topUsers.map((topUser) => (
+                <tr key={topUser.userId} className="border-b">
+                  <td className="py-2">{topUser.email || topUser.userId}</td>
+                  <td className="py-2 capitalize">{topUser.status}</td>
+                  <td className="py-2">{Math.round(topUser.totalUsage / 60000)}m</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* User Lookup */}
       <div className="mb-8 p-6 bg-gray-50 rounded-lg">
         <h2 className="text-xl font-semibold mb-4">User Usage Lookup</h2>
@@ -192,31 +240,32 @@ export default function UsageDashboardPage() {
         <div className="p-4 bg-gray-50 rounded text-sm">
           <h3 className="font-semibold mb-2">Available APIs:</h3>
           <div className="space-y-1">
-            <div><strong>Track Usage:</strong> <code>POST /api/usage/track-daily-usage</code></div>
+            <div><strong>Usage Stats:</strong> <code>GET /api/admin/usage-stats</code></div>
+            <div><strong>Refresh Stats:</strong> <code>POST /api/admin/usage-stats</code></div>
             <div><strong>Validate Usage:</strong> <code>POST /api/usage/validate-usage</code></div>
-            <div><strong>Session Tracking:</strong> <code>POST /api/usage/session</code></div>
-            <div><strong>Usage Stats:</strong> <code>GET /api/usage/track-daily-usage?userId=X</code></div>
           </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
-            <h3 className="font-semibold mb-2">Test Daily Usage Tracking</h3>
+            <h3 className="font-semibold mb-2">Rerun Usage Rollup</h3>
             <button
               onClick={() => {
-                const userId = prompt('Enter user ID:');
-                const usageTime = prompt('Enter usage time (milliseconds):');
-                if (userId && usageTime) {
-                  fetch('/api/usage/track-daily-usage', {
+                const days = prompt('Days to rebuild:', '2');
+                if (user && days) {
+                  adminFetch('/api/admin/usage-stats', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ userId, usageTime: parseInt(usageTime) })
-                  }).then(r => r.json()).then(console.log);
+                    body: JSON.stringify({ days: parseInt(days) })
+                  }).then(r => r.json()).then(data => {
+                    console.log(data);
+                    if (data.stats) setStats(data.stats);
+                  });
                 }
               }}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
-              Test Track Usage
+              Rerun Rollup
             </button>
           </div>
           
@@ -225,8 +274,8 @@ export default function UsageDashboardPage() {
             <button
               onClick={() => {
                 const userId = prompt('Enter user ID:');
-                if (userId) {
-                  fetch('/api/usage/validate-usage', {
+                if (user && userId) {
+                  adminFetch('/api/usage/validate-usage', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ userId })
@@ -0,0 +1,115 @@
+/**
+ * ADMIN ENDPOINT: Admin identities
+ *
+ * GET lists current admins. POST { uid | email, permissions } sets a user's admin
+ * permissions (replacing the previous set), DELETE ?uid= removes their admin access.
+ * See admin-identities.ts for who may change whom.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest, ADMIN_PERMISSIONS } from '@/lib/middleware/admin-auth';
+import {
+  ADMIN_MANAGEMENT_ERROR_STATUS,
+  listAdmins,
+  revokeAdmin,
+  setAdminPermissions,
+  type AdminManagementResult
+} from '@/lib/services/admin-identities';
+import { getAuditRequestMetadata } from '@/lib/services/admin-audit-log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+function toResponse(result: AdminManagementResult): NextResponse {
+  if (!result.success) {
+    return NextResponse.json({
+      error: 'Admin change refused',
+      code: result.code,
+      message: result.message
+    }, { status: ADMIN_MANAGEMENT_ERROR_STATUS[result.code] });
+  }
+
+  return NextResponse.json({
+    success: true,
+    admin: result.admin,
+    tokensRevoked: result.tokensRevoked
+  });
+}
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const admins = await listAdmins();
+
+    return NextResponse.json({
+      success: true,
+      count: admins.length,
+      admins,
+      availablePermissions: ADMIN_PERMISSIONS
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to list admins:', error);
+    return NextResponse.json({
+      error: 'Failed to list admins',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'admins');
+
+export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { uid, email, permissions } = await request.json();
+
+    if (!uid && !email) {
+      return NextResponse.json({
+        error: 'uid or email is required',
+        code: 'MISSING_ADMIN_USER'
+      }, { status: 400 });
+    }
+
+    const result = await setAdminPermissions({
+      uid,
+      email,
+      permissions,
+      actor: { adminId: request.adminId, email: request.adminEmail, permissions: request.permissions },
+      request: getAuditRequestMetadata(request)
+    });
+    return toResponse(result);
+
+  } catch (error) {
+    console.error('❌ Failed to set admin permissions:', error);
+    return NextResponse.json({
+      error: 'Failed to set admin permissions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'admins');
+
+export const DELETE = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const uid = request.nextUrl.searchParams.get('uid');
+
+    if (!uid) {
+      return NextResponse.json({
+        error: 'uid is required',
+        code: 'MISSING_ADMIN_USER'
+      }, { status: 400 });
+    }
+
+    const result = await revokeAdmin({
+      uid,
+      actor: { adminId: request.adminId, email: request.adminEmail, permissions: request.permissions },
+      request: getAuditRequestMetadata(request)
+    });
+    return toResponse(result);
+
+  } catch (error) {
+    console.error('❌ Failed to revoke admin:', error);
+    return NextResponse.json({
+      error: 'Failed to revoke admin',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'admins');
@@ -0,0 +1,61 @@
+/**
+ * ADMIN ENDPOINT: Admin audit log
+ *
+ * GET ?userId=&actorId=&action=&before=&limit= lists audit entries, newest first, for a
+ * target user, an acting admin or an action. Page back by passing the lowest sequence
+ * returned as `before`.
+ * GET ?verify=true&from=&limit= recomputes the hash chain and reports the first break.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { queryAdminAuditLog, verifyAdminAuditChain } from '@/lib/services/admin-audit-log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const GET = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    if (searchParams.get('verify') === 'true') {
+      const verification = await verifyAdminAuditChain({
+        fromSequence: Math.max(parseInt(searchParams.get('from') || '1', 10) || 1, 1),
+        limit: Math.min(parseInt(searchParams.get('limit') || '1000', 10) || 1000, 5000)
+      });
+
+      if (!verification.valid) {
+        console.error('🚨 Admin audit chain verification failed:', verification);
+      }
+
+      return NextResponse.json({
+        success: true,
+        verification
+      });
+    }
+
+    const entries = await queryAdminAuditLog({
+      targetUserId: searchParams.get('userId'),
+      actorId: searchParams.get('actorId'),
+      action: searchParams.get('action'),
+      beforeSequence: parseInt(searchParams.get('before') || '', 10) || null,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200)
+    });
+
+    return NextResponse.json({
+      success: true,
+      count: entries.length,
+      entries,
+      nextBefore: entries.length > 0 ? entries[entries.length - 1].sequence : null
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to query admin audit log:', error);
+    return NextResponse.json({
+      error: 'Failed to query audit log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'audit');
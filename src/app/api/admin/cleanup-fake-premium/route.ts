@@ -11,6 +11,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { getAuth } from 'firebase-admin/auth';
 import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { invalidatePremiumStatusCache } from '@/lib/services/premium-status-cache';
+import { appendAdminAuditEntry, getAdminAuditContext, type AdminAuditContext } from '@/lib/services/admin-audit-log';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -38,14 +40,16 @@ export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) =>
       errors: []
     };
 
+    const audit = getAdminAuditContext(request);
+
     // Step 1: Clean premium_users collection
-    await cleanPremiumUsersCollection(result);
+    await cleanPremiumUsersCollection(result, audit);
     
     // Step 2: Clean Firebase custom claims
-    await cleanFirebaseCustomClaims(result);
+    await cleanFirebaseCustomClaims(result, audit);
     
     // Step 3: Clean users collection
-    await cleanUsersCollection(result);
+    await cleanUsersCollection(result, audit);
 
     console.log('✅ Cleanup completed:', result);
 
@@ -68,7 +72,7 @@ export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) =>
 /**
  * Clean fake premium data from premium_users collection
  */
-async function cleanPremiumUsersCollection(result: CleanupResult): Promise<void> {
+async function cleanPremiumUsersCollection(result: CleanupResult, audit: AdminAuditContext): Promise<void> {
   console.log('🔍 Scanning premium_users collection...');
   
   try {
@@ -85,6 +89,16 @@ async function cleanPremiumUsersCollection(result: CleanupResult): Promise<void>
         try {
           // Remove the fake premium user record
           await doc.ref.delete();
+          await invalidatePremiumStatusCache(doc.id);
+          await appendAdminAuditEntry({
+            ...audit,
+            action: 'premium.cleanup_fake.delete_premium_user',
+            targetUserId: doc.id,
+            targetEmail: data.email || null,
+            targetResource: `premium_users/${doc.id}`,
+            before: data,
+            after: null
+          });
           result.premiumUsersFixed++;
           
           console.log(`🗑️ Removed fake premium user: ${doc.id} (customer: ${data.stripeCustomerId})`);
@@ -105,7 +119,7 @@ async function cleanPremiumUsersCollection(result: CleanupResult): Promise<void>
 /**
  * Clean fake premium data from Firebase custom claims
  */
-async function cleanFirebaseCustomClaims(result: CleanupResult): Promise<void> {
+async function cleanFirebaseCustomClaims(result: CleanupResult, audit: AdminAuditContext): Promise<void> {
   console.log('🔍 Scanning Firebase custom claims...');
   
   try {
@@ -125,13 +139,25 @@ async function cleanFirebaseCustomClaims(result: CleanupResult): Promise<void> {
         
         if (isFake) {
           try {
-            // Remove premium custom claims
-            await auth.setCustomUserClaims(userRecord.uid, {
+            // Remove premium custom claims, keeping unrelated ones such as admin
+            const cleanedClaims = {
+              ...customClaims,
               premium: false,
               subscriptionStatus: 'limited',
               stripeCustomerId: null,
               stripeSubscriptionId: null,
               stripeRole: null
+            };
+            await auth.setCustomUserClaims(userRecord.uid, cleanedClaims);
+            await invalidatePremiumStatusCache(userRecord.uid);
+            await appendAdminAuditEntry({
+              ...audit,
+              action: 'premium.cleanup_fake.reset_custom_claims',
+              targetUserId: userRecord.uid,
+              targetEmail: userRecord.email || null,
+              targetResource: `auth/${userRecord.uid}/customClaims`,
+              before: customClaims,
+              after: cleanedClaims
             });
             
             result.customClaimsFixed++;
@@ -154,7 +180,7 @@ async function cleanFirebaseCustomClaims(result: CleanupResult): Promise<void> {
 /**
  * Clean fake premium data from users collection
  */
-async function cleanUsersCollection(result: CleanupResult): Promise<void> {
+async function cleanUsersCollection(result: CleanupResult, audit: AdminAuditContext): Promise<void> {
   console.log('🔍 Scanning users collection...');
   
   try {
@@ -169,7 +195,7 @@ async function cleanUsersCollection(result: CleanupResult): Promise<void> {
       if (isFake) {
         try {
           // Reset to limited status
-          await doc.ref.update({
+          const reset = {
             subscriptionStatus: 'limited',
             stripeCustomerId: null,
             stripeSubscriptionId: null,
@@ -177,6 +203,16 @@ async function cleanUsersCollection(result: CleanupResult): Promise<void> {
             subscriptionEndDate: null,
             stripeRole: null,
             updatedAt: new Date()
+          };
+          await doc.ref.update(reset);
+          await appendAdminAuditEntry({
+            ...audit,
+            action: 'premium.cleanup_fake.reset_user',
+            targetUserId: doc.id,
+            targetEmail: data.email || null,
+            targetResource: `users/${doc.id}`,
+            before: data,
+            after: { ...data, ...reset }
           });
           
           result.usersCollectionFixed++;
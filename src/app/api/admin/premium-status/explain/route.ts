@@ -0,0 +1,59 @@
+/**
+ * ADMIN ENDPOINT: Explain a premium status decision
+ *
+ * Runs the live (uncached) premium status resolution for a user and returns the
+ * decision trace: every source consulted, what it reported, why it was rejected,
+ * and the rule that produced the final answer.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { getPremiumStatus } from '@/lib/services/premium-status';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const GET = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const email = searchParams.get('email') || undefined;
+    const deviceFingerprint = searchParams.get('deviceFingerprint') || undefined;
+
+    if (!userId) {
+      return NextResponse.json({
+        error: 'userId is required',
+        code: 'MISSING_USER_ID'
+      }, { status: 400 });
+    }
+
+    console.log('🔎 Explaining premium status decision:', { userId, adminId: request.adminId });
+
+    const result = await getPremiumStatus({ userId, email, deviceFingerprint });
+
+    return NextResponse.json({
+      success: true,
+      userId,
+      decision: {
+        subscriptionStatus: result.subscriptionStatus,
+        source: result.source,
+        confidence: result.confidence,
+        conflictDetected: result.conflictDetected || false
+      },
+      trace: result.decisionTrace,
+      adminInfo: {
+        adminId: request.adminId,
+        requestTime: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Premium status explain failed:', error);
+    return NextResponse.json({
+      error: 'Premium status explain failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'audit');
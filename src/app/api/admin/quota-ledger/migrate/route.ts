@@ -0,0 +1,58 @@
+/**
+ * ADMIN ENDPOINT: Migrate daily-limits to the quota ledger
+ *
+ * Folds fingerprint-keyed daily-limits docs into per-user quota_ledger docs, one page
+ * per call. Body: { dryRun?: boolean (default true), cursor?: string, pageSize?: number }.
+ * Repeat with the returned nextCursor until it is null.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { migrateDailyLimitsToLedger } from '@/lib/services/quota-ledger';
+import { appendAdminAuditEntry, getAdminAuditContext } from '@/lib/services/admin-audit-log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+    const pageSize = Math.min(Math.max(parseInt(body.pageSize, 10) || 200, 1), 500);
+
+    console.log('📦 Migrating daily-limits to quota ledger:', { dryRun, cursor: body.cursor || null, pageSize, adminId: request.adminId });
+
+    const result = await migrateDailyLimitsToLedger({
+      dryRun,
+      cursor: body.cursor || null,
+      pageSize
+    });
+
+    if (!dryRun) {
+      await appendAdminAuditEntry({
+        ...getAdminAuditContext(request),
+        action: 'quota_ledger.migrate',
+        targetResource: 'daily-limits',
+        metadata: { cursor: body.cursor || null, pageSize, result }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      adminInfo: {
+        adminId: request.adminId,
+        requestTime: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Daily-limits migration failed:', error);
+    return NextResponse.json({
+      error: 'Failed to migrate daily-limits',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'cleanup');
@@ -0,0 +1,67 @@
+/**
+ * ADMIN ENDPOINT: Session usage timeline
+ *
+ * Returns the per-heartbeat usage credits recorded for a session (measured interval,
+ * credited amount and why), for auditing quota decisions.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { adminDb } from '@/lib/firebase-admin';
+import { getSessionUsageTimeline } from '@/lib/services/usage-accounting';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const GET = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '500', 10) || 500, 2000);
+
+    if (!sessionId) {
+      return NextResponse.json({
+        error: 'sessionId is required',
+        code: 'MISSING_SESSION_ID'
+      }, { status: 400 });
+    }
+
+    const sessionDoc = await adminDb.collection('sessions').doc(sessionId).get();
+    if (!sessionDoc.exists) {
+      return NextResponse.json({
+        error: 'Session not found',
+        code: 'SESSION_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const sessionData = sessionDoc.data();
+    const timeline = await getSessionUsageTimeline(sessionId, limit);
+
+    return NextResponse.json({
+      success: true,
+      session: {
+        sessionId,
+        userId: sessionData?.userId,
+        status: sessionData?.status,
+        usageAccounting: sessionData?.usageAccounting || 'legacy',
+        totalUsageTime: sessionData?.totalUsageTime || 0
+      },
+      summary: {
+        beats: timeline.length,
+        creditedMs: timeline.reduce((sum, entry) => sum + (entry.creditedMs || 0), 0),
+        idleGaps: timeline.filter(entry => entry.reason === 'idle_gap').length,
+        cappedBeats: timeline.filter(entry => entry.reason === 'capped').length
+      },
+      timeline
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to load session usage timeline:', error);
+    return NextResponse.json({
+      error: 'Failed to load usage timeline',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'audit');
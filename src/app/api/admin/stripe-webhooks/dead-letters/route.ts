@@ -0,0 +1,95 @@
+/**
+ * ADMIN ENDPOINT: Stripe webhook dead-letter queue
+ *
+ * GET lists events whose processing failed. POST replays one event by ID through the
+ * normal ledger, so a replay is still skipped if a newer event for the same
+ * subscription has been applied since it failed.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import {
+  getStripeDeadLetterEvent,
+  listStripeDeadLetters,
+  markStripeDeadLetterReplayed
+} from '@/lib/services/stripe-event-ledger';
+import { handleStripeWebhookEvent } from '@/lib/services/stripe-webhook-processor';
+import { appendAdminAuditEntry, getAdminAuditContext } from '@/lib/services/admin-audit-log';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const GET = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeReplayed = searchParams.get('includeReplayed') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    const deadLetters = await listStripeDeadLetters({ includeReplayed, limit });
+
+    return NextResponse.json({
+      success: true,
+      count: deadLetters.length,
+      deadLetters
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to list Stripe dead letters:', error);
+    return NextResponse.json({
+      error: 'Failed to list dead letters',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'premium');
+
+export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { eventId } = await request.json();
+
+    if (!eventId) {
+      return NextResponse.json({
+        error: 'eventId is required',
+        code: 'MISSING_EVENT_ID'
+      }, { status: 400 });
+    }
+
+    const event = await getStripeDeadLetterEvent(eventId);
+    if (!event) {
+      return NextResponse.json({
+        error: 'Dead letter not found',
+        code: 'DEAD_LETTER_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    console.log('🔁 Replaying dead-lettered Stripe event:', { eventId, type: event.type, adminId: request.adminId });
+
+    const outcome = await handleStripeWebhookEvent(event, { replay: true });
+    await markStripeDeadLetterReplayed(eventId, outcome, request.adminId);
+    await appendAdminAuditEntry({
+      ...getAdminAuditContext(request),
+      action: 'stripe.dead_letter_replay',
+      targetResource: `stripe_webhook_dead_letters/${eventId}`,
+      metadata: { eventType: event.type, outcome }
+    });
+
+    return NextResponse.json({
+      success: outcome !== 'failed',
+      eventId,
+      eventType: event.type,
+      outcome,
+      adminInfo: {
+        adminId: request.adminId,
+        requestTime: new Date().toISOString()
+      }
+    }, { status: outcome === 'failed' ? 500 : 200 });
+
+  } catch (error) {
+    console.error('❌ Stripe dead letter replay failed:', error);
+    return NextResponse.json({
+      error: 'Replay failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'premium');
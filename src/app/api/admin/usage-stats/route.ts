@@ -0,0 +1,66 @@
+/**
+ * ADMIN ENDPOINT: Usage stats
+ *
+ * GET returns the stats precomputed by the rollup cron (cron/rollup-usage-stats) for
+ * the admin usage dashboard. POST { days } reruns the rollup now, rebuilding the last
+ * `days` daily rollups (default 2).
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { getUsageStats, rollupUsageStats } from '@/lib/services/usage-stats';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const stats = await getUsageStats();
+
+    if (!stats) {
+      return NextResponse.json({
+        error: 'Usage stats not ready',
+        code: 'USAGE_STATS_NOT_READY',
+        message: 'The usage rollup has not run yet'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      stats,
+      computedAt: stats.computedAt
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to read usage stats:', error);
+    return NextResponse.json({
+      error: 'Failed to read usage stats',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'monitoring');
+
+export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  try {
+    const { days } = await request.json().catch(() => ({}));
+    const refreshDays = Math.min(Math.max(parseInt(String(days ?? ''), 10) || 2, 1), 90);
+
+    console.log(`📊 Usage stats rollup requested by ${request.adminId}`, { refreshDays });
+    const stats = await rollupUsageStats({ refreshDays });
+
+    return NextResponse.json({
+      success: true,
+      stats,
+      computedAt: stats.computedAt
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to roll up usage stats:', error);
+    return NextResponse.json({
+      error: 'Failed to roll up usage stats',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}, 'monitoring');
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
+import { DEFAULT_TIME_ZONE, getLocalDate, isValidTimeZone } from '@/lib/services/user-timezone';
 
 export async function GET(request: NextRequest) {
   try {
@@ -34,8 +35,10 @@ export async function GET(request: NextRequest) {
       const startTime = sessionData.startTime.toDate();
       const lastHeartbeat = sessionData.lastHeartbeat.toDate();
       
-      // Calculate usage time based on last heartbeat
-      const usageTime = lastHeartbeat.getTime() - startTime.getTime();
+      // Measured sessions already know their usage; older ones fall back to wall-clock time
+      const usageTime = sessionData.usageAccounting === 'measured'
+        ? sessionData.totalUsageTime || 0
+        : lastHeartbeat.getTime() - startTime.getTime();
       
       // Update session to completed with calculated usage
       batch.update(sessionDoc.ref, {
@@ -54,7 +57,7 @@ export async function GET(request: NextRequest) {
           
           if (userDoc.exists) {
             const userData = userDoc.data();
-            const today = lastHeartbeat.toISOString().split('T')[0];
+            const today = getLocalDate(lastHeartbeat, isValidTimeZone(userData?.timeZone) ? userData.timeZone : DEFAULT_TIME_ZONE);
             const dailyUsage = userData?.dailyUsage || {};
             dailyUsage[today] = (dailyUsage[today] || 0) + usageTime;
             
@@ -92,10 +95,12 @@ export async function GET(request: NextRequest) {
     let deletedSessions = 0;
     const deleteBatch = adminDb.batch();
 
-    oldSessionsQuery.docs.forEach((doc) => {
+    for (const doc of oldSessionsQuery.docs) {
+      // Usage timeline entries are a subcollection and don't go away with the session
+      await adminDb.recursiveDelete(doc.ref.collection('usage_timeline'));
       deleteBatch.delete(doc.ref);
       deletedSessions++;
-    });
+    }
 
     if (deletedSessions > 0) {
       await deleteBatch.commit();
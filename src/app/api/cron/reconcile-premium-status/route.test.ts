@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { GET } from './route';
+
+describe('GET /api/cron/reconcile-premium-status', () => {
+  let db: InMemoryFirestore;
+  const previousEnv = { ...process.env };
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+    process.env.CRON_SECRET = 'cron-secret';
+    process.env.RECONCILIATION_MAX_CHANGES = '10';
+    delete process.env.RECONCILIATION_DRY_RUN;
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+    process.env = { ...previousEnv };
+  });
+
+  function request(query: string, secret: string | null = 'cron-secret') {
+    return new NextRequest(`http://localhost/api/cron/reconcile-premium-status${query}`, {
+      headers: secret ? { authorization: `Bearer ${secret}` } : {}
+    });
+  }
+
+  function savedReport() {
+    const path = db.paths().find(candidate => candidate.startsWith('reconciliation_reports/'));
+    return path ? db.read(path) : undefined;
+  }
+
+  it('refuses every request when CRON_SECRET is unset', async () => {
+    delete process.env.CRON_SECRET;
+
+    expect((await GET(request('', null))).status).toBe(401);
+    expect((await GET(request('', 'undefined'))).status).toBe(401);
+  });
+
+  it('keeps query overrides within the env limits', async () => {
+    const response = await GET(request('?maxChanges=500&hours=720'));
+
+    expect(response.status).toBe(200);
+    expect(savedReport()).toMatchObject({ maxChanges: 10, lookbackHours: 24, dryRun: false });
+  });
+
+  it('cannot turn off a dry run set in the env', async () => {
+    process.env.RECONCILIATION_DRY_RUN = 'true';
+
+    const response = await GET(request('?dryRun=false'));
+
+    expect((await response.json()).dryRun).toBe(true);
+  });
+});
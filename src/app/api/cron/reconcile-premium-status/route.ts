@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runPremiumReconciliation } from '@/lib/services/premium-reconciliation';
+
+// Force dynamic rendering to prevent static caching
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_MAX_CHANGES = 25;
+const DEFAULT_LOOKBACK_HOURS = 24;
+
+function parsePositiveInt(value: string | null | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    // Fail closed: without CRON_SECRET nobody can trigger this job
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // The env sets the limits; query params on manual runs can only make a run safer
+    // (force a dry run, fewer changes, a shorter lookback), never loosen it
+    const { searchParams } = new URL(request.url);
+    const envDryRun = process.env.RECONCILIATION_DRY_RUN === 'true' || process.env.RECONCILIATION_DRY_RUN === '1';
+    const dryRunParam = searchParams.get('dryRun');
+    const dryRun = envDryRun || dryRunParam === 'true' || dryRunParam === '1';
+    const maxChangesCeiling = parsePositiveInt(process.env.RECONCILIATION_MAX_CHANGES, DEFAULT_MAX_CHANGES);
+    const maxChanges = Math.min(parsePositiveInt(searchParams.get('maxChanges'), maxChangesCeiling), maxChangesCeiling);
+    const lookbackCeiling = parsePositiveInt(process.env.RECONCILIATION_LOOKBACK_HOURS, DEFAULT_LOOKBACK_HOURS);
+    const lookbackHours = Math.min(parsePositiveInt(searchParams.get('hours'), lookbackCeiling), lookbackCeiling);
+
+    console.log('Running premium status reconciliation...', { dryRun, maxChanges, lookbackHours });
+
+    const report = await runPremiumReconciliation({ dryRun, maxChanges, lookbackHours });
+
+    return NextResponse.json({
+      success: true,
+      reportId: report.reportId,
+      dryRun: report.dryRun,
+      usersScanned: report.usersScanned,
+      usersReconciled: report.usersReconciled,
+      changesPlanned: report.changesPlanned,
+      changesApplied: report.changesApplied,
+      capReached: report.capReached,
+      users: report.users,
+      timestamp: report.finishedAt.toISOString()
+    });
+    
+  } catch (error) {
+    console.error('Error reconciling premium status:', error);
+    
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      { error: `Failed to reconcile premium status: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST method for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rollupUsageStats } from '@/lib/services/usage-stats';
+
+// Force dynamic rendering to prevent static caching
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_REFRESH_DAYS = 2; // Today plus yesterday, for sessions that closed after midnight
+
+function parsePositiveInt(value: string | null | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    // Fail closed: without CRON_SECRET nobody can trigger this job
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ?days= rebuilds more of the window, e.g. to backfill after first deploy
+    const { searchParams } = new URL(request.url);
+    const refreshDays = parsePositiveInt(searchParams.get('days'), DEFAULT_REFRESH_DAYS);
+
+    console.log('Running usage stats rollup...', { refreshDays });
+
+    const stats = await rollupUsageStats({ refreshDays });
+
+    return NextResponse.json({
+      success: true,
+      refreshDays,
+      windowDays: stats.windowDays,
+      totalUsers: stats.totalUsers,
+      activeSessions: stats.activeSessions,
+      timestamp: stats.computedAt.toISOString()
+    });
+    
+  } catch (error) {
+    console.error('Error rolling up usage stats:', error);
+    
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    return NextResponse.json(
+      { error: `Failed to roll up usage stats: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Also allow POST method for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
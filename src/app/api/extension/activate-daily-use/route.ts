@@ -1,16 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
-import { generateSessionJWT } from '@/lib/middleware/auth';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { withProofOfWork } from '@/lib/middleware/proof-of-work';
+import { getDailyLimitMs, getQuotaPolicy } from '@/lib/services/quota-policy';
+import { activateDailyQuota } from '@/lib/services/quota-ledger';
+import { syncUserTimeZone } from '@/lib/services/user-timezone';
+import { createSessionWithinLimit } from '@/lib/services/active-sessions';
+import { issueSessionTokens } from '@/lib/services/session-tokens';
+import { getDeviceBindingMode, issueDeviceNonce, registerDeviceKey } from '@/lib/services/device-keys';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
+export const POST = withProofOfWork('daily_use_activation', withFirebaseUser(async (request: FirebaseUserRequest) => {
   try {
-    const { userId, userEmail, deviceFingerprint, forceReset } = await request.json();
+    const { deviceFingerprint, timeZone: reportedTimeZone, devicePublicKey } = await request.json();
+    const userId = request.uid;
+    const userEmail = request.email;
 
-    // Require user authentication for daily use activation
-    if (!userId || !userEmail) {
+    // Daily use is tracked against a signed-in account with an email address
+    if (!userEmail) {
       return NextResponse.json({
         error: 'Authentication required',
         code: 'AUTHENTICATION_REQUIRED'
@@ -24,85 +33,60 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Get current date for daily limit tracking
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const todayString = today.toISOString().split('T')[0]; // YYYY-MM-DD format
-
-    // DEBUG: Check what daily-limits documents exist
-    console.log('🔍 DEBUG: Checking daily-limits collection...');
-    
-    // Check all daily-limits documents for today to debug conflicts
-    const allDailyLimitsQuery = await adminDb.collection('daily-limits').get();
-    console.log('📊 DEBUG: All daily-limits documents:');
-    allDailyLimitsQuery.docs.forEach(doc => {
-      const data = doc.data();
-      console.log(`  - Document ID: ${doc.id}`);
-      console.log(`  - Date: ${data.date || 'N/A'}`);
-      console.log(`  - Activated: ${data.activated || false}`);
-      console.log(`  - User: ${data.userId || data.userEmail || 'N/A'}`);
-      console.log(`  - Device: ${data.deviceFingerprint || 'N/A'}`);
-      console.log('  ---');
-    });
-
-    // Check if user already used daily limit today
-    const expectedDocId = `${deviceFingerprint}_${todayString}`;
-    console.log(`🔍 DEBUG: Looking for document: ${expectedDocId}`);
-    console.log(`🔍 DEBUG: Device fingerprint: ${deviceFingerprint}`);
-    console.log(`🔍 DEBUG: Today string: ${todayString}`);
-    
-    const dailyLimitRef = adminDb.collection('daily-limits').doc(expectedDocId);
-    const dailyLimitDoc = await dailyLimitRef.get();
-
-    console.log(`🔍 DEBUG: Document exists: ${dailyLimitDoc.exists}`);
-    if (dailyLimitDoc.exists) {
-      const data = dailyLimitDoc.data();
-      console.log(`🔍 DEBUG: Document data:`, data);
-      
-      if (data?.activated) {
-        console.log('❌ DEBUG: Daily limit already activated for this device today');
-        
-        // TEMPORARY: Allow override for debugging by checking if this is the same user
-        
-        if (data.userId === userId && data.userEmail === userEmail) {
-          console.log('🔄 DEBUG: Same user detected, allowing reset for testing');
-          // Delete the existing record to allow re-activation
-          await dailyLimitRef.delete();
-          console.log('🗑️ DEBUG: Deleted existing daily limit record for re-activation');
-        } else {
-          return NextResponse.json({
-            error: 'Daily limit already used',
-            code: 'DAILY_LIMIT_USED',
-            message: 'You have already used your daily hour today. Try again tomorrow.',
-            nextResetTime: new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString(),
-            debug: {
-              expectedDocId,
-              deviceFingerprint,
-              todayString,
-              existingData: data,
-              currentUser: { userId, userEmail },
-              existingUser: { userId: data.userId, userEmail: data.userEmail }
-            }
-          }, { status: 429 });
-        }
+    // The extension's device key, passed along by the website, binds the session to the device
+    let deviceId: string | null = null;
+    if (devicePublicKey) {
+      const device = await registerDeviceKey({
+        userId,
+        publicKey: devicePublicKey,
+        deviceFingerprint,
+        userAgent: request.headers.get('user-agent')
+      });
+      if (!device.success) {
+        return NextResponse.json({
+          error: 'Device key rejected',
+          code: device.code,
+          message: device.message
+        }, { status: device.code === 'DEVICE_KEY_INVALID' ? 400 : 403 });
       }
+      deviceId = device.deviceId;
+    } else if (getDeviceBindingMode() === 'required') {
+      return NextResponse.json({
+        error: 'Device key required',
+        code: 'DEVICE_KEY_REQUIRED',
+        message: 'Please update the extension to activate daily use'
+      }, { status: 400 });
     }
+    const deviceNonce = deviceId ? issueDeviceNonce() : null;
 
-    // Activate daily use for this device/user combination
-    await dailyLimitRef.set({
-      deviceFingerprint,
+    // Open (or rejoin) today's quota ledger for this user - usage carries over across devices
+    const now = new Date();
+    const quotaPolicy = await getQuotaPolicy('limited');
+    const dailyLimitMs = getDailyLimitMs(quotaPolicy);
+    const timeZone = await syncUserTimeZone(userId, reportedTimeZone, now);
+    const quota = await activateDailyQuota({
       userId,
-      userEmail,
-      activatedAt: now,
-      date: todayString,
-      activated: true,
-      usageStartTime: now,
-      totalUsageTime: 0,
-      dailyLimitMs: 3600000, // 1 hour for production (3600000ms)
-      createdAt: now,
-      updatedAt: now
+      email: userEmail,
+      deviceFingerprint,
+      dailyLimitMs,
+      timeZone,
+      now
     });
 
+    if (!quota.allowed) {
+      console.log(`❌ Daily use refused for user ${userId} on device ${deviceFingerprint}: ${quota.code}`);
+      return NextResponse.json({
+        error: quota.code === 'DEVICE_LIMIT_USED' ? 'Device limit already used' : 'Daily limit already used',
+        code: quota.code,
+        message: quota.code === 'DEVICE_LIMIT_USED'
+          ? 'This device has used its share of your daily time. Try another device or come back tomorrow.'
+          : 'You have already used your daily time today. Try again tomorrow.',
+        nextResetTime: quota.nextResetTime,
+        totalUsageTime: quota.totalUsageTime,
+        deviceUsageTime: quota.deviceUsageTime
+      }, { status: 429 });
+    }
+
     // Update user's subscription status to 'limited' for daily use
     const userRef = adminDb.collection('users').doc(userId);
     await userRef.update({
@@ -111,14 +95,7 @@ export async function POST(request: NextRequest) {
       updatedAt: now
     });
 
-    console.log(`✅ Daily use activated for user ${userId} on device ${deviceFingerprint}`);
-
-    // DEBUG: Also check if this creates the record correctly
-    const verifyDoc = await dailyLimitRef.get();
-    console.log('🔍 DEBUG: Created document verification:', {
-      exists: verifyDoc.exists,
-      data: verifyDoc.data()
-    });
+    console.log(`✅ Daily use activated for user ${userId} on device ${deviceFingerprint} (${quota.timeRemaining}ms remaining)`);
 
     // 🔧 FIX: Check if session already exists to prevent duplicates
     const existingSessionQuery = await adminDb.collection('sessions')
@@ -133,6 +110,11 @@ export async function POST(request: NextRequest) {
     let sessionId;
     let sessionRef;
 
+    // Get client IP for session tracking
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown';
+
     if (!existingSessionQuery.empty) {
       // Use existing session instead of creating duplicate
       const existingSession = existingSessionQuery.docs[0];
@@ -146,71 +128,91 @@ export async function POST(request: NextRequest) {
         lastActivity: now,
         lastHeartbeat: now,
         dailyActivationTime: now,
-        activatedViaWebsite: true
+        activatedViaWebsite: true,
+        timeZone,
+        ...(deviceId ? { deviceId, deviceNonce } : {})
       });
     } else {
-      // Create new session only if none exists
+      // Create new session only if none exists, and only if it fits under the limited
+      // tier's concurrent session cap
       sessionId = `auth_${userId}_${Date.now()}`;
-      sessionRef = adminDb.collection('sessions').doc(sessionId);
-      
-      // Get client IP for session tracking
-      const clientIP = request.ip || 
-                       request.headers.get('x-forwarded-for')?.split(',')[0] || 
-                       request.headers.get('x-real-ip') || 
-                       'unknown';
-      
+
       console.log(`🆕 Creating new session ${sessionId} for daily activation`);
-      
-      // Create session document
-      await sessionRef.set({
-        sessionId,
+
+      const sessionLimit = await createSessionWithinLimit({
         userId,
-        email: userEmail,
-        subscriptionStatus: 'limited', // Daily use = limited subscription
-        deviceFingerprint,
-        ipAddress: clientIP,
-        userAgent: request.headers.get('user-agent') || 'unknown',
-        startTime: now,
-        lastActivity: now,
-        lastHeartbeat: now,
-        totalUsageTime: 0,
-        heartbeatCount: 0,
-        status: 'active',
-        type: 'authenticated',
-        activatedViaWebsite: true, // Flag to indicate this came from website activation
-        dailyActivationTime: now
+        maxSessions: quotaPolicy.concurrentSessions,
+        sessionId,
+        now,
+        session: {
+          sessionId,
+          userId,
+          email: userEmail,
+          subscriptionStatus: 'limited', // Daily use = limited subscription
+          deviceFingerprint,
+          deviceId,
+          deviceNonce,
+          ipAddress: clientIP,
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          startTime: now,
+          lastActivity: now,
+          lastHeartbeat: now,
+          totalUsageTime: 0,
+          heartbeatCount: 0,
+          status: 'active',
+          type: 'authenticated',
+          activatedViaWebsite: true, // Flag to indicate this came from website activation
+          dailyActivationTime: now,
+          timeZone
+        }
       });
+      if (!sessionLimit.allowed) {
+        return NextResponse.json({
+          error: 'Too many active sessions',
+          code: 'SESSION_LIMIT_REACHED',
+          message: `Your plan allows ${sessionLimit.maxSessions} active session(s). Sign out another device to continue.`,
+          maxSessions: sessionLimit.maxSessions,
+          activeSessions: sessionLimit.activeSessions
+        }, { status: 409 });
+      }
     }
 
-    // Generate JWT token for the extension
-    const jwtToken = generateSessionJWT({
+    // Short-lived access JWT plus a rotating refresh token for the extension
+    const tokens = await issueSessionTokens({
       sessionId,
       userId,
       deviceFingerprint,
       ipAddress: clientIP,
       subscriptionStatus: 'limited'
-    }, 7200000); // 2 hours expiration
+    });
 
     console.log(`🎫 Created JWT session ${sessionId} for daily activation`);
 
     return NextResponse.json({
       success: true,
       message: 'Daily use activated successfully',
-      dailyLimit: 3600000, // 1 hour for production (3600000ms)
+      dailyLimit: dailyLimitMs,
+      timeRemaining: quota.timeRemaining,
       activatedAt: now.toISOString(),
-      expiresAt: new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+      expiresAt: quota.nextResetTime,
+      timeZone,
       // 🔧 NEW: Return session data for extension
       session: {
         sessionId,
-        token: jwtToken,
-        expiresIn: 7200, // 2 hours in seconds
+        token: tokens.token,
+        expiresIn: tokens.expiresIn,
+        refreshToken: tokens.refreshToken,
+        refreshExpiresAt: tokens.refreshExpiresAt,
+        refreshUrl: `${request.headers.get('origin') || 'https://webtutorialai.com'}/api/v2/session/refresh`,
         subscriptionStatus: 'limited',
+        deviceId,
+        deviceNonce, // Sign `${sessionId}.${deviceNonce}` for the first heartbeat
         heartbeatUrl: `${request.headers.get('origin') || 'https://webtutorialai.com'}/api/v2/session/heartbeat`
       },
       debug: {
-        expectedDocId,
+        ledgerId: quota.ledgerId,
         deviceFingerprint,
-        todayString
+        quotaDate: quota.date
       }
     });
 
@@ -222,4 +224,4 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}));
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPremiumStatus, formatAuthStatusResponse } from '@/lib/services/premium-status';
+import { getDailyLimitMs, getQuotaPolicy } from '@/lib/services/quota-policy';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
@@ -73,7 +74,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Format response using consolidated formatter
-    const response = formatAuthStatusResponse(premiumStatus);
+    const response = formatAuthStatusResponse(premiumStatus, getDailyLimitMs(await getQuotaPolicy('limited')));
     console.log('🐛 DEBUG: Final API response:', response);
     
     return NextResponse.json(response);
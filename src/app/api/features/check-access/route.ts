@@ -1,96 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { adminDb } from '@/lib/firebase-admin';
-
-// Define premium features and their access requirements
-const PREMIUM_FEATURES = {
-  // Role-based features
-  'custom_roles': {
-    name: 'Custom Roles',
-    description: 'Create and use custom AI roles beyond the basic set',
-    requiredTier: 'premium'
-  },
-  'advanced_roles': {
-    name: 'Advanced Roles',
-    description: 'Access to specialized roles like Data Scientist, Legal Advisor, etc.',
-    requiredTier: 'premium'
-  },
-  'role_customization': {
-    name: 'Role Customization',
-    description: 'Modify and personalize existing roles',
-    requiredTier: 'premium'
-  },
-  
-  // Task-based features
-  'complex_tasks': {
-    name: 'Complex Tasks',
-    description: 'Multi-step tasks and advanced workflows',
-    requiredTier: 'premium'
-  },
-  'task_automation': {
-    name: 'Task Automation',
-    description: 'Automated task execution and scheduling',
-    requiredTier: 'premium'
-  },
-  'custom_workflows': {
-    name: 'Custom Workflows',
-    description: 'Create personalized task workflows',
-    requiredTier: 'premium'
-  },
-  
-  // Knowledge base features
-  'advanced_knowledge_base': {
-    name: 'Advanced Knowledge Base',
-    description: 'Access to specialized knowledge domains',
-    requiredTier: 'trial' // Available during trial
-  },
-  'knowledge_base_search': {
-    name: 'Knowledge Base Search',
-    description: 'Search across the full knowledge base',
-    requiredTier: 'trial'
-  },
-  
-  // Extension features
-  'unlimited_responses': {
-    name: 'Unlimited AI Responses',
-    description: 'No daily limits on AI interactions',
-    requiredTier: 'premium'
-  },
-  'priority_processing': {
-    name: 'Priority Processing',
-    description: 'Faster response times and priority queue',
-    requiredTier: 'premium'
-  },
-  'advanced_settings': {
-    name: 'Advanced Settings',
-    description: 'Fine-tune AI behavior and response styles',
-    requiredTier: 'premium'
-  },
-  
-  // Web interaction features
-  'deep_web_analysis': {
-    name: 'Deep Web Analysis',
-    description: 'Advanced webpage content analysis and understanding',
-    requiredTier: 'premium'
-  },
-  'multi_tab_context': {
-    name: 'Multi-Tab Context',
-    description: 'AI awareness across multiple browser tabs',
-    requiredTier: 'premium'
-  },
-  'web_automation': {
-    name: 'Web Automation',
-    description: 'Automated web interactions and form filling',
-    requiredTier: 'premium'
-  }
-} as const;
-
-export async function POST(request: NextRequest) {
+import { NextResponse } from 'next/server';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import {
+  PREMIUM_FEATURES,
+  checkFeatureAccess,
+  getUserFeatureTier,
+  isPremiumFeature,
+  tierMeetsRequirement,
+  type FeatureTier
+} from '@/lib/services/feature-access';
+import { withRateLimit } from '@/lib/rate-limiter';
+
+export const POST = withFirebaseUser(withRateLimit('features', async (request: FirebaseUserRequest) => {
   try {
-    const { userId, feature, requestedAction } = await request.json();
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
+    const { feature, requestedAction } = await request.json();
+    const userId = request.uid;
 
     if (!feature) {
       return NextResponse.json({ error: 'Feature name is required' }, { status: 400 });
@@ -98,11 +21,10 @@ export async function POST(request: NextRequest) {
 
     console.log('Checking feature access for user:', userId, 'feature:', feature);
 
-    // Get user document
-    const userDocRef = adminDb.collection('users').doc(userId);
-    const userDoc = await userDocRef.get();
+    // Same tier resolution as session start and the heartbeat
+    const tier = await getUserFeatureTier(userId, request.email);
     
-    if (!userDoc.exists) {
+    if (!tier) {
       return NextResponse.json({ 
         error: 'User not found',
         hasAccess: false,
@@ -110,12 +32,10 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
-    const userData = userDoc.data();
-    const subscriptionStatus = userData?.subscriptionStatus || 'limited';
+    const { featureTier: userTier, quotaTier, subscriptionStatus, trialEndDate } = tier;
 
     // Check if feature exists
-    const featureConfig = PREMIUM_FEATURES[feature as keyof typeof PREMIUM_FEATURES];
-    if (!featureConfig) {
+    if (!isPremiumFeature(feature)) {
       return NextResponse.json({
         hasAccess: false,
         reason: 'unknown_feature',
@@ -123,57 +43,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Determine user's access level
-    let userTier = 'limited';
-    if (subscriptionStatus === 'premium') {
-      userTier = 'premium';
-    } else if (subscriptionStatus === 'trial') {
-      // Check if trial is still active
-      const trialEndDate = userData?.subscriptionEndDate ? userData.subscriptionEndDate.toDate() : null;
-      if (trialEndDate && trialEndDate > new Date()) {
-        userTier = 'trial';
-      } else {
-        userTier = 'limited';
-      }
-    } else if (subscriptionStatus === 'anonymous') {
-      userTier = 'anonymous';
-    }
-
-    // Check feature access
-    const requiredTier = featureConfig.requiredTier;
-    let hasAccess = false;
-    let reason = '';
-
-    if (requiredTier === 'premium') {
-      hasAccess = userTier === 'premium';
-      reason = hasAccess ? 'premium_access' : 'premium_required';
-    } else if (requiredTier === 'trial') {
-      hasAccess = userTier === 'premium' || userTier === 'trial';
-      reason = hasAccess ? (userTier === 'premium' ? 'premium_access' : 'trial_access') : 'trial_or_premium_required';
-    } else {
-      // Basic features available to all
-      hasAccess = true;
-      reason = 'basic_access';
-    }
-
-    // Log feature access attempt
-    const accessLog = {
-      userId: userId,
-      feature: feature,
-      action: requestedAction || 'check_access',
-      hasAccess: hasAccess,
-      userTier: userTier,
-      requiredTier: requiredTier,
-      timestamp: new Date(),
-      subscriptionStatus: subscriptionStatus
-    };
-
-    // Store access log for analytics (optional)
-    try {
-      await adminDb.collection('feature_access_logs').add(accessLog);
-    } catch (logError) {
-      console.warn('Failed to log feature access:', logError);
-    }
+    const featureConfig = PREMIUM_FEATURES[feature];
+    const { hasAccess, reason, requiredTier } = await checkFeatureAccess({ userId, tier, feature, requestedAction });
 
     // Return access result
     return NextResponse.json({
@@ -186,8 +57,9 @@ export async function POST(request: NextRequest) {
       },
       user: {
         tier: userTier,
+        quotaTier: quotaTier,
         subscriptionStatus: subscriptionStatus,
-        trialEndDate: userData?.subscriptionEndDate ? userData.subscriptionEndDate.toDate().toISOString() : null
+        trialEndDate: trialEndDate ? trialEndDate.toISOString() : null
       },
       upgradeInfo: hasAccess ? null : {
         upgradeUrl: '/pricing?source=feature_gate&feature=' + encodeURIComponent(feature),
@@ -214,52 +86,29 @@ export async function POST(request: NextRequest) {
       error: `Failed to check feature access: ${errorDetails.message}`
     }, { status: 500 });
   }
-}
+}));
 
 // GET method to list all features and their requirements
-export async function GET(request: NextRequest) {
+export const GET = withFirebaseUser(withRateLimit('features', async (request: FirebaseUserRequest) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const userId = request.uid;
 
-    let userTier = 'anonymous';
+    let userTier: FeatureTier = 'anonymous';
     let subscriptionStatus = 'anonymous';
 
     if (userId) {
       // Get user's current tier
-      const userDocRef = adminDb.collection('users').doc(userId);
-      const userDoc = await userDocRef.get();
+      const tier = await getUserFeatureTier(userId, request.email);
       
-      if (userDoc.exists) {
-        const userData = userDoc.data();
-        subscriptionStatus = userData?.subscriptionStatus || 'limited';
-        
-        if (subscriptionStatus === 'premium') {
-          userTier = 'premium';
-        } else if (subscriptionStatus === 'trial') {
-          const trialEndDate = userData?.subscriptionEndDate ? userData.subscriptionEndDate.toDate() : null;
-          if (trialEndDate && trialEndDate > new Date()) {
-            userTier = 'trial';
-          } else {
-            userTier = 'limited';
-          }
-        } else {
-          userTier = subscriptionStatus;
-        }
+      if (tier) {
+        userTier = tier.featureTier;
+        subscriptionStatus = tier.subscriptionStatus;
       }
     }
 
     // Build feature list with access status
     const features = Object.entries(PREMIUM_FEATURES).map(([key, config]) => {
-      let hasAccess = false;
-      
-      if (config.requiredTier === 'premium') {
-        hasAccess = userTier === 'premium';
-      } else if (config.requiredTier === 'trial') {
-        hasAccess = userTier === 'premium' || userTier === 'trial';
-      } else {
-        hasAccess = true;
-      }
+      const hasAccess = tierMeetsRequirement(userTier, config.requiredTier);
 
       return {
         key: key,
@@ -305,4 +154,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}));
@@ -1,5 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { checkFeatureAccess, getUserFeatureTier } from '@/lib/services/feature-access';
+import { withRateLimit } from '@/lib/rate-limiter';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
@@ -89,40 +92,21 @@ export async function OPTIONS() {
   return addCorsHeaders(response);
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withFirebaseUser(withRateLimit('features', async (request: FirebaseUserRequest) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      const response = NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-      return addCorsHeaders(response);
-    }
+    const userId = request.uid;
 
     console.log('Fetching available roles for user:', userId);
 
-    // Check user's subscription status
-    const userDocRef = adminDb.collection('users').doc(userId);
-    const userDoc = await userDocRef.get();
+    // Determine user's access level, the same way session start and the heartbeat do
+    const tier = await getUserFeatureTier(userId, request.email);
     
-    if (!userDoc.exists) {
+    if (!tier) {
       const response = NextResponse.json({ error: 'User not found' }, { status: 404 });
       return addCorsHeaders(response);
     }
 
-    const userData = userDoc.data();
-    const subscriptionStatus = userData?.subscriptionStatus || 'limited';
-
-    // Determine user's access level
-    let userTier = 'limited';
-    if (subscriptionStatus === 'premium') {
-      userTier = 'premium';
-    } else if (subscriptionStatus === 'trial') {
-      const trialEndDate = userData?.subscriptionEndDate ? userData.subscriptionEndDate.toDate() : null;
-      if (trialEndDate && trialEndDate > new Date()) {
-        userTier = 'trial';
-      }
-    }
+    const { featureTier: userTier, subscriptionStatus } = tier;
 
     // Filter roles based on user's tier
     const availableRoles = Object.entries(BUILT_IN_ROLES).filter(([key, role]) => {
@@ -203,15 +187,12 @@ export async function GET(request: NextRequest) {
     );
     return addCorsHeaders(response);
   }
-}
+}));
 
-export async function POST(request: NextRequest) {
+export const POST = withFirebaseUser(withRateLimit('features', async (request: FirebaseUserRequest) => {
   try {
-    const { userId, action, roleData } = await request.json();
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
+    const { action, roleData } = await request.json();
+    const userId = request.uid;
 
     if (!action) {
       return NextResponse.json({ error: 'Action is required' }, { status: 400 });
@@ -219,20 +200,14 @@ export async function POST(request: NextRequest) {
 
     console.log('Role action for user:', userId, 'action:', action);
 
-    // Check if user has premium access for custom roles
-    const featureCheck = await fetch(`${request.nextUrl.origin}/api/features/check-access`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        userId: userId,
-        feature: 'custom_roles',
-        requestedAction: action
-      }),
-    });
+    // Check if user has premium access for custom roles. Checked in-process: this
+    // request has already been counted against the features limit
+    const tier = await getUserFeatureTier(userId, request.email);
+    if (!tier) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
 
-    const featureAccess = await featureCheck.json();
+    const featureAccess = await checkFeatureAccess({ userId, tier, feature: 'custom_roles', requestedAction: action });
 
     if (action === 'create_custom' || action === 'modify_custom') {
       if (!featureAccess.hasAccess) {
@@ -328,4 +303,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}));
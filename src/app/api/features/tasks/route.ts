@@ -1,5 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { checkFeatureAccess, getUserFeatureTier, type PremiumFeature } from '@/lib/services/feature-access';
+import { getQuotaPolicy } from '@/lib/services/quota-policy';
+import { reserveTaskExecution } from '@/lib/services/task-usage';
+import { getUserTimeZone } from '@/lib/services/user-timezone';
+import { withRateLimit } from '@/lib/rate-limiter';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
@@ -135,41 +141,24 @@ export async function OPTIONS() {
   return addCorsHeaders(response);
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withFirebaseUser(withRateLimit('features', async (request: FirebaseUserRequest) => {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const userId = request.uid;
     const category = searchParams.get('category');
 
-    if (!userId) {
-      const response = NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-      return addCorsHeaders(response);
-    }
-
     console.log('Fetching available tasks for user:', userId, 'category:', category);
 
-    // Check user's subscription status
-    const userDocRef = adminDb.collection('users').doc(userId);
-    const userDoc = await userDocRef.get();
+    // Determine user's access level, the same way session start and the heartbeat do
+    const tier = await getUserFeatureTier(userId, request.email);
     
-    if (!userDoc.exists) {
+    if (!tier) {
       const response = NextResponse.json({ error: 'User not found' }, { status: 404 });
       return addCorsHeaders(response);
     }
 
-    const userData = userDoc.data();
-    const subscriptionStatus = userData?.subscriptionStatus || 'limited';
-
-    // Determine user's access level
-    let userTier = 'limited';
-    if (subscriptionStatus === 'premium') {
-      userTier = 'premium';
-    } else if (subscriptionStatus === 'trial') {
-      const trialEndDate = userData?.subscriptionEndDate ? userData.subscriptionEndDate.toDate() : null;
-      if (trialEndDate && trialEndDate > new Date()) {
-        userTier = 'trial';
-      }
-    }
+    const { featureTier: userTier, subscriptionStatus } = tier;
+    const quotaPolicy = await getQuotaPolicy(tier.quotaTier);
 
     // Filter tasks based on user's tier
     let allTasks = Object.entries(BUILT_IN_TASKS);
@@ -253,7 +242,9 @@ export async function GET(request: NextRequest) {
         canModifyTasks: userTier === 'premium',
         canScheduleTasks: userTier === 'premium',
         maxCustomTasks: userTier === 'premium' ? 20 : 0,
-        maxTokensPerTask: userTier === 'premium' ? 2000 : userTier === 'trial' ? 600 : 300
+        maxTokensPerTask: quotaPolicy.maxTokensPerTask,
+        taskExecutionsPerDay: quotaPolicy.taskExecutionsPerDay, // null = unlimited
+        dailyTokenBudget: quotaPolicy.dailyTokenBudget
       },
       categories: categories,
       summary: {
@@ -272,15 +263,12 @@ export async function GET(request: NextRequest) {
     );
     return addCorsHeaders(response);
   }
-}
+}));
 
-export async function POST(request: NextRequest) {
+export const POST = withFirebaseUser(withRateLimit('features', async (request: FirebaseUserRequest) => {
   try {
-    const { userId, action, taskData } = await request.json();
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
+    const { action, taskData } = await request.json();
+    const userId = request.uid;
 
     if (!action) {
       return NextResponse.json({ error: 'Action is required' }, { status: 400 });
@@ -289,24 +277,20 @@ export async function POST(request: NextRequest) {
     console.log('Task action for user:', userId, 'action:', action);
 
     // Check feature access based on action
-    let requiredFeature = 'custom_workflows';
+    let requiredFeature: PremiumFeature = 'custom_workflows';
     if (action.includes('automated') || action.includes('schedule')) {
       requiredFeature = 'task_automation';
     }
 
-    const featureCheck = await fetch(`${request.nextUrl.origin}/api/features/check-access`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        userId: userId,
-        feature: requiredFeature,
-        requestedAction: action
-      }),
-    });
+    // Checked in-process: this request has already been counted against the features limit
+    const tier = await getUserFeatureTier(userId, request.email);
+    if (!tier) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
 
-    const featureAccess = await featureCheck.json();
+    const featureAccess = await checkFeatureAccess({ userId, tier, feature: requiredFeature, requestedAction: action });
+    const userTier = tier.featureTier;
+    const quotaPolicy = await getQuotaPolicy(tier.quotaTier);
 
     if (action === 'create_custom' || action === 'modify_custom') {
       if (!featureAccess.hasAccess) {
@@ -331,7 +315,7 @@ export async function POST(request: NextRequest) {
         template: taskData.template,
         category: taskData.category || 'custom',
         steps: taskData.steps || 1,
-        maxTokens: Math.min(taskData.maxTokens || 500, 2000), // Cap at 2000 for premium
+        maxTokens: Math.min(taskData.maxTokens || 500, quotaPolicy.maxTokensPerTask),
         isActive: true,
         isAutomated: taskData.isAutomated || false,
         createdAt: new Date(),
@@ -409,7 +393,6 @@ export async function POST(request: NextRequest) {
         taskConfig = BUILT_IN_TASKS[taskId as keyof typeof BUILT_IN_TASKS];
         
         // Check if user has access to this built-in task
-        const userTier = featureAccess.user?.tier || 'limited';
         if (taskConfig.tier === 'premium' && userTier !== 'premium') {
           return NextResponse.json({
             error: 'Premium subscription required for this task',
@@ -433,6 +416,28 @@ export async function POST(request: NextRequest) {
         taskConfig = taskDoc.data();
       }
 
+      // Count the execution and its tokens against today's budget for the tier
+      const reservation = await reserveTaskExecution({
+        userId,
+        taskId,
+        requestedTokens: taskConfig?.maxTokens || 300,
+        policy: quotaPolicy,
+        timeZone: await getUserTimeZone(userId)
+      });
+
+      if (!reservation.allowed) {
+        return NextResponse.json({
+          error: reservation.code === 'TASK_EXECUTIONS_EXHAUSTED'
+            ? 'Daily task execution limit reached'
+            : 'Daily token budget used',
+          reason: reservation.code,
+          executionsToday: reservation.executionsToday,
+          tokensToday: reservation.tokensToday,
+          nextResetTime: reservation.nextResetTime,
+          upgradeUrl: '/pricing?source=task_quota'
+        }, { status: 429 });
+      }
+
       // Log task execution
       const executionLog = {
         userId: userId,
@@ -455,9 +460,14 @@ export async function POST(request: NextRequest) {
         execution: {
           taskName: taskConfig?.name,
           steps: taskConfig?.steps || 1,
-          maxTokens: taskConfig?.maxTokens || 300,
+          maxTokens: reservation.maxTokens,
           template: taskConfig?.template
         },
+        usage: {
+          executionsToday: reservation.executionsToday,
+          tokensToday: reservation.tokensToday,
+          nextResetTime: reservation.nextResetTime
+        },
         message: 'Task execution logged successfully'
       });
     }
@@ -471,4 +481,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}));
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
+import { withRateLimit } from '@/lib/rate-limiter';
 
 // Protected endpoint - requires authentication
 export const POST = withAuth(async (request: AuthenticatedRequest) => {
@@ -18,7 +19,7 @@ export const POST = withAuth(async (request: AuthenticatedRequest) => {
 });
 
 // Unprotected endpoint - for comparison and Redis testing
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('testRoutes', async (request: NextRequest) => {
   // SECURITY: Disable in production to prevent information disclosure
   if (process.env.NODE_ENV === 'production') {
     return NextResponse.json({ error: 'Test endpoints disabled in production' }, { status: 404 });
@@ -60,4 +61,4 @@ export async function GET(request: NextRequest) {
     timestamp: new Date().toISOString(),
     headers: Object.fromEntries(request.headers.entries())
   });
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -7,8 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateSessionJWT } from '@/lib/middleware/auth';
+import { withRateLimit } from '@/lib/rate-limiter';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('testRoutes', async (request: NextRequest) => {
   // SECURITY: Disable in production to prevent unauthorized token generation
   if (process.env.NODE_ENV === 'production') {
     return NextResponse.json({ error: 'Test endpoints disabled in production' }, { status: 404 });
@@ -58,4 +59,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
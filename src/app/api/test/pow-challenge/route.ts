@@ -1,56 +1,53 @@
 /**
  * Test endpoint for Proof-of-Work system
- * 
- * This endpoint helps test the PoW flow:
- * 1. GET: Returns a test challenge
- * 2. POST: Verifies a solution
+ *
+ * This endpoint helps test the PoW flow (see services/proof-of-work.ts):
+ * 1. GET: Returns a signed test challenge bound to the caller's IP
+ * 2. POST: Verifies (and spends) a solution
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
+import { getClientIp, withRateLimit } from '@/lib/rate-limiter';
+import { getPowDifficulty, issuePowChallenge, verifyPowSolution } from '@/lib/services/proof-of-work';
+
+export const GET = withRateLimit('testRoutes', async (request: NextRequest) => {
+  const challenge = issuePowChallenge({
+    scope: 'test',
+    subject: `ip:${getClientIp(request)}`,
+    difficulty: getPowDifficulty(0)
+  });
 
-export async function GET() {
-  const challenge = crypto.randomBytes(16).toString('hex');
-  const difficulty = 3; // Easy difficulty for testing
-  
   return NextResponse.json({
-    challenge,
-    difficulty,
-    targetPrefix: '0'.repeat(difficulty),
-    algorithm: 'sha256',
+    ...challenge,
     instructions: [
-      '1. Find a nonce such that sha256(challenge + nonce) starts with ' + difficulty + ' zeros',
-      '2. POST the solution to this endpoint with { "challenge": "' + challenge + '", "solution": "nonce" }',
-      '3. Example: If challenge is "abc" and nonce is "123", hash sha256("abc123")'
+      '1. Find a nonce such that sha256(challenge + nonce) starts with ' + challenge.difficulty + ' zero bits',
+      '2. POST the solution to this endpoint with { "challenge": "<challenge>", "solution": "nonce" } before expiresAt',
+      '3. Each challenge can be used once; solvePowChallenge in src/lib/proof-of-work.ts does the search'
     ]
   });
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('testRoutes', async (request: NextRequest) => {
   try {
     const { challenge, solution } = await request.json();
-    
+
     if (!challenge || !solution) {
       return NextResponse.json({
         error: 'Missing challenge or solution'
       }, { status: 400 });
     }
 
-    // Calculate hash
-    const hash = crypto
-      .createHash('sha256')
-      .update(challenge + solution)
-      .digest('hex');
-
-    // Check if it starts with 3 zeros (test difficulty)
-    const isValid = hash.startsWith('000');
+    const result = await verifyPowSolution({
+      scope: 'test',
+      subject: `ip:${getClientIp(request)}`,
+      challenge: String(challenge),
+      nonce: String(solution)
+    });
 
     return NextResponse.json({
-      valid: isValid,
-      hash,
+      ...result,
       challenge,
-      solution,
-      expectedPrefix: '000'
+      solution
     });
 
   } catch (error) {
@@ -58,4 +55,4 @@ export async function POST(request: NextRequest) {
       error: 'Invalid request'
     }, { status: 400 });
   }
-}
\ No newline at end of file
+});
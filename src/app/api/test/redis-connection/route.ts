@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/rate-limiter';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('testRoutes', async (request: NextRequest) => {
   try {
     console.log('🔍 Testing Redis connection...');
     
@@ -87,4 +88,4 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString()
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuth } from 'firebase-admin/auth';
+import { withRateLimit } from '@/lib/rate-limiter';
+import { appendAdminAuditEntry, getAuditRequestMetadata } from '@/lib/services/admin-audit-log';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('testRoutes', async (request: NextRequest) => {
   // SECURITY: Disable in production to prevent unauthorized premium access
   if (process.env.NODE_ENV === 'production') {
     return NextResponse.json({ error: 'Test endpoints disabled in production' }, { status: 404 });
@@ -20,7 +22,9 @@ export async function GET(request: NextRequest) {
     console.log('🧪 Setting custom claims for user:', userId);
     
     const auth = getAuth();
-    await auth.setCustomUserClaims(userId, {
+    const claimsBefore = (await auth.getUser(userId)).customClaims || {};
+    const claimsAfter = {
+      ...claimsBefore,
       premium: true,
       subscriptionStatus: 'premium',
       stripeCustomerId: 'manual_upgrade',
@@ -28,6 +32,16 @@ export async function GET(request: NextRequest) {
       subscriptionStartDate: Math.floor(Date.now() / 1000),
       subscriptionEndDate: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60), // 30 days from now
       updatedAt: Date.now()
+    };
+    await auth.setCustomUserClaims(userId, claimsAfter);
+    await appendAdminAuditEntry({
+      actor: { id: 'test:set-custom-claims', type: 'test' },
+      request: getAuditRequestMetadata(request),
+      action: 'auth.custom_claims.test_grant_premium',
+      targetUserId: userId,
+      targetResource: `auth/${userId}/customClaims`,
+      before: claimsBefore,
+      after: claimsAfter
     });
     
     console.log('✅ Custom claims set successfully for user:', userId);
@@ -49,4 +63,4 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/rate-limiter';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('testRoutes', async (request: NextRequest) => {
   // SECURITY: Disable in production to prevent unauthorized premium access
   if (process.env.NODE_ENV === 'production') {
     return NextResponse.json({ error: 'Test endpoints disabled in production' }, { status: 404 });
@@ -45,4 +46,4 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
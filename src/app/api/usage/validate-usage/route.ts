@@ -0,0 +1,49 @@
+/**
+ * ADMIN ENDPOINT: Usage validation for one user
+ *
+ * GET ?userId= (or POST { userId }) returns the user's subscription status and today's
+ * usage against their daily limit, as shown in the admin usage dashboard lookup.
+ *
+ * SECURITY: Only accessible with proper admin authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAdminAuth, AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+import { getUserUsageSummary } from '@/lib/services/usage-stats';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+async function validateUsage(userId: unknown): Promise<NextResponse> {
+  if (!userId || typeof userId !== 'string') {
+    return NextResponse.json({
+      error: 'userId is required',
+      code: 'MISSING_USER_ID'
+    }, { status: 400 });
+  }
+
+  try {
+    const summary = await getUserUsageSummary(userId);
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to validate usage:', error);
+    return NextResponse.json({
+      error: 'Failed to validate usage',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export const GET = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  return validateUsage(request.nextUrl.searchParams.get('userId'));
+}, 'users');
+
+export const POST = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
+  const { userId } = await request.json().catch(() => ({}));
+  return validateUsage(userId);
+}, 'users');
@@ -3,14 +3,14 @@
  * 
  * This endpoint handles real-time session tracking by:
  * - Updating session activity timestamps
- * - Tracking cumulative usage time for daily limits
+ * - Crediting measured usage time since the previous heartbeat (see usage-accounting)
  * - Returning current session status and time remaining
  * - Automatically ending sessions when limits are reached
  * 
  * Security features:
  * - JWT authentication required
  * - Rate limiting applied
- * - Device fingerprint validation
+ * - Device fingerprint validation, plus a signed nonce for sessions bound to a device key
  * - Atomic Firestore updates to prevent race conditions
  */
 
@@ -18,7 +18,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
 import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/auth';
 import { FieldValue } from 'firebase-admin/firestore';
-import { getPremiumStatus } from '@/lib/services/premium-status';
+import { getCachedPremiumStatus } from '@/lib/services/premium-status-cache';
+import { getBillingWarning } from '@/lib/services/subscription-state';
+import { resolvePlan } from '@/lib/services/plan-catalog';
+import { getDailyLimitMs, getQuotaPolicyForStatus } from '@/lib/services/quota-policy';
+import { HEARTBEAT_INTERVAL_MS, recordHeartbeatUsage, type HeartbeatStopReason } from '@/lib/services/usage-accounting';
+import { getUserTimeZone } from '@/lib/services/user-timezone';
+import { verifyDeviceProof, type DeviceProof } from '@/lib/services/device-keys';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
@@ -26,12 +32,28 @@ export const dynamic = 'force-dynamic';
 interface HeartbeatRequest {
   sessionId: string;
   deviceFingerprint: string;
+  deviceProof?: DeviceProof; // Signature over `${sessionId}.${nonce}` with the device key
 }
 
+interface HeartbeatSessionUpdate {
+  lastActivity: Date;
+  heartbeatCount: number;
+  subscriptionStatus: string;
+  timeRemaining: number;
+  status?: 'expired';
+  endTime?: Date;
+  endReason?: 'daily_limit_reached' | 'device_limit_reached' | 'idle_timeout';
+}
+
+const END_REASONS: Partial<Record<HeartbeatStopReason, HeartbeatSessionUpdate['endReason']>> = {
+  DEVICE_LIMIT_USED: 'device_limit_reached',
+  SESSION_IDLE: 'idle_timeout'
+};
+
 async function heartbeatHandler(request: AuthenticatedRequest) {
   try {
     const body: HeartbeatRequest = await request.json();
-    const { sessionId, deviceFingerprint } = body;
+    const { sessionId, deviceFingerprint, deviceProof } = body;
 
     // Validate required fields
     if (!sessionId || !deviceFingerprint) {
@@ -92,10 +114,25 @@ async function heartbeatHandler(request: AuthenticatedRequest) {
     }
 
     const now = new Date();
+
+    // Sessions bound to a device key must prove possession of it on every beat
+    const deviceCheck = await verifyDeviceProof({ sessionId, proof: deviceProof, now });
+    if (!deviceCheck.valid) {
+      console.warn('⚠️ Device proof rejected in heartbeat:', { sessionId, code: deviceCheck.code });
+      const shouldStop = deviceCheck.code === 'DEVICE_REVOKED' || deviceCheck.code === 'DEVICE_NOT_BOUND';
+      return NextResponse.json({
+        error: 'Device proof rejected',
+        code: deviceCheck.code,
+        message: deviceCheck.message,
+        deviceNonce: deviceCheck.nextNonce, // Sign this and retry
+        shouldStop
+      }, { status: 401 });
+    }
     
     // 🔧 FIXED: Real-time premium status check to handle upgrades/downgrades during session
-    console.log('🔍 Checking real-time premium status for heartbeat...');
-    const premiumStatusResult = await getPremiumStatus({
+    // Served from the short-lived cache; webhooks invalidate it so upgrades still apply on the next beat
+    console.log('🔍 Checking premium status for heartbeat...');
+    const premiumStatusResult = await getCachedPremiumStatus({
       userId: sessionData.userId,
       email: sessionData.email,
       deviceFingerprint: sessionData.deviceFingerprint
@@ -125,100 +162,79 @@ async function heartbeatHandler(request: AuthenticatedRequest) {
       });
     }
     
-    // Determine daily limits
-    let dailyLimitMs: number;
-    switch (subscriptionStatus) {
-      case 'premium':
-        dailyLimitMs = -1; // Unlimited
-        break;
-      case 'limited':
-      default:
-        dailyLimitMs = 3600000; // 1 hour for production (3600000ms)
-        break;
-    }
+    // Daily limit comes from the tier's quota policy - grace and canceled_at_period_end keep the paid plan until access ends
+    const plan = resolvePlan(premiumStatusResult);
+    const quotaPolicy = await getQuotaPolicyForStatus(premiumStatusResult);
+    const dailyLimitMs = getDailyLimitMs(quotaPolicy); // -1 = unlimited
+
+    // Lets the extension prompt the user to fix billing before access drops
+    const billingWarning = getBillingWarning(premiumStatusResult);
     
     let timeRemaining: number;
     let shouldStop: boolean;
     
-    if (dailyLimitMs === -1) {
-      // Premium users have unlimited time
-      timeRemaining = -1;
-      shouldStop = false;
-    } else {
-      // Track daily usage in Firestore daily-limits collection (same as activation uses)
-      const today = now.toISOString().split('T')[0]; // YYYY-MM-DD format
-      const expectedDocId = `${sessionData.deviceFingerprint}_${today}`;
-      const dailyLimitRef = adminDb.collection('daily-limits').doc(expectedDocId);
-      
-      try {
-        // Use transaction to atomically update usage time
-        const usageResult = await adminDb.runTransaction(async (transaction) => {
-          const dailyDoc = await transaction.get(dailyLimitRef);
-          
-          if (!dailyDoc.exists) {
-            console.warn(`⚠️ Daily limit document not found: ${expectedDocId} - user may not have activated daily use`);
-            // If no daily activation found, deny access
-            return {
-              totalUsageTime: dailyLimitMs + 1, // Force limit exceeded
-              timeRemaining: 0,
-              shouldStop: true
-            };
-          }
-          
-          const dailyData = dailyDoc.data();
-          const currentUsage = dailyData?.totalUsageTime || 0;
-          const heartbeatIncrement = 30000; // 30 seconds in milliseconds
-          const newTotalUsage = currentUsage + heartbeatIncrement;
-          
-          // Update usage time
-          transaction.update(dailyLimitRef, {
-            totalUsageTime: newTotalUsage,
-            lastHeartbeat: now,
-            updatedAt: now
-          });
-          
-          const timeRemaining = Math.max(0, dailyLimitMs - newTotalUsage);
-          const shouldStop = newTotalUsage >= dailyLimitMs;
-          
-          return {
-            totalUsageTime: newTotalUsage,
-            timeRemaining,
-            shouldStop
-          };
-        });
-        
-        timeRemaining = usageResult.timeRemaining;
-        shouldStop = usageResult.shouldStop;
-        
-        if (shouldStop) {
-          console.log(`💯 Daily limit reached for user ${sessionData.userId}: ${usageResult.totalUsageTime}ms used, limit: ${dailyLimitMs}ms`);
-        } else {
-          console.log(`⏱️ Usage tracking for ${sessionData.userId}: ${usageResult.totalUsageTime}/${dailyLimitMs}ms used, ${timeRemaining}ms remaining`);
-        }
-        
-      } catch (firestoreError) {
-        console.error('❌ Firestore daily usage tracking failed:', firestoreError);
+    // Credit the measured time since the last beat (capped, idle gaps end limited
+    // sessions) to the session and, for limited plans, to the user's daily quota ledger
+    let stopReason: HeartbeatStopReason | undefined;
+
+    try {
+      const usageResult = await recordHeartbeatUsage({
+        sessionId,
+        userId: sessionData.userId,
+        deviceFingerprint: sessionData.deviceFingerprint,
+        dailyLimitMs,
+        // Sessions pin the quota day's zone when they start
+        timeZone: sessionData.timeZone || await getUserTimeZone(sessionData.userId),
+        subscriptionStatus,
+        now
+      });
+
+      timeRemaining = usageResult.timeRemaining;
+      shouldStop = usageResult.shouldStop;
+      stopReason = usageResult.stopReason;
+
+      if (usageResult.stopReason === 'DAILY_USE_NOT_ACTIVATED') {
+        console.warn(`⚠️ Quota ledger not found for ${sessionData.userId} today - user may not have activated daily use`);
+      } else if (usageResult.stopReason === 'SESSION_IDLE') {
+        console.log(`💤 Session ${sessionId} idle for ${usageResult.elapsedMs}ms - ending it, the client must start a new one`);
+      } else if (usageResult.stopReason === 'DEVICE_LIMIT_USED') {
+        console.log(`💯 Device sub-cap reached for user ${sessionData.userId} on ${sessionData.deviceFingerprint}: ${usageResult.deviceUsageTime}ms used`);
+      } else if (dailyLimitMs === -1) {
+        console.log(`⏱️ Usage tracking for ${sessionData.userId}: +${usageResult.creditedMs}ms (${usageResult.reason}), session total ${usageResult.sessionUsageTime}ms, unlimited`);
+      } else if (shouldStop) {
+        console.log(`💯 Daily limit reached for user ${sessionData.userId}: ${usageResult.dailyUsageTime}ms used, limit: ${dailyLimitMs}ms`);
+      } else {
+        console.log(`⏱️ Usage tracking for ${sessionData.userId}: +${usageResult.creditedMs}ms (${usageResult.reason}), ${usageResult.dailyUsageTime}/${dailyLimitMs}ms used, ${timeRemaining}ms remaining`);
+      }
+
+    } catch (firestoreError) {
+      console.error('❌ Firestore usage accounting failed:', firestoreError);
+      if (dailyLimitMs === -1) {
+        // Unlimited plans keep going; only the audit timeline misses this beat
+        timeRemaining = -1;
+        shouldStop = false;
+      } else {
         // Conservative fallback - deny access if tracking fails
         timeRemaining = 0;
         shouldStop = true;
       }
     }
 
-    // Update session in Firestore - coordinated with daily-limits tracking
-    const updateData: any = {
+    // Update session in Firestore - coordinated with quota ledger tracking
+    // lastHeartbeat and totalUsageTime are written by the usage accounting transaction
+    const updateData: HeartbeatSessionUpdate = {
       lastActivity: now,
-      lastHeartbeat: now,
       heartbeatCount: (sessionData?.heartbeatCount || 0) + 1,
       subscriptionStatus: subscriptionStatus,
       // Add current time remaining for session tracking
       timeRemaining: timeRemaining
     };
 
-    // If limit reached, mark session as expired
+    // If a limit was reached or the session went idle, mark it as expired
     if (shouldStop) {
       updateData.status = 'expired';
       updateData.endTime = now;
-      updateData.endReason = 'daily_limit_reached';
+      updateData.endReason = (stopReason && END_REASONS[stopReason]) || 'daily_limit_reached';
     }
 
     // Add timeout and retry logic for Firestore update
@@ -242,16 +258,20 @@ async function heartbeatHandler(request: AuthenticatedRequest) {
       }
     }
 
-    console.log(`💓 Heartbeat processed for session ${sessionId}: Firestore daily-limits tracking, remaining: ${timeRemaining}ms`);
+    console.log(`💓 Heartbeat processed for session ${sessionId}: quota ledger tracking, remaining: ${timeRemaining}ms`);
 
     // Return current session status
     return NextResponse.json({
       timeRemaining,
       shouldStop,
+      stopReason: stopReason || null,
       sessionActive: !shouldStop,
       subscriptionStatus,
-      heartbeatInterval: 30000, // Recommend 30-second intervals
-      sessionType: sessionData?.type || 'unknown'
+      planTier: plan.id === 'free' ? null : plan.id,
+      billingWarning,
+      heartbeatInterval: HEARTBEAT_INTERVAL_MS, // Accounting is measured, but beats should stay close to this
+      sessionType: sessionData?.type || 'unknown',
+      deviceNonce: deviceCheck.nextNonce // Sign for the next heartbeat (null when the session has no device key)
     });
 
   } catch (error) {
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { RATE_LIMIT_POLICIES, createMemoryRateLimitBackend, setRateLimitBackendOverride } from '@/lib/rate-limiter';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { POST } from './route';
+
+describe('POST /api/v2/session/refresh', () => {
+  beforeEach(() => {
+    setAdminDbOverride(new InMemoryFirestore());
+    setRateLimitBackendOverride(createMemoryRateLimitBackend());
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+    setRateLimitBackendOverride(null);
+  });
+
+  function refresh(body: Record<string, unknown>, ip = '203.0.113.7') {
+    return POST(new NextRequest('http://localhost/api/v2/session/refresh', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+      body: JSON.stringify(body)
+    }));
+  }
+
+  it('throttles repeated refresh attempts from one IP', async () => {
+    const { limit } = RATE_LIMIT_POLICIES.sessionRefresh;
+
+    for (let i = 0; i < limit; i++) {
+      expect((await refresh({ refreshToken: `guess_${i}`, deviceFingerprint: 'device_a' })).status).not.toBe(429);
+    }
+
+    const throttled = await refresh({ refreshToken: 'guess_last', deviceFingerprint: 'device_a' });
+    expect(throttled.status).toBe(429);
+    expect((await throttled.json()).code).toBe('RATE_LIMIT_EXCEEDED');
+
+    expect((await refresh({ refreshToken: 'guess_other', deviceFingerprint: 'device_b' }, '198.51.100.2')).status).not.toBe(429);
+  });
+});
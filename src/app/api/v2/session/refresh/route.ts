@@ -0,0 +1,66 @@
+/**
+ * Session Refresh Endpoint
+ *
+ * Trades a refresh token for a new short-lived access token and a replacement refresh
+ * token on the same session, so an expired access token doesn't force a new session.
+ * Each refresh token works once; reusing one signs the session out.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/rate-limiter';
+import { REFRESH_ERROR_STATUS, rotateSessionTokens } from '@/lib/services/session-tokens';
+
+// Force dynamic rendering to prevent static caching
+export const dynamic = 'force-dynamic';
+
+interface SessionRefreshRequest {
+  refreshToken: string;
+  deviceFingerprint: string;
+}
+
+export const POST = withRateLimit('sessionRefresh', async (request: NextRequest) => {
+  try {
+    const { refreshToken, deviceFingerprint }: SessionRefreshRequest = await request.json();
+
+    if (!refreshToken || !deviceFingerprint) {
+      return NextResponse.json({
+        error: 'Missing required fields',
+        code: 'MISSING_FIELDS',
+        required: ['refreshToken', 'deviceFingerprint']
+      }, { status: 400 });
+    }
+
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+                     request.headers.get('x-real-ip') ||
+                     'unknown';
+
+    const result = await rotateSessionTokens({ refreshToken, deviceFingerprint, ipAddress: clientIP });
+
+    if (!result.success) {
+      console.warn('⚠️ Session refresh refused:', { code: result.code, deviceFingerprint });
+      return NextResponse.json({
+        error: 'Session refresh failed',
+        code: result.code,
+        message: result.message,
+        shouldStop: true
+      }, { status: REFRESH_ERROR_STATUS[result.code] });
+    }
+
+    console.log(`🔄 Refreshed tokens for session ${result.sessionId}`);
+
+    return NextResponse.json({
+      success: true,
+      sessionId: result.sessionId,
+      subscriptionStatus: result.subscriptionStatus,
+      ...result.tokens
+    });
+
+  } catch (error) {
+    console.error('❌ Session refresh error:', error);
+    return NextResponse.json({
+      error: 'Failed to refresh session',
+      code: 'SESSION_REFRESH_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
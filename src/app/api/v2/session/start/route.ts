@@ -2,40 +2,41 @@
  * Session Start Endpoint - Authenticated session creation only
  * 
  * This endpoint handles session creation for authenticated users only.
- * Users must be authenticated to start a session.
+ * The user is identified by their Firebase ID token (Authorization: Bearer <idToken>).
+ * Clients starting sessions too often are asked for proof of work first (428).
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { adminDb } from '@/lib/firebase-admin';
-import { generateSessionJWT } from '@/lib/middleware/auth';
+import { NextResponse } from 'next/server';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { withProofOfWork } from '@/lib/middleware/proof-of-work';
 import { getPremiumStatus } from '@/lib/services/premium-status';
+import { getBillingWarning } from '@/lib/services/subscription-state';
+import { resolvePlan } from '@/lib/services/plan-catalog';
+import { getDailyLimitMs, getQuotaPolicyForStatus } from '@/lib/services/quota-policy';
+import { checkDailyQuota } from '@/lib/services/quota-ledger';
+import { createSessionWithinLimit } from '@/lib/services/active-sessions';
+import { issueSessionTokens } from '@/lib/services/session-tokens';
+import { syncUserTimeZone } from '@/lib/services/user-timezone';
+import { getDeviceBindingMode, issueDeviceNonce, registerDeviceKey } from '@/lib/services/device-keys';
 
 // Force dynamic rendering to prevent static caching
 export const dynamic = 'force-dynamic';
 
-// JWT expiration configuration (environment-based)  
-const JWT_EXPIRATION = {
-  development: 7200000, // 2 hours for development
-  production: 7200000   // 2 hours for production
-};
-
-// Get JWT expiration based on environment
-const getJWTExpiration = () => {
-  const isDevelopment = process.env.NODE_ENV === 'development';
-  return isDevelopment ? JWT_EXPIRATION.development : JWT_EXPIRATION.production;
-};
-
 interface SessionStartRequest {
-  userId?: string;
+  userId?: string;  // Optional; must match the ID token when sent
   email?: string;
   deviceFingerprint: string;
   userAgent?: string;
+  timeZone?: string; // IANA zone reported by the client
+  devicePublicKey?: JsonWebKey; // P-256 public JWK; heartbeats then sign the returned deviceNonce
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withProofOfWork('session_start', withFirebaseUser(async (request: FirebaseUserRequest) => {
   try {
     const body: SessionStartRequest = await request.json();
-    const { userId, email, deviceFingerprint, userAgent } = body;
+    const { deviceFingerprint, userAgent, timeZone: reportedTimeZone, devicePublicKey } = body;
+    const userId = request.uid;
+    const email = request.email;
 
     if (!deviceFingerprint) {
       return NextResponse.json({
@@ -45,17 +46,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Get client IP
-    const clientIP = request.ip || 
-                     request.headers.get('x-forwarded-for')?.split(',')[0] || 
+    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0] || 
                      request.headers.get('x-real-ip') || 
                      'unknown';
 
-    // Require authentication for all users
-    if (!userId || !email) {
+    // Sessions are tied to an email address for premium lookups
+    if (!email) {
       return NextResponse.json({
         error: 'Authentication required',
         code: 'AUTHENTICATION_REQUIRED',
-        message: 'Please sign in to use the extension'
+        message: 'Please sign in with an account that has an email address to use the extension'
       }, { status: 401 });
     }
 
@@ -81,35 +81,101 @@ export async function POST(request: NextRequest) {
 
     // Note: Removed strict email validation to match auth-status endpoint behavior
 
-    // Create authenticated session
+    // Limited plans draw from a per-user daily quota shared by all of the user's devices
+    const plan = resolvePlan(premiumStatus);
+    const quotaPolicy = await getQuotaPolicyForStatus(premiumStatus);
+    const dailyLimitMs = getDailyLimitMs(quotaPolicy);
+    const timeZone = await syncUserTimeZone(userId, reportedTimeZone);
+    const quota = dailyLimitMs === -1
+      ? null
+      : await checkDailyQuota({ userId, deviceFingerprint, dailyLimitMs, timeZone });
+
+    if (quota && !quota.allowed) {
+      console.log(`❌ Session start refused for user ${userId} on device ${deviceFingerprint}: ${quota.code}`);
+      return NextResponse.json({
+        error: 'Daily quota used',
+        code: quota.code,
+        message: quota.code === 'DEVICE_LIMIT_USED'
+          ? 'This device has used its share of your daily time. Try again tomorrow.'
+          : 'You have already used your daily time today. Try again tomorrow.',
+        nextResetTime: quota.nextResetTime
+      }, { status: 429 });
+    }
+
+    // Bind the session to the device's key so heartbeats can prove they come from it
+    let deviceId: string | null = null;
+    if (devicePublicKey) {
+      const device = await registerDeviceKey({
+        userId,
+        publicKey: devicePublicKey,
+        deviceFingerprint,
+        userAgent: userAgent || request.headers.get('user-agent')
+      });
+      if (!device.success) {
+        return NextResponse.json({
+          error: 'Device key rejected',
+          code: device.code,
+          message: device.message
+        }, { status: device.code === 'DEVICE_KEY_INVALID' ? 400 : 403 });
+      }
+      deviceId = device.deviceId;
+    } else if (getDeviceBindingMode() === 'required') {
+      return NextResponse.json({
+        error: 'Device key required',
+        code: 'DEVICE_KEY_REQUIRED',
+        message: 'Please update the extension to start a session'
+      }, { status: 400 });
+    }
+
+    // Create authenticated session, staying within the tier's concurrent session cap
+    // (evicts the oldest or refuses, per SESSION_LIMIT_MODE)
     const sessionId = `auth_${userId}_${Date.now()}`;
-    const sessionRef = adminDb.collection('sessions').doc(sessionId);
-    
-    await sessionRef.set({
-      sessionId,
+    const deviceNonce = deviceId ? issueDeviceNonce() : null;
+    const startTime = new Date();
+
+    const sessionLimit = await createSessionWithinLimit({
       userId,
-      email: premiumStatus.email || email,
-      subscriptionStatus: premiumStatus.subscriptionStatus,
-      deviceFingerprint,
-      ipAddress: clientIP,
-      userAgent: userAgent || request.headers.get('user-agent') || 'unknown',
-      startTime: new Date(),
-      lastActivity: new Date(),
-      lastHeartbeat: new Date(),
-      totalUsageTime: 0,
-      heartbeatCount: 0,
-      status: 'active',
-      type: 'authenticated'
+      maxSessions: quotaPolicy.concurrentSessions,
+      sessionId,
+      now: startTime,
+      session: {
+        sessionId,
+        userId,
+        email: premiumStatus.email || email,
+        subscriptionStatus: premiumStatus.subscriptionStatus,
+        deviceFingerprint,
+        deviceId,
+        deviceNonce,
+        ipAddress: clientIP,
+        userAgent: userAgent || request.headers.get('user-agent') || 'unknown',
+        startTime,
+        lastActivity: startTime,
+        lastHeartbeat: startTime,
+        totalUsageTime: 0,
+        heartbeatCount: 0,
+        timeZone,
+        status: 'active',
+        type: 'authenticated'
+      }
     });
+    if (!sessionLimit.allowed) {
+      return NextResponse.json({
+        error: 'Too many active sessions',
+        code: 'SESSION_LIMIT_REACHED',
+        message: `Your plan allows ${sessionLimit.maxSessions} active session(s). Sign out another device to continue.`,
+        maxSessions: sessionLimit.maxSessions,
+        activeSessions: sessionLimit.activeSessions
+      }, { status: 409 });
+    }
 
-    // Generate JWT for authenticated session
-    const jwt = generateSessionJWT({
+    // Short-lived access JWT plus a rotating refresh token for /api/v2/session/refresh
+    const tokens = await issueSessionTokens({
       sessionId,
       userId,
       deviceFingerprint,
       ipAddress: clientIP,
       subscriptionStatus: premiumStatus.subscriptionStatus
-    }, getJWTExpiration()); // Environment-based expiration
+    });
 
     console.log('✅ Created authenticated session:', {
       sessionId,
@@ -121,10 +187,18 @@ export async function POST(request: NextRequest) {
       success: true,
       sessionType: 'authenticated',
       sessionId,
-      token: jwt,
-      expiresIn: Math.floor(getJWTExpiration() / 1000), // Environment-based expiration in seconds
+      ...tokens, // token, expiresIn (seconds), refreshToken, refreshExpiresAt
+      deviceId,
+      deviceNonce, // Sign `${sessionId}.${deviceNonce}` for the first heartbeat
       subscriptionStatus: premiumStatus.subscriptionStatus,
-      dailyLimit: premiumStatus.subscriptionStatus === 'premium' ? -1 : 3600000, // 1 hour for limited users
+      planTier: plan.id === 'free' ? null : plan.id,
+      dailyLimit: dailyLimitMs, // -1 = unlimited
+      timeRemaining: quota ? quota.timeRemaining : -1,
+      nextResetTime: quota ? quota.nextResetTime : null,
+      timeZone,
+      maxSessions: sessionLimit.maxSessions,
+      revokedSessions: sessionLimit.revokedSessionIds,
+      billingWarning: getBillingWarning(premiumStatus),
       premiumSource: premiumStatus.source // Debug info
     });
 
@@ -136,4 +210,4 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * Billing Portal API - V3
+ *
+ * Creates a Stripe customer portal session for the signed-in user and returns
+ * its URL. Requires the user's Firebase ID token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { createBillingPortalSession } from '@/lib/services/billing-portal';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  try {
+    const session = await createBillingPortalSession({
+      userId: auth.uid!,
+      returnUrl: `${request.nextUrl.origin}/account/billing`
+    });
+
+    if (!session) {
+      return NextResponse.json({
+        error: 'No billing account found',
+        code: 'NO_BILLING_ACCOUNT',
+        message: 'There is no subscription on this account to manage'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, url: session.url });
+
+  } catch (error) {
+    console.error('❌ Billing portal session error:', error);
+    return NextResponse.json({
+      error: 'Failed to open billing portal',
+      code: 'BILLING_PORTAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
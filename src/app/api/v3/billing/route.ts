@@ -0,0 +1,51 @@
+/**
+ * Billing Summary API - V3
+ *
+ * Plan and subscription state for the signed-in user's account/billing page.
+ * Requires the user's Firebase ID token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { getPremiumStatus } from '@/lib/services/premium-status';
+import { resolvePlan } from '@/lib/services/plan-catalog';
+import { getBillingWarning } from '@/lib/services/subscription-state';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  try {
+    const premiumStatus = await getPremiumStatus({ userId: auth.uid!, email: auth.email });
+    const plan = resolvePlan(premiumStatus);
+
+    return NextResponse.json({
+      success: true,
+      subscriptionStatus: premiumStatus.subscriptionStatus,
+      planTier: plan.id === 'free' ? null : plan.id,
+      planName: plan.name,
+      subscriptionStartDate: premiumStatus.subscriptionStartDate,
+      subscriptionEndDate: premiumStatus.subscriptionEndDate,
+      gracePeriodEndsAt: premiumStatus.gracePeriodEndsAt,
+      billingWarning: getBillingWarning(premiumStatus),
+      hasBillingAccount: !!premiumStatus.stripeCustomerId
+    });
+
+  } catch (error) {
+    console.error('❌ Billing summary error:', error);
+    return NextResponse.json({
+      error: 'Failed to load billing details',
+      code: 'BILLING_SUMMARY_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Device Revoke API - V3
+ *
+ * Revokes one of the user's device keys. Sessions bound to the device are signed out
+ * and the key can't be used to start new ones.
+ * Requires the user's Firebase ID token.
+ */
+
+import { NextResponse } from 'next/server';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { revokeUserDevice } from '@/lib/services/device-keys';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const DELETE = withFirebaseUser(async (
+  request: FirebaseUserRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) => {
+  try {
+    const { deviceId } = await params;
+    const revoked = await revokeUserDevice({ userId: request.uid, deviceId });
+
+    if (!revoked) {
+      return NextResponse.json({
+        error: 'Device not found',
+        code: 'DEVICE_NOT_FOUND',
+        message: 'No active device with that ID on your account'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, deviceId, status: 'revoked' });
+
+  } catch (error) {
+    console.error('❌ Device revoke error:', error);
+    return NextResponse.json({
+      error: 'Failed to revoke device',
+      code: 'DEVICE_REVOKE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,33 @@
+/**
+ * Registered Devices API - V3
+ *
+ * Lists the device keys registered to the signed-in user (see device-keys.ts) for the
+ * account/devices page. Requires the user's Firebase ID token.
+ */
+
+import { NextResponse } from 'next/server';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { getDeviceBindingMode, listUserDevices } from '@/lib/services/device-keys';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export const GET = withFirebaseUser(async (request: FirebaseUserRequest) => {
+  try {
+    const devices = await listUserDevices(request.uid);
+
+    return NextResponse.json({
+      success: true,
+      devices,
+      bindingMode: getDeviceBindingMode()
+    });
+
+  } catch (error) {
+    console.error('❌ Device list error:', error);
+    return NextResponse.json({
+      error: 'Failed to load devices',
+      code: 'DEVICE_LIST_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,173 @@
+/**
+ * Organization Members API - V3
+ *
+ * Owner-only member and seat management for a team organization:
+ *   GET    - members, seat usage and pending invitations
+ *   POST   - invite by email: { email }
+ *   PATCH  - assign or revoke a seat: { userId, seatAssigned }
+ *   DELETE - remove a member { userId } or revoke an invitation { invitationId }
+ * Requires the owner's Firebase ID token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import {
+  ORGANIZATION_ERROR_STATUS,
+  getOrganization,
+  inviteOrganizationMember,
+  listOrganizationMembers,
+  listPendingInvitations,
+  removeOrganizationMember,
+  revokeOrganizationInvitation,
+  setOrganizationSeat,
+  type OrganizationActionResult
+} from '@/lib/services/organizations';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ orgId: string }>;
+}
+
+function unauthorized(auth: { code?: string; error?: string }) {
+  return NextResponse.json({
+    error: 'Unauthorized',
+    code: auth.code,
+    message: auth.error
+  }, { status: 401 });
+}
+
+function actionResponse<T>(result: OrganizationActionResult<T>, body: (data: T) => Record<string, unknown>) {
+  if (!result.success) {
+    return NextResponse.json({
+      error: 'Organization request failed',
+      code: result.code,
+      message: result.message
+    }, { status: ORGANIZATION_ERROR_STATUS[result.code] });
+  }
+
+  return NextResponse.json({ success: true, ...body(result.data) });
+}
+
+function serverError(action: string, error: unknown) {
+  console.error(`❌ Organization ${action} error:`, error);
+  return NextResponse.json({
+    error: `Failed to ${action}`,
+    code: 'ORG_MEMBERS_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) return unauthorized(auth);
+
+  try {
+    const { orgId } = await params;
+    const organization = await getOrganization(orgId);
+
+    if (!organization) {
+      return NextResponse.json({
+        error: 'Organization not found',
+        code: 'ORG_NOT_FOUND'
+      }, { status: 404 });
+    }
+    if (organization.ownerId !== auth.uid) {
+      return NextResponse.json({
+        error: 'Forbidden',
+        code: 'NOT_ORG_OWNER',
+        message: 'Only the organization owner can manage members and seats'
+      }, { status: 403 });
+    }
+
+    const [members, invitations] = await Promise.all([
+      listOrganizationMembers(orgId),
+      listPendingInvitations(orgId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      organization,
+      members,
+      invitations
+    });
+
+  } catch (error) {
+    return serverError('list members', error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) return unauthorized(auth);
+
+  try {
+    const { orgId } = await params;
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({
+        error: 'email is required',
+        code: 'MISSING_EMAIL'
+      }, { status: 400 });
+    }
+
+    const result = await inviteOrganizationMember({ orgId, actorId: auth.uid!, email });
+    return actionResponse(result, invitation => ({ invitation }));
+
+  } catch (error) {
+    return serverError('invite member', error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) return unauthorized(auth);
+
+  try {
+    const { orgId } = await params;
+    const { userId, seatAssigned } = await request.json();
+
+    if (!userId || typeof seatAssigned !== 'boolean') {
+      return NextResponse.json({
+        error: 'userId and seatAssigned (boolean) are required',
+        code: 'INVALID_SEAT_REQUEST'
+      }, { status: 400 });
+    }
+
+    const result = await setOrganizationSeat({ orgId, actorId: auth.uid!, userId, assigned: seatAssigned });
+    return actionResponse(result, member => ({ member }));
+
+  } catch (error) {
+    return serverError('update seat', error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) return unauthorized(auth);
+
+  try {
+    const { orgId } = await params;
+    const { userId, invitationId } = await request.json();
+
+    if (invitationId) {
+      const result = await revokeOrganizationInvitation({ orgId, actorId: auth.uid!, invitationId });
+      return actionResponse(result, () => ({ invitationId }));
+    }
+
+    if (!userId) {
+      return NextResponse.json({
+        error: 'userId or invitationId is required',
+        code: 'MISSING_IDENTIFIER'
+      }, { status: 400 });
+    }
+
+    const result = await removeOrganizationMember({ orgId, actorId: auth.uid!, userId });
+    return actionResponse(result, () => ({ userId }));
+
+  } catch (error) {
+    return serverError('remove member', error);
+  }
+}
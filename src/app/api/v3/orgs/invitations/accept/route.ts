@@ -0,0 +1,60 @@
+/**
+ * Organization Invitation Accept API - V3
+ *
+ * Joins the signed-in user to the organization that invited their email address.
+ * Body: { invitationId }. Requires the invitee's Firebase ID token with a verified email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { ORGANIZATION_ERROR_STATUS, acceptOrganizationInvitation } from '@/lib/services/organizations';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  try {
+    const { invitationId } = await request.json();
+
+    if (!invitationId) {
+      return NextResponse.json({
+        error: 'invitationId is required',
+        code: 'MISSING_INVITATION_ID'
+      }, { status: 400 });
+    }
+
+    const result = await acceptOrganizationInvitation({
+      invitationId,
+      userId: auth.uid!,
+      email: auth.email,
+      emailVerified: !!auth.emailVerified
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Could not accept invitation',
+        code: result.code,
+        message: result.message
+      }, { status: ORGANIZATION_ERROR_STATUS[result.code] });
+    }
+
+    return NextResponse.json({ success: true, member: result.data });
+
+  } catch (error) {
+    console.error('❌ Invitation accept error:', error);
+    return NextResponse.json({
+      error: 'Failed to accept invitation',
+      code: 'INVITATION_ACCEPT_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Organization Invitations API - V3
+ *
+ * Lists the pending invitations sent to the signed-in user's email address, so the
+ * invitee can find the invitationId to accept. Requires the invitee's Firebase ID
+ * token with a verified email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { ORGANIZATION_ERROR_STATUS, listInvitationsForEmail } from '@/lib/services/organizations';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  if (!auth.email || !auth.emailVerified) {
+    return NextResponse.json({
+      error: 'Email not verified',
+      code: 'EMAIL_NOT_VERIFIED',
+      message: 'Verify your email address to see invitations sent to it'
+    }, { status: ORGANIZATION_ERROR_STATUS.EMAIL_NOT_VERIFIED });
+  }
+
+  try {
+    const invitations = await listInvitationsForEmail(auth.email);
+
+    return NextResponse.json({
+      success: true,
+      invitations: invitations.map(invitation => ({
+        invitationId: invitation.invitationId,
+        orgId: invitation.orgId,
+        orgName: invitation.orgName,
+        createdAt: invitation.createdAt,
+        expiresAt: invitation.expiresAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('❌ Invitation list error:', error);
+    return NextResponse.json({
+      error: 'Failed to list invitations',
+      code: 'INVITATION_LIST_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
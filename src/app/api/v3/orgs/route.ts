@@ -0,0 +1,49 @@
+/**
+ * Organizations API - V3
+ *
+ * Lists the team organizations the signed-in user belongs to.
+ * Requires the user's Firebase ID token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { listUserOrganizations } from '@/lib/services/organizations';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  try {
+    const organizations = await listUserOrganizations(auth.uid!);
+
+    return NextResponse.json({
+      success: true,
+      organizations: organizations.map(({ organization, membership }) => ({
+        orgId: organization.orgId,
+        name: organization.name,
+        role: membership.role,
+        seatAssigned: membership.seatAssigned,
+        subscriptionStatus: organization.subscriptionStatus,
+        seatQuantity: organization.seatQuantity,
+        seatsAssigned: organization.seatsAssigned
+      }))
+    });
+
+  } catch (error) {
+    console.error('❌ Organization list error:', error);
+    return NextResponse.json({
+      error: 'Failed to list organizations',
+      code: 'ORG_LIST_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
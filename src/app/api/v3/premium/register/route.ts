@@ -2,16 +2,36 @@
  * Premium User Registration API - V3
  * 
  * Creates or updates premium_users collection records
- * Used by Stripe webhooks and subscription success page
+ *
+ * POST from the subscription success page: the signed-in user (Firebase ID token) sends
+ * the Checkout Session ID and their status is read from Stripe, never from the request.
+ * POST from an admin without a checkout is a manual registration; PUT is admin-only.
+ * Every registration is recorded with its provenance (see premium-registration.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase-admin';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
+import { authenticateAdmin, withAdminAuth, type AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
 import { getAuth } from 'firebase-admin/auth';
+import { invalidatePremiumStatusCache } from '@/lib/services/premium-status-cache';
+import { hasPremiumAccess } from '@/lib/services/subscription-state';
+import { appendAdminAuditEntry, getAdminAuditContext } from '@/lib/services/admin-audit-log';
+import {
+  CHECKOUT_VERIFICATION_STATUS,
+  recordPremiumRegistration,
+  registerPremiumFromCheckout
+} from '@/lib/services/premium-registration';
+import { withRateLimit } from '@/lib/rate-limiter';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
+interface CheckoutRegistration {
+  checkoutSessionId?: string;  // {CHECKOUT_SESSION_ID} from the success URL
+  subscriptionId?: string;     // Alternative when the checkout session isn't at hand
+}
+
 interface PremiumUserRegistration {
   userId: string;
   email: string;
@@ -24,9 +44,77 @@ interface PremiumUserRegistration {
   deviceFingerprint?: string;
   userAgent?: string;
   source?: string; // webhook, manual, subscription-success
+  reason?: string; // Why an admin registered this user by hand
 }
 
-export async function POST(request: NextRequest) {
+function getClientIp(request: NextRequest): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0] || request.headers.get('x-real-ip') || null;
+}
+
+/**
+ * Register the signed-in user from a Stripe checkout they completed
+ */
+const registerFromCheckout = withFirebaseUser(withRateLimit('premiumRegister', async (request: FirebaseUserRequest) => {
+  try {
+    const { checkoutSessionId, subscriptionId }: CheckoutRegistration = await request.json();
+
+    if (!checkoutSessionId && !subscriptionId) {
+      return NextResponse.json({
+        error: 'checkoutSessionId or subscriptionId is required',
+        code: 'MISSING_REQUIRED_FIELDS'
+      }, { status: 400 });
+    }
+
+    if (!request.email) {
+      return NextResponse.json({
+        error: 'The signed-in account has no email address',
+        code: 'MISSING_REQUIRED_FIELDS'
+      }, { status: 400 });
+    }
+
+    console.log('🔄 Verifying premium registration with Stripe:', { userId: request.uid, checkoutSessionId, subscriptionId });
+
+    const result = await registerPremiumFromCheckout({
+      userId: request.uid,
+      email: request.email,
+      checkoutSessionId,
+      subscriptionId,
+      ipAddress: getClientIp(request)
+    });
+
+    if (!result.success) {
+      console.warn('🚫 Premium registration refused:', { userId: request.uid, code: result.code });
+      return NextResponse.json({
+        error: 'Checkout could not be verified',
+        code: result.code,
+        message: result.message
+      }, { status: CHECKOUT_VERIFICATION_STATUS[result.code] });
+    }
+
+    return NextResponse.json({
+      success: true,
+      userId: request.uid,
+      email: request.email,
+      subscriptionStatus: result.subscriptionStatus,
+      stripeSubscriptionId: result.stripeSubscriptionId,
+      subscriptionEndDate: result.subscriptionEndDate.toISOString(),
+      message: 'Premium user registered successfully'
+    });
+
+  } catch (error) {
+    console.error('❌ Premium user registration error:', error);
+    return NextResponse.json({
+      error: 'Failed to register premium user',
+      code: 'REGISTRATION_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}));
+
+/**
+ * Register any user by hand (admin only), taking the status and Stripe IDs as given
+ */
+const registerManually = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
   try {
     const body: PremiumUserRegistration = await request.json();
     const {
@@ -40,7 +128,8 @@ export async function POST(request: NextRequest) {
       subscriptionPriceId,
       deviceFingerprint,
       userAgent,
-      source = 'manual'
+      source = 'manual',
+      reason
     } = body;
 
     // Validate required fields
@@ -51,7 +140,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    console.log('🔄 Registering premium user:', { userId, email, subscriptionStatus, source });
+    console.log('🔄 Registering premium user manually:', { userId, email, subscriptionStatus, source, adminId: request.adminId });
 
     // Get existing premium user record if it exists
     const premiumUserRef = adminDb.collection('premium_users').doc(userId);
@@ -59,7 +148,7 @@ export async function POST(request: NextRequest) {
     const existingData = existingDoc.exists ? existingDoc.data() : null;
 
     // Prepare device fingerprints object
-    let deviceFingerprints = existingData?.deviceFingerprints || {};
+    const deviceFingerprints = { ...(existingData?.deviceFingerprints || {}) };
     if (deviceFingerprint && userAgent) {
       deviceFingerprints[deviceFingerprint] = {
         fingerprint: deviceFingerprint,
@@ -100,22 +189,54 @@ export async function POST(request: NextRequest) {
     console.log('✅ Premium user registered successfully:', userId);
 
     // Also set Firebase custom claims for backward compatibility
+    let claimsChange: { before: unknown; after: unknown } | null = null;
     try {
       const auth = getAuth();
+      const claimsBefore = (await auth.getUser(userId)).customClaims || {};
       const customClaims = {
+        ...claimsBefore,
         subscriptionStatus: subscriptionStatus,
         stripeCustomerId: stripeCustomerId || null,
         stripeSubscriptionId: stripeSubscriptionId || null,
-        premium: subscriptionStatus === 'premium',
-        stripeRole: subscriptionStatus === 'premium' ? 'premium' : null
+        premium: hasPremiumAccess(subscriptionStatus),
+        stripeRole: hasPremiumAccess(subscriptionStatus) ? 'premium' : null
       };
 
       await auth.setCustomUserClaims(userId, customClaims);
+      claimsChange = { before: claimsBefore, after: customClaims };
       console.log('✅ Firebase custom claims updated:', userId);
     } catch (error) {
       console.warn('⚠️ Failed to set custom claims (non-critical):', error);
     }
 
+    await appendAdminAuditEntry({
+      ...getAdminAuditContext(request),
+      action: 'premium.register_manual',
+      targetUserId: userId,
+      targetEmail: email,
+      targetResource: `premium_users/${userId}`,
+      before: existingData,
+      after: premiumUserData,
+      reason: reason || null,
+      metadata: { customClaims: claimsChange }
+    });
+
+    await recordPremiumRegistration({
+      userId,
+      subscriptionStatus: premiumUserData.subscriptionStatus,
+      provenance: {
+        method: 'admin_manual',
+        actor: request.adminId,
+        checkoutSessionId: null,
+        stripeSubscriptionId: premiumUserData.stripeSubscriptionId,
+        stripeStatus: null,
+        reason: reason || null,
+        ipAddress: getClientIp(request),
+        recordedAt: new Date()
+      }
+    });
+    await invalidatePremiumStatusCache(userId);
+
     // Return success response
     return NextResponse.json({
       success: true,
@@ -134,9 +255,21 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
+}, 'premium');
+
+export async function POST(request: NextRequest) {
+  // Checkouts are always verified with Stripe; admins registering someone by hand
+  // (no checkout or subscription ID) take the manual path
+  const body = await request.clone().json().catch(() => null);
+  const isCheckout = !!(body?.checkoutSessionId || body?.subscriptionId);
+
+  if (!isCheckout && (await authenticateAdmin(request)).success) {
+    return registerManually(request);
+  }
+  return registerFromCheckout(request);
 }
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAdminAuth(async (request: AdminAuthenticatedRequest) => {
   try {
     const body: Partial<PremiumUserRegistration> & { userId: string } = await request.json();
     const { userId } = body;
@@ -148,7 +281,7 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
-    console.log('🔄 Updating premium user:', userId);
+    console.log('🔄 Updating premium user:', { userId, adminId: request.adminId });
 
     const premiumUserRef = adminDb.collection('premium_users').doc(userId);
     const existingDoc = await premiumUserRef.get();
@@ -188,22 +321,54 @@ export async function PUT(request: NextRequest) {
     console.log('✅ Premium user updated successfully:', userId);
 
     // Update custom claims if subscription status changed
+    let claimsChange: { before: unknown; after: unknown } | null = null;
     if (body.subscriptionStatus !== undefined) {
       try {
         const auth = getAuth();
+        const claimsBefore = (await auth.getUser(userId)).customClaims || {};
         const customClaims = {
+          ...claimsBefore,
           subscriptionStatus: body.subscriptionStatus,
-          premium: body.subscriptionStatus === 'premium',
-          stripeRole: body.subscriptionStatus === 'premium' ? 'premium' : null
+          premium: hasPremiumAccess(body.subscriptionStatus),
+          stripeRole: hasPremiumAccess(body.subscriptionStatus) ? 'premium' : null
         };
 
         await auth.setCustomUserClaims(userId, customClaims);
+        claimsChange = { before: claimsBefore, after: customClaims };
         console.log('✅ Firebase custom claims updated for status change:', userId);
       } catch (error) {
         console.warn('⚠️ Failed to update custom claims (non-critical):', error);
       }
     }
 
+    await appendAdminAuditEntry({
+      ...getAdminAuditContext(request),
+      action: 'premium.update',
+      targetUserId: userId,
+      targetEmail: existingDoc.data()?.email || null,
+      targetResource: `premium_users/${userId}`,
+      before: existingDoc.data(),
+      after: (await premiumUserRef.get()).data(),
+      reason: body.reason || null,
+      metadata: { customClaims: claimsChange }
+    });
+
+    await recordPremiumRegistration({
+      userId,
+      subscriptionStatus: body.subscriptionStatus ?? existingDoc.data()?.subscriptionStatus ?? null,
+      provenance: {
+        method: 'admin_update',
+        actor: request.adminId,
+        checkoutSessionId: null,
+        stripeSubscriptionId: body.stripeSubscriptionId ?? existingDoc.data()?.stripeSubscriptionId ?? null,
+        stripeStatus: null,
+        reason: body.reason || null,
+        ipAddress: getClientIp(request),
+        recordedAt: new Date()
+      }
+    });
+    await invalidatePremiumStatusCache(userId);
+
     return NextResponse.json({
       success: true,
       userId,
@@ -218,4 +383,4 @@ export async function PUT(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'premium');
@@ -3,36 +3,30 @@
  * 
  * Single source of truth for premium user status checking
  * Uses consolidated premium status service
+ * Reports the status of the user named by the Firebase ID token.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { withFirebaseUser, type FirebaseUserRequest } from '@/lib/middleware/firebase-auth';
 import { getPremiumStatus, formatPremiumStatusResponse } from '@/lib/services/premium-status';
+import { getDailyLimitMs, getQuotaPolicy } from '@/lib/services/quota-policy';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+export const GET = withFirebaseUser(async (request: FirebaseUserRequest) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    const email = searchParams.get('email');
+    const userId = request.uid;
+    const email = request.email;
     const deviceFingerprint = request.headers.get('X-Device-Fingerprint');
 
-    // Require at least userId or email
-    if (!userId && !email) {
-      return NextResponse.json({
-        error: 'Either userId or email is required',
-        code: 'MISSING_IDENTIFIER'
-      }, { status: 400 });
-    }
-
     console.log('🔍 Premium status check (GET) for:', { userId, email, deviceFingerprint });
 
     // Use consolidated premium status service
     const premiumStatus = await getPremiumStatus({ userId, email, deviceFingerprint });
 
     // Format response using consolidated formatter
-    const response = formatPremiumStatusResponse(premiumStatus);
+    const response = formatPremiumStatusResponse(premiumStatus, getDailyLimitMs(await getQuotaPolicy('limited')));
 
     console.log('✅ Premium status response (GET):', response);
     return NextResponse.json(response);
@@ -45,28 +39,23 @@ export async function GET(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withFirebaseUser(async (request: FirebaseUserRequest) => {
   try {
     const body = await request.json();
-    const { userId, email, deviceFingerprint } = body;
+    const { deviceFingerprint } = body;
+    const userId = request.uid;
+    const email = request.email;
 
     // Same logic as GET but with POST body
-    if (!userId && !email) {
-      return NextResponse.json({
-        error: 'Either userId or email is required',
-        code: 'MISSING_IDENTIFIER'
-      }, { status: 400 });
-    }
-
     console.log('🔍 Premium status check (POST) for:', { userId, email, deviceFingerprint });
 
     // Use consolidated premium status service
     const premiumStatus = await getPremiumStatus({ userId, email, deviceFingerprint });
 
     // Format response using consolidated formatter
-    const response = formatPremiumStatusResponse(premiumStatus);
+    const response = formatPremiumStatusResponse(premiumStatus, getDailyLimitMs(await getQuotaPolicy('limited')));
 
     console.log('✅ Premium status response (POST):', response);
     return NextResponse.json(response);
@@ -79,5 +68,4 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
-
+});
@@ -0,0 +1,48 @@
+/**
+ * Session Revoke API - V3
+ *
+ * Signs one of the user's extension sessions out. The session is marked revoked, its
+ * JWT stops working and the extension stops on its next heartbeat.
+ * Requires the user's Firebase ID token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { revokeUserSession } from '@/lib/services/active-sessions';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  try {
+    const { sessionId } = await params;
+    const revoked = await revokeUserSession({ userId: auth.uid!, sessionId });
+
+    if (!revoked) {
+      return NextResponse.json({
+        error: 'Session not found',
+        code: 'SESSION_NOT_FOUND',
+        message: 'No active session with that ID on your account'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, sessionId, status: 'revoked' });
+
+  } catch (error) {
+    console.error('❌ Session revoke error:', error);
+    return NextResponse.json({
+      error: 'Failed to revoke session',
+      code: 'SESSION_REVOKE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
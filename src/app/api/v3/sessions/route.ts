@@ -0,0 +1,57 @@
+/**
+ * Active Devices API - V3
+ *
+ * Lists the signed-in user's active extension sessions for the account/devices page.
+ * Requires the user's Firebase ID token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyFirebaseUser } from '@/lib/middleware/firebase-auth';
+import { getPremiumStatus } from '@/lib/services/premium-status';
+import { getQuotaPolicyForStatus } from '@/lib/services/quota-policy';
+import { getSessionLimitMode, listActiveSessions } from '@/lib/services/active-sessions';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await verifyFirebaseUser(request);
+  if (!auth.success) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      code: auth.code,
+      message: auth.error
+    }, { status: 401 });
+  }
+
+  try {
+    const [sessions, premiumStatus] = await Promise.all([
+      listActiveSessions(auth.uid!),
+      getPremiumStatus({ userId: auth.uid!, email: auth.email })
+    ]);
+    const quotaPolicy = await getQuotaPolicyForStatus(premiumStatus);
+
+    return NextResponse.json({
+      success: true,
+      // Most recently seen first
+      sessions: sessions.reverse().map(session => ({
+        sessionId: session.sessionId,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        startTime: session.startTime,
+        lastHeartbeat: session.lastHeartbeat,
+        idle: session.stale
+      })),
+      maxSessions: quotaPolicy.concurrentSessions,
+      limitMode: getSessionLimitMode()
+    });
+
+  } catch (error) {
+    console.error('❌ Active sessions error:', error);
+    return NextResponse.json({
+      error: 'Failed to load active sessions',
+      code: 'ACTIVE_SESSIONS_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Email Signup API - V3
+ *
+ * Creates email/password accounts server-side so signups go through the proof-of-work
+ * gate; the client signs in with the new credentials afterwards. For the gate to hold,
+ * direct client sign-up must be disabled in Firebase Authentication (User actions).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth } from '@/lib/firebase-admin';
+import { withProofOfWork } from '@/lib/middleware/proof-of-work';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const SIGNUP_ERRORS: Record<string, { status: number; code: string; message: string }> = {
+  'auth/email-already-exists': { status: 409, code: 'EMAIL_IN_USE', message: 'An account with this email already exists' },
+  'auth/invalid-email': { status: 400, code: 'INVALID_EMAIL', message: 'Email address is not valid' },
+  'auth/invalid-password': { status: 400, code: 'INVALID_PASSWORD', message: 'Password must be at least 6 characters' }
+};
+
+export const POST = withProofOfWork('signup', async (request: NextRequest) => {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return NextResponse.json({
+        error: 'Email and password are required',
+        code: 'MISSING_CREDENTIALS'
+      }, { status: 400 });
+    }
+
+    const user = await getAdminAuth().createUser({ email, password });
+    console.log(`✅ Account created via signup API: ${user.uid}`);
+
+    return NextResponse.json({ success: true, uid: user.uid }, { status: 201 });
+
+  } catch (error) {
+    const known = SIGNUP_ERRORS[(error as { code?: string } | null)?.code || ''];
+    if (known) {
+      return NextResponse.json({
+        error: 'Signup failed',
+        code: known.code,
+        message: known.message
+      }, { status: known.status });
+    }
+
+    console.error('❌ Signup error:', error);
+    return NextResponse.json({
+      error: 'Signup failed',
+      code: 'SIGNUP_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
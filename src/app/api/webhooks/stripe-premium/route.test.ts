@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { installWebhookHarness, type WebhookHarness } from '@/lib/testing/webhook-harness';
+import {
+  buildCheckoutSession,
+  buildStripeCustomer,
+  buildStripeEvent,
+  buildStripeSubscription
+} from '@/lib/testing/stripe-fixtures';
+import { RATE_LIMIT_POLICIES, createMemoryRateLimitBackend, setRateLimitBackendOverride } from '@/lib/rate-limiter';
+
+describe('POST /api/webhooks/stripe-premium', () => {
+  let harness: WebhookHarness;
+
+  beforeEach(() => {
+    harness = installWebhookHarness();
+    setRateLimitBackendOverride(createMemoryRateLimitBackend());
+    harness.auth.addUser({ uid: 'user_1', email: 'buyer@example.com' });
+  });
+
+  afterEach(() => {
+    harness.uninstall();
+    setRateLimitBackendOverride(null);
+  });
+
+  function seedSubscription(options: { cancelAtPeriodEnd?: boolean } = {}) {
+    const customer = buildStripeCustomer({ email: 'buyer@example.com' });
+    const subscription = buildStripeSubscription({ customer: customer.id, ...options });
+    harness.stripe.addCustomer(customer);
+    harness.stripe.addSubscription(subscription);
+    return subscription;
+  }
+
+  it('applies a new event', async () => {
+    const subscription = seedSubscription();
+
+    const delivery = await harness.deliver(buildStripeEvent('customer.subscription.created', subscription));
+
+    expect(delivery.status).toBe(200);
+    expect(delivery.body.outcome).toBe('processed');
+    expect(harness.db.read('premium_users/user_1')).toMatchObject({
+      subscriptionStatus: 'premium',
+      stripeSubscriptionId: subscription.id
+    });
+    expect(harness.auth.getClaims('user_1')).toMatchObject({ premium: true, subscriptionStatus: 'premium' });
+  });
+
+  it('acknowledges a duplicate delivery without reapplying it', async () => {
+    const subscription = seedSubscription();
+    const event = buildStripeEvent('customer.subscription.created', subscription);
+    await harness.deliver(event);
+    const version = harness.db.read('premium_users/user_1')?.metadata;
+
+    const delivery = await harness.deliver(event);
+
+    expect(delivery.status).toBe(200);
+    expect(delivery.body.outcome).toBe('duplicate');
+    expect(harness.db.read('premium_users/user_1')?.metadata).toEqual(version);
+  });
+
+  it('skips an event older than the last one applied', async () => {
+    const subscription = seedSubscription();
+    const canceling = buildStripeSubscription({
+      id: subscription.id,
+      customer: subscription.customer as string,
+      cancelAtPeriodEnd: true
+    });
+    const created = Math.floor(Date.now() / 1000);
+
+    await harness.deliver(buildStripeEvent('customer.subscription.updated', canceling, { created }));
+    const delivery = await harness.deliver(buildStripeEvent('customer.subscription.updated', subscription, { created: created - 60 }));
+
+    expect(delivery.status).toBe(200);
+    expect(delivery.body.outcome).toBe('stale');
+    expect(harness.db.read('premium_users/user_1')?.subscriptionStatus).toBe('canceled_at_period_end');
+  });
+
+  it('keeps admin claims when billing claims change', async () => {
+    harness.auth.addUser({
+      uid: 'user_1',
+      email: 'buyer@example.com',
+      customClaims: { admin: true, adminPermissions: ['audit'] }
+    });
+    const subscription = seedSubscription();
+    const checkout = buildCheckoutSession({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      userId: 'user_1',
+      email: 'buyer@example.com'
+    });
+    const created = Math.floor(Date.now() / 1000);
+
+    await harness.deliver(buildStripeEvent('checkout.session.completed', checkout, { created }));
+    expect(harness.auth.getClaims('user_1')).toMatchObject({ admin: true, adminPermissions: ['audit'], premium: true });
+
+    await harness.deliver(buildStripeEvent('customer.subscription.created', subscription, { created: created + 1 }));
+    expect(harness.auth.getClaims('user_1')).toMatchObject({ admin: true, adminPermissions: ['audit'], premium: true });
+
+    const canceled = buildStripeSubscription({
+      id: subscription.id,
+      customer: subscription.customer as string,
+      status: 'canceled',
+      canceledAt: created + 2
+    });
+    await harness.deliver(buildStripeEvent('customer.subscription.deleted', canceled, { created: created + 2 }));
+    expect(harness.auth.getClaims('user_1')).toMatchObject({ admin: true, adminPermissions: ['audit'], premium: false });
+  });
+
+  it('rejects a bad signature', async () => {
+    const subscription = seedSubscription();
+
+    const delivery = await harness.deliver(
+      buildStripeEvent('customer.subscription.created', subscription),
+      { signature: 't=1,v1=forged' }
+    );
+
+    expect(delivery.status).toBe(400);
+    expect(harness.db.read('premium_users/user_1')).toBeUndefined();
+  });
+
+  it('never throttles signed deliveries', async () => {
+    const subscription = seedSubscription();
+    const { limit } = RATE_LIMIT_POLICIES.stripeWebhook;
+
+    for (let i = 0; i <= limit; i++) {
+      const delivery = await harness.deliver(buildStripeEvent('customer.subscription.updated', subscription));
+      expect(delivery.status).toBe(200);
+    }
+  });
+
+  it('throttles repeated bad signatures', async () => {
+    const subscription = seedSubscription();
+    const event = buildStripeEvent('customer.subscription.created', subscription);
+    const { limit } = RATE_LIMIT_POLICIES.stripeWebhook;
+
+    for (let i = 0; i < limit; i++) {
+      expect((await harness.deliver(event, { signature: 't=1,v1=forged' })).status).toBe(400);
+    }
+
+    const delivery = await harness.deliver(event, { signature: 't=1,v1=forged' });
+    expect(delivery.status).toBe(429);
+    expect(delivery.body.code).toBe('RATE_LIMIT_EXCEEDED');
+  });
+});
@@ -49,7 +49,9 @@ export default function FeaturesPage() {
 
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/features/check-access?userId=${user.uid}`);
+      const response = await fetch('/api/features/check-access', {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
       
       if (response.ok) {
         const data = await response.json();
@@ -68,7 +70,9 @@ export default function FeaturesPage() {
     if (!user) return;
 
     try {
-      const response = await fetch(`/api/features/roles?userId=${user.uid}`);
+      const response = await fetch('/api/features/roles', {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
       
       if (response.ok) {
         const data = await response.json();
@@ -85,7 +89,9 @@ export default function FeaturesPage() {
     if (!user) return;
 
     try {
-      const response = await fetch(`/api/features/tasks?userId=${user.uid}`);
+      const response = await fetch('/api/features/tasks', {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
       
       if (response.ok) {
         const data = await response.json();
@@ -106,9 +112,9 @@ export default function FeaturesPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
         },
         body: JSON.stringify({
-          userId: user.uid,
           feature: featureKey,
           requestedAction: 'test_access'
         }),
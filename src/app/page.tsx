@@ -8,6 +8,8 @@ import Image from 'next/image';
 import { useState, useEffect } from 'react';
 import { getApp } from '@firebase/app';
 import { getStripePayments, createCheckoutSession } from '@invertase/firestore-stripe-payments';
+import { getCheckoutPriceId } from '@/lib/stripe';
+import { fetchWithProofOfWork } from '@/lib/proof-of-work';
 
 // Initialize Stripe Payments SDK
 const app = getApp();
@@ -110,8 +112,9 @@ export default function LandingPage() {
         return;
       }
 
-      // Get device fingerprint from the extension
+      // Get device fingerprint (and device public key, if the extension has one) from the extension
       let deviceFingerprint = localStorage.getItem('extensionDeviceFingerprint');
+      let devicePublicKey: JsonWebKey | null = JSON.parse(localStorage.getItem('extensionDevicePublicKey') || 'null');
       
       if (!deviceFingerprint) {
         // Request device fingerprint from extension
@@ -129,6 +132,10 @@ export default function LandingPage() {
                   localStorage.setItem('extensionDeviceFingerprint', deviceFingerprint);
                   console.log('Got device fingerprint from extension:', deviceFingerprint.substring(0, 8) + '...');
                 }
+                if (response && response.devicePublicKey) {
+                  devicePublicKey = response.devicePublicKey;
+                  localStorage.setItem('extensionDevicePublicKey', JSON.stringify(devicePublicKey));
+                }
                 resolve(null);
               });
             });
@@ -145,16 +152,18 @@ export default function LandingPage() {
         }
       }
 
-      // Call activation API
-      const response = await fetch('/api/extension/activate-daily-use', {
+      // Call activation API (the account comes from the ID token)
+      const idToken = await user.getIdToken();
+      const response = await fetchWithProofOfWork('/api/extension/activate-daily-use', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
         },
         body: JSON.stringify({
-          userId: user.uid,
-          userEmail: user.email,
-          deviceFingerprint: deviceFingerprint
+          deviceFingerprint: deviceFingerprint,
+          devicePublicKey,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
         }),
       });
 
@@ -246,15 +255,12 @@ export default function LandingPage() {
       
       console.log('Creating checkout session for user:', user.uid);
       
-      const priceId = process.env.NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID;
-      if (!priceId) {
-        throw new Error('Price ID not configured. Check NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID environment variable.');
-      }
+      const priceId = getCheckoutPriceId('monthly');
       
       // Create checkout session using Firebase Extension
       const session = await createCheckoutSession(payments, {
         price: priceId,
-        success_url: `${window.location.origin}/subscription-success`,
+        success_url: `${window.location.origin}/subscription-success?session_id={CHECKOUT_SESSION_ID}`,
         cancel_url: `${window.location.origin}/pricing`,
         allow_promotion_codes: true,
       });
@@ -10,32 +10,39 @@ export default function SubscriptionSuccess() {
   const [customClaims, setCustomClaims] = useState<any>(null);
 
   useEffect(() => {
+    // Stripe fills in session_id on the success URL; the server checks it with Stripe
+    const checkoutSessionId = new URLSearchParams(window.location.search).get('session_id');
+    let registered = false;
+
     // Create premium user record and check claims
     const processPremiumActivation = async () => {
       if (user) {
         try {
           console.log('🚀 Processing premium activation for user:', user.uid);
 
-          // Step 1: Create premium_users record immediately
-          try {
-            const premiumResponse = await fetch('/api/v3/premium/register', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                userId: user.uid,
-                email: user.email,
-                subscriptionStatus: 'premium',
-                source: 'subscription-success'
-              })
-            });
+          // Step 1: Create premium_users record from the verified checkout (once)
+          // Without a session ID the webhook still records the subscription
+          if (checkoutSessionId && !registered) {
+            try {
+              const idToken = await user.getIdToken();
+              const premiumResponse = await fetch('/api/v3/premium/register', {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                  Authorization: `Bearer ${idToken}`
+                },
+                body: JSON.stringify({ checkoutSessionId })
+              });
 
-            if (premiumResponse.ok) {
-              console.log('✅ Premium user record created successfully');
-            } else {
-              console.warn('⚠️ Failed to create premium user record:', await premiumResponse.text());
+              if (premiumResponse.ok) {
+                registered = true;
+                console.log('✅ Premium user record created successfully');
+              } else {
+                console.warn('⚠️ Failed to create premium user record:', await premiumResponse.text());
+              }
+            } catch (error) {
+              console.warn('⚠️ Error creating premium user record:', error);
             }
-          } catch (error) {
-            console.warn('⚠️ Error creating premium user record:', error);
           }
 
           // Step 2: Force token refresh to get latest claims
@@ -127,7 +134,14 @@ export default function SubscriptionSuccess() {
           >
             Start Using Premium Features
           </Link>
-          
+
+          <Link
+            href="/account/billing"
+            className="block w-full py-2 px-4 text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            Manage Billing
+          </Link>
+
           <Link
             href="/pricing"
             className="block w-full py-2 px-4 text-gray-600 hover:text-gray-800 transition-colors"
@@ -6,6 +6,7 @@ import { useEffect, useState } from 'react';
 import { Suspense } from 'react';
 import { getApp } from '@firebase/app';
 import { getStripePayments, createCheckoutSession } from '@invertase/firestore-stripe-payments';
+import { getCheckoutPriceId, isPlanTier } from '@/lib/stripe';
 
 // Initialize Stripe Payments SDK
 const app = getApp();
@@ -39,15 +40,14 @@ function UpgradeNowContent() {
         
         console.log('Creating Stripe checkout for user:', user.uid);
         
-        const priceId = process.env.NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID;
-        if (!priceId) {
-          throw new Error('Price ID not configured. Check NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID environment variable.');
-        }
+        // ?plan=annual|team picks the tier; anything else gets the monthly plan
+        const requestedPlan = searchParams.get('plan');
+        const priceId = getCheckoutPriceId(isPlanTier(requestedPlan) ? requestedPlan : 'monthly');
         
         // Create checkout session using Firebase Extension
         const session = await createCheckoutSession(payments, {
           price: priceId,
-          success_url: `${window.location.origin}/subscription-success`,
+          success_url: `${window.location.origin}/subscription-success?session_id={CHECKOUT_SESSION_ID}`,
           cancel_url: `${window.location.origin}/pricing`,
           allow_promotion_codes: true,
         });
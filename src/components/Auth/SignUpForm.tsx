@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
-import { signUpWithEmail, signInWithGoogle } from '@/lib/firebase';
+import { signInWithEmail, signInWithGoogle } from '@/lib/firebase';
+import { fetchWithProofOfWork } from '@/lib/proof-of-work';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter, useSearchParams } from 'next/navigation';
 
@@ -41,7 +42,19 @@ const SignUpForm: React.FC = () => {
     }
 
     try {
-      await signUpWithEmail(email, password);
+      // Accounts are created server-side, behind the proof-of-work gate
+      const response = await fetchWithProofOfWork('/api/v3/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.message || 'Failed to create account');
+      }
+
+      await signInWithEmail(email, password);
       router.push(redirectTo);
     } catch (error) {
       setError(error instanceof Error ? error.message : 'An error occurred');
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { getApp } from '@firebase/app';
 import { getStripePayments, createCheckoutSession } from '@invertase/firestore-stripe-payments';
+import { getCheckoutPriceId, type PlanTier } from '@/lib/stripe';
 
 // Initialize Stripe Payments SDK
 const app = getApp();
@@ -12,7 +13,7 @@ const payments = getStripePayments(app, {
   customersCollection: 'customers',
 });
 
-export default function SubscriptionFlow() {
+export default function SubscriptionFlow({ planTier = 'monthly' }: { planTier?: PlanTier }) {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -27,24 +28,21 @@ export default function SubscriptionFlow() {
     setError('');
 
     try {
-      const priceId = process.env.NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID;
+      const priceId = getCheckoutPriceId(planTier);
       console.log('🚀 Creating checkout session...');
       console.log('📝 Debug info:', {
         priceId,
+        planTier,
         userId: user.uid,
         userEmail: user.email,
         hasApp: !!app,
         hasPayments: !!payments
       });
       
-      if (!priceId) {
-        throw new Error('Price ID not configured. Check NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID environment variable.');
-      }
-      
       // Create checkout session using Firebase Extension
       const session = await createCheckoutSession(payments, {
         price: priceId,
-        success_url: `${window.location.origin}/subscription-success`,
+        success_url: `${window.location.origin}/subscription-success?session_id={CHECKOUT_SESSION_ID}`,
         cancel_url: `${window.location.origin}/pricing`,
         allow_promotion_codes: true,
       });
@@ -61,6 +61,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               uid: user.uid,
               subscriptionStatus: 'free',
               subscriptionStartDate: new Date(),
+              timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
               createdAt: new Date(),
             });
             setSubscription(defaultSubscription);
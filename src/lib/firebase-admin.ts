@@ -1,9 +1,14 @@
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
+import { getAuth, type Auth } from 'firebase-admin/auth';
 
 let cachedApp: any = null;
 let cachedDb: any = null;
 
+// Stand-ins installed by the test harness (src/lib/testing); null in normal operation
+let dbOverride: unknown = null;
+let authOverride: Auth | null = null;
+
 function initializeFirebaseAdmin() {
   if (cachedApp) return cachedApp;
   
@@ -33,6 +38,7 @@ function initializeFirebaseAdmin() {
 }
 
 function getAdminDatabase() {
+  if (dbOverride) return dbOverride;
   if (cachedDb) return cachedDb;
   
   const app = initializeFirebaseAdmin();
@@ -74,4 +80,27 @@ export const adminApp = new Proxy({} as any, {
       return undefined;
     }
   }
-});
\ No newline at end of file
+});
+
+/**
+ * Firebase Admin Auth, or the installed stand-in
+ */
+export function getAdminAuth(): Auth {
+  if (authOverride) return authOverride;
+  return getAuth(initializeFirebaseAdmin());
+}
+
+/**
+ * Route adminDb to another Firestore implementation (e.g. the in-memory one in
+ * src/lib/testing). Pass null to go back to the real database.
+ */
+export function setAdminDbOverride(db: unknown): void {
+  dbOverride = db;
+}
+
+/**
+ * Route getAdminAuth() to another Auth implementation. Pass null to restore.
+ */
+export function setAdminAuthOverride(auth: Auth | null): void {
+  authOverride = auth;
+}
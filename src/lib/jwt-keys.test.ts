@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getPublicJwks, signSessionToken, verifySessionToken } from './jwt-keys';
+
+function p256Key(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return {
+    kid,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  };
+}
+
+describe('session JWT signing keys', () => {
+  const previousEnv = { ...process.env };
+  const oldKey = p256Key('key_2025_01');
+  const newKey = p256Key('key_2025_03');
+
+  beforeEach(() => {
+    delete process.env.JWT_SIGNING_KEYS;
+    delete process.env.JWT_ACTIVE_KID;
+    delete process.env.JWT_ACCEPT_LEGACY_HS256;
+    process.env.JWT_SECRET = 'legacy-secret';
+  });
+
+  afterEach(() => {
+    process.env = { ...previousEnv };
+  });
+
+  it('signs with ES256 and the kid named by JWT_ACTIVE_KID', () => {
+    process.env.JWT_SIGNING_KEYS = JSON.stringify([oldKey, newKey]);
+    process.env.JWT_ACTIVE_KID = 'key_2025_03';
+
+    const token = signSessionToken({ sessionId: 'session_1' }, { expiresIn: 60 });
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: 'ES256', kid: 'key_2025_03' });
+    expect(verifySessionToken(token).sessionId).toBe('session_1');
+    expect(() => jwt.verify(token, oldKey.publicKey, { algorithms: ['ES256'] })).toThrow();
+  });
+
+  it('defaults to the first key with a private key', () => {
+    process.env.JWT_SIGNING_KEYS = JSON.stringify([{ kid: oldKey.kid, publicKey: oldKey.publicKey }, newKey]);
+
+    const token = signSessionToken({ sessionId: 'session_1' }, { expiresIn: 60 });
+
+    expect(jwt.decode(token, { complete: true })?.header.kid).toBe('key_2025_03');
+    expect(getPublicJwks().keys.map(key => key.kid)).toEqual(['key_2025_01', 'key_2025_03']);
+  });
+
+  it('stops verifying a key once it retires', () => {
+    process.env.JWT_SIGNING_KEYS = JSON.stringify([oldKey]);
+    const token = signSessionToken({ sessionId: 'session_1' }, { expiresIn: 60 });
+
+    process.env.JWT_SIGNING_KEYS = JSON.stringify([{ ...oldKey, retiresAt: '2000-01-01T00:00:00.000Z' }, newKey]);
+
+    expect(() => verifySessionToken(token)).toThrow(/unknown signing key/);
+  });
+
+  it('falls back to HS256 with JWT_SECRET when no keys are configured', () => {
+    const token = signSessionToken({ sessionId: 'session_1' }, { expiresIn: 60 });
+
+    expect(jwt.decode(token, { complete: true })?.header.alg).toBe('HS256');
+    expect(verifySessionToken(token).sessionId).toBe('session_1');
+  });
+
+  it('keeps accepting HS256 tokens after the switch until told to stop', () => {
+    const legacyToken = signSessionToken({ sessionId: 'session_1' }, { expiresIn: 60 });
+    process.env.JWT_SIGNING_KEYS = JSON.stringify([newKey]);
+
+    expect(verifySessionToken(legacyToken).sessionId).toBe('session_1');
+
+    process.env.JWT_ACCEPT_LEGACY_HS256 = 'false';
+    expect(() => verifySessionToken(legacyToken)).toThrow(/no longer accepted/);
+  });
+});
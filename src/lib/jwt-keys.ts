@@ -0,0 +1,176 @@
+/**
+ * Session JWT Signing Keys
+ *
+ * Session tokens are signed with ES256 (P-256) keys listed in JWT_SIGNING_KEYS, a JSON
+ * array of { kid, privateKey?, publicKey?, retiresAt? } with PEM-encoded keys. Tokens
+ * carry the signing key's `kid`, and every listed key that hasn't retired is published
+ * at /.well-known/jwks.json so other services can verify tokens without a shared secret.
+ *
+ * Signing uses JWT_ACTIVE_KID, or the first key with a private key.
+ *
+ * Rotation:
+ *   1. Add the new key (with its private key) to JWT_SIGNING_KEYS, keeping the active
+ *      one. Wait for JWKS caches (max-age 5 minutes) so verifiers know the new kid.
+ *   2. Point JWT_ACTIVE_KID at the new key.
+ *   3. Reduce the old entry to its public key with retiresAt at least one access token
+ *      lifetime ahead, then remove it after that time.
+ *
+ * Without JWT_SIGNING_KEYS, tokens are signed with HS256 and JWT_SECRET as before.
+ * HS256 tokens are still accepted after moving to ES256 while JWT_SECRET is set, so
+ * already-issued tokens keep working; set JWT_ACCEPT_LEGACY_HS256=false to stop that.
+ */
+
+import { createPrivateKey, createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+const SIGNING_ALGORITHM = 'ES256';
+const LEGACY_ALGORITHM = 'HS256';
+
+interface SigningKeyConfig {
+  kid: string;
+  privateKey?: string;
+  publicKey?: string;
+  retiresAt?: string;
+}
+
+interface LoadedKey {
+  kid: string;
+  privateKey: KeyObject | null;
+  publicKey: KeyObject;
+  retiresAt: Date | null;
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  use: 'sig';
+  alg: typeof SIGNING_ALGORITHM;
+}
+
+let cachedKeys: { source: string; keys: LoadedKey[] } | null = null;
+
+function loadKey(config: SigningKeyConfig): LoadedKey | null {
+  try {
+    const privateKey = config.privateKey ? createPrivateKey(config.privateKey) : null;
+    const publicKey = config.publicKey ? createPublicKey(config.publicKey) : privateKey ? createPublicKey(privateKey) : null;
+
+    if (!config.kid || !publicKey) {
+      console.error('❌ JWT signing key needs a kid and a private or public key, skipping:', config.kid);
+      return null;
+    }
+    if (publicKey.asymmetricKeyType !== 'ec' || publicKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+      console.error(`❌ JWT signing key ${config.kid} is not a P-256 key, skipping`);
+      return null;
+    }
+
+    return {
+      kid: config.kid,
+      privateKey,
+      publicKey,
+      retiresAt: config.retiresAt ? new Date(config.retiresAt) : null
+    };
+  } catch (error) {
+    console.error(`❌ Failed to load JWT signing key ${config.kid}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Keys from JWT_SIGNING_KEYS, parsed once per distinct value
+ */
+function getConfiguredKeys(): LoadedKey[] {
+  const source = process.env.JWT_SIGNING_KEYS || '';
+  if (cachedKeys && cachedKeys.source === source) {
+    return cachedKeys.keys;
+  }
+
+  let configs: SigningKeyConfig[] = [];
+  if (source) {
+    try {
+      configs = JSON.parse(source);
+    } catch (error) {
+      console.error('❌ JWT_SIGNING_KEYS is not valid JSON:', error);
+    }
+  }
+
+  const keys = (Array.isArray(configs) ? configs : [])
+    .map(loadKey)
+    .filter((key): key is LoadedKey => key !== null);
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+function getVerificationKeys(now: Date = new Date()): LoadedKey[] {
+  return getConfiguredKeys().filter(key => !key.retiresAt || key.retiresAt.getTime() > now.getTime());
+}
+
+function getActiveSigningKey(): LoadedKey | null {
+  const keys = getConfiguredKeys().filter(key => key.privateKey);
+  const activeKid = process.env.JWT_ACTIVE_KID;
+  return (activeKid ? keys.find(key => key.kid === activeKid) : keys[0]) || null;
+}
+
+function acceptsLegacyTokens(): boolean {
+  return !!process.env.JWT_SECRET && process.env.JWT_ACCEPT_LEGACY_HS256 !== 'false';
+}
+
+/**
+ * Whether session tokens can be signed at all
+ */
+export function hasSessionSigningKey(): boolean {
+  return !!getActiveSigningKey() || !!process.env.JWT_SECRET;
+}
+
+/**
+ * Sign a session token with the active ES256 key, or HS256 when none is configured
+ */
+export function signSessionToken(payload: object, options: jwt.SignOptions): string {
+  const signingKey = getActiveSigningKey();
+  if (signingKey) {
+    return jwt.sign(payload, signingKey.privateKey!, { ...options, algorithm: SIGNING_ALGORITHM, keyid: signingKey.kid });
+  }
+
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SIGNING_KEYS or JWT_SECRET environment variable is required');
+  }
+  return jwt.sign(payload, process.env.JWT_SECRET, { ...options, algorithm: LEGACY_ALGORITHM });
+}
+
+/**
+ * Verify a session token against the published keys (or the legacy secret).
+ * Throws the same errors as jwt.verify.
+ */
+export function verifySessionToken(token: string): jwt.JwtPayload {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const { alg, kid } = decoded.header;
+
+  if (alg === LEGACY_ALGORITHM) {
+    if (!acceptsLegacyTokens()) {
+      throw new jwt.JsonWebTokenError('HS256 session tokens are no longer accepted');
+    }
+    return jwt.verify(token, process.env.JWT_SECRET!, { algorithms: [LEGACY_ALGORITHM] }) as jwt.JwtPayload;
+  }
+
+  const key = getVerificationKeys().find(candidate => candidate.kid === kid);
+  if (alg !== SIGNING_ALGORITHM || !key) {
+    throw new jwt.JsonWebTokenError(`unknown signing key: ${kid || 'none'}`);
+  }
+  return jwt.verify(token, key.publicKey, { algorithms: [SIGNING_ALGORITHM] }) as jwt.JwtPayload;
+}
+
+/**
+ * Public halves of the verification keys, for /.well-known/jwks.json
+ */
+export function getPublicJwks(): { keys: PublicJwk[] } {
+  return {
+    keys: getVerificationKeys().map(key => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      use: 'sig' as const,
+      alg: SIGNING_ALGORITHM
+    }))
+  };
+}
@@ -3,67 +3,93 @@
  * 
  * Provides authentication for admin endpoints to prevent unauthorized access
  * to sensitive operations like premium status cleanup and monitoring.
+ *
+ * Admins are Firebase users whose ID token carries `admin: true` and an
+ * `adminPermissions` list (managed through /api/admin/admins). Tokens are checked for
+ * revocation, so narrowing or removing an admin's permissions applies immediately.
+ * The first admin is set up with the Admin SDK:
+ *   setCustomUserClaims(uid, { admin: true, adminPermissions: ['master'] })
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth } from '@/lib/firebase-admin';
+
+export const ADMIN_PERMISSIONS = ['cleanup', 'audit', 'monitoring', 'logs', 'users', 'premium', 'admins', 'master'] as const;
+
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
 
 export interface AdminAuthenticatedRequest extends NextRequest {
   adminId: string;
+  adminEmail?: string;
   permissions: string[];
 }
 
 export interface AdminAuthResult {
   success: boolean;
   adminId?: string;
+  adminEmail?: string;
   permissions?: string[];
   error?: string;
+  code?: 'AUTH_HEADER_MISSING' | 'ID_TOKEN_INVALID' | 'NOT_ADMIN';
+}
+
+export function isAdminPermission(value: unknown): value is AdminPermission {
+  return typeof value === 'string' && (ADMIN_PERMISSIONS as readonly string[]).includes(value);
 }
 
 /**
- * Authenticate admin requests using bearer token
+ * Permissions granted by a token's custom claims; empty unless the admin claim is set
  */
-export function authenticateAdmin(request: NextRequest): AdminAuthResult {
+export function getAdminPermissionsFromClaims(claims: Record<string, unknown>): AdminPermission[] {
+  if (claims.admin !== true || !Array.isArray(claims.adminPermissions)) {
+    return [];
+  }
+  return claims.adminPermissions.filter(isAdminPermission);
+}
+
+/**
+ * Authenticate admin requests using the bearer Firebase ID token
+ */
+export async function authenticateAdmin(request: NextRequest): Promise<AdminAuthResult> {
   const authHeader = request.headers.get('authorization');
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return {
       success: false,
-      error: 'Missing or invalid authorization header'
+      error: 'Missing or invalid authorization header',
+      code: 'AUTH_HEADER_MISSING'
     };
   }
 
   const token = authHeader.substring(7); // Remove "Bearer " prefix
-  
-  // Check against admin secrets from environment
-  const adminSecrets = {
-    ADMIN_CLEANUP_SECRET: {
-      permissions: ['cleanup', 'audit'],
-      id: 'cleanup-admin'
-    },
-    ADMIN_MONITORING_SECRET: {
-      permissions: ['monitoring', 'logs'],
-      id: 'monitoring-admin'
-    },
-    ADMIN_MASTER_SECRET: {
-      permissions: ['cleanup', 'audit', 'monitoring', 'logs', 'users', 'premium'],
-      id: 'master-admin'
-    }
-  };
 
-  for (const [envVar, config] of Object.entries(adminSecrets)) {
-    const secret = process.env[envVar];
-    if (secret && token === secret) {
-      return {
-        success: true,
-        adminId: config.id,
-        permissions: config.permissions
-      };
-    }
+  let claims: Record<string, unknown> & { uid: string; email?: string };
+  try {
+    claims = await getAdminAuth().verifyIdToken(token, true);
+  } catch (error) {
+    console.warn('⚠️ Admin ID token rejected:', error instanceof Error ? error.message : error);
+    return {
+      success: false,
+      error: 'Firebase ID token is invalid, expired or revoked',
+      code: 'ID_TOKEN_INVALID'
+    };
+  }
+
+  const permissions = getAdminPermissionsFromClaims(claims);
+  if (permissions.length === 0) {
+    return {
+      success: false,
+      adminId: claims.uid,
+      error: 'This account is not an admin',
+      code: 'NOT_ADMIN'
+    };
   }
 
   return {
-    success: false,
-    error: 'Invalid admin token'
+    success: true,
+    adminId: claims.uid,
+    adminEmail: claims.email,
+    permissions
   };
 }
 
@@ -83,19 +109,25 @@ export function withAdminAuth(
 ) {
   return async (request: NextRequest): Promise<NextResponse> => {
     // Authenticate the request
-    const authResult = authenticateAdmin(request);
+    const authResult = await authenticateAdmin(request);
     
     if (!authResult.success) {
+      const notAdmin = authResult.code === 'NOT_ADMIN';
+      if (notAdmin) {
+        console.warn('🚫 Non-admin tried an admin endpoint:', { uid: authResult.adminId, endpoint: request.nextUrl.pathname });
+      }
       return NextResponse.json({
-        error: 'Unauthorized',
+        error: notAdmin ? 'Forbidden' : 'Unauthorized',
+        code: authResult.code,
         message: authResult.error
-      }, { status: 401 });
+      }, { status: notAdmin ? 403 : 401 });
     }
 
     // Check specific permission if required
     if (requiredPermission && !hasPermission(authResult.permissions!, requiredPermission)) {
       return NextResponse.json({
         error: 'Forbidden',
+        code: 'ADMIN_PERMISSION_REQUIRED',
         message: `Required permission: ${requiredPermission}`
       }, { status: 403 });
     }
@@ -103,11 +135,13 @@ export function withAdminAuth(
     // Add admin info to request
     const adminRequest = request as AdminAuthenticatedRequest;
     adminRequest.adminId = authResult.adminId!;
+    adminRequest.adminEmail = authResult.adminEmail;
     adminRequest.permissions = authResult.permissions!;
 
     // Log admin access
     console.log('🔐 Admin access:', {
       adminId: authResult.adminId,
+      adminEmail: authResult.adminEmail,
       endpoint: request.url,
       method: request.method,
       permissions: authResult.permissions,
@@ -125,7 +159,7 @@ export function createUnauthorizedResponse(message?: string): NextResponse {
   return NextResponse.json({
     error: 'Unauthorized',
     message: message || 'Admin authentication required',
-    hint: 'Include Authorization: Bearer <admin-token> header'
+    hint: 'Include Authorization: Bearer <Firebase ID token of an admin> header'
   }, { status: 401 });
 }
 
@@ -146,12 +180,14 @@ export async function validateAdminAccess(
   request: NextRequest,
   requiredPermission?: string
 ): Promise<{ valid: boolean; response?: NextResponse; adminId?: string }> {
-  const authResult = authenticateAdmin(request);
+  const authResult = await authenticateAdmin(request);
   
   if (!authResult.success) {
     return {
       valid: false,
-      response: createUnauthorizedResponse(authResult.error)
+      response: authResult.code === 'NOT_ADMIN'
+        ? NextResponse.json({ error: 'Forbidden', code: authResult.code, message: authResult.error }, { status: 403 })
+        : createUnauthorizedResponse(authResult.error)
     };
   }
 
@@ -8,7 +8,9 @@
 
 import type { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
-import { rateLimiter } from '../rate-limiter';
+import { checkRateLimit, getRateLimitHeaders } from '../rate-limiter';
+import { hasSessionSigningKey, signSessionToken, verifySessionToken } from '../jwt-keys';
+import { isSessionRevoked } from '../services/active-sessions';
 
 // Define the structure of our JWT payload
 interface SessionTokenPayload {
@@ -16,7 +18,7 @@ interface SessionTokenPayload {
   userId?: string;          // Present for authenticated users
   deviceFingerprint?: string;
   ipAddress: string;
-  subscriptionStatus: 'anonymous' | 'limited' | 'premium';
+  subscriptionStatus: string;      // Billing status at issue time (premium, limited, grace, ...)
   issuedAt: number;
   expiresAt: number;
 }
@@ -82,9 +84,9 @@ export function withAuth<T extends (...args: any[]) => any>(handler: T): T {
 
       const token = tokenParts[1];
 
-      // 3. Verify JWT signature and expiration
-      if (!process.env.JWT_SECRET) {
-        console.error('CRITICAL: JWT_SECRET environment variable not set');
+      // 3. Verify JWT signature (ES256 by kid, or legacy HS256) and expiration
+      if (!hasSessionSigningKey()) {
+        console.error('CRITICAL: neither JWT_SIGNING_KEYS nor JWT_SECRET is configured');
         return new Response(
           JSON.stringify({ 
             error: 'Server configuration error',
@@ -99,14 +101,14 @@ export function withAuth<T extends (...args: any[]) => any>(handler: T): T {
 
       let decoded: SessionTokenPayload;
       try {
-        decoded = jwt.verify(token, process.env.JWT_SECRET) as SessionTokenPayload;
+        decoded = verifySessionToken(token) as SessionTokenPayload;
       } catch (jwtError) {
         if (jwtError instanceof jwt.TokenExpiredError) {
           return new Response(
             JSON.stringify({ 
               error: 'Token expired',
               code: 'TOKEN_EXPIRED',
-              message: 'Session token has expired. Please restart your session.'
+              message: 'Session token has expired. Exchange your refresh token at /api/v2/session/refresh.'
             }),
             { 
               status: 401,
@@ -147,8 +149,25 @@ export function withAuth<T extends (...args: any[]) => any>(handler: T): T {
         );
       }
 
-      // 5. Apply rate limiting based on the verified sessionId
-      const { success, limit, remaining, reset } = await rateLimiter.limit(decoded.sessionId);
+      // 5. Refuse sessions revoked from the device list or evicted by a newer session
+      if (await isSessionRevoked(decoded.sessionId)) {
+        return new Response(
+          JSON.stringify({ 
+            error: 'Session revoked',
+            code: 'SESSION_REVOKED',
+            message: 'This session was signed out from another device. Please start a new session.',
+            shouldStop: true
+          }),
+          { 
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      // 6. Apply the session rate limit policy to the verified sessionId
+      const rateLimit = await checkRateLimit('session', `session:${decoded.sessionId}`);
+      const { success, limit, remaining, reset } = rateLimit;
 
       if (!success) {
         return new Response(
@@ -161,6 +180,7 @@ export function withAuth<T extends (...args: any[]) => any>(handler: T): T {
             status: 429,
             headers: { 
               'Content-Type': 'application/json',
+              ...getRateLimitHeaders(rateLimit),
               'X-RateLimit-Limit': limit.toString(),
               'X-RateLimit-Remaining': remaining.toString(),
               'X-RateLimit-Reset': reset.toString()
@@ -169,7 +189,7 @@ export function withAuth<T extends (...args: any[]) => any>(handler: T): T {
         );
       }
 
-      // 6. Basic IP validation (optional security layer)
+      // 7. Basic IP validation (optional security layer)
       const currentIP = request.ip || 
                        request.headers.get('x-forwarded-for')?.split(',')[0] || 
                        request.headers.get('x-real-ip') || 
@@ -178,19 +198,22 @@ export function withAuth<T extends (...args: any[]) => any>(handler: T): T {
       // Note: We allow some IP flexibility for mobile users and corporate NATs
       // Strict IP validation would be done in a more advanced security layer
 
-      // 7. Attach session data to request for use in handler
+      // 8. Attach session data to request for use in handler
       const authenticatedRequest = request as AuthenticatedRequest;
       authenticatedRequest.sessionId = decoded.sessionId;
       authenticatedRequest.userId = decoded.userId;
       authenticatedRequest.subscriptionStatus = decoded.subscriptionStatus;
       authenticatedRequest.sessionPayload = decoded;
 
-      // 8. Call the original handler with authenticated request
+      // 9. Call the original handler with authenticated request
       const response = await handler(authenticatedRequest, ...args);
 
-      // 9. Add rate limit headers to successful responses
+      // 10. Add rate limit headers to successful responses
       if (response instanceof Response) {
         const newHeaders = new Headers(response.headers);
+        for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+          newHeaders.set(name, value);
+        }
         newHeaders.set('X-RateLimit-Limit', limit.toString());
         newHeaders.set('X-RateLimit-Remaining', remaining.toString());
         newHeaders.set('X-RateLimit-Reset', reset.toString());
@@ -237,10 +260,6 @@ export function generateSessionJWT(
   payload: Omit<SessionTokenPayload, 'issuedAt' | 'expiresAt'>, 
   expiresInMs?: number
 ): string {
-  if (!process.env.JWT_SECRET) {
-    throw new Error('JWT_SECRET environment variable is required');
-  }
-
   const now = Math.floor(Date.now() / 1000);
   // Use provided expiration time or default to 2 minutes for testing
   const expiresIn = expiresInMs ? Math.floor(expiresInMs / 1000) : 120;
@@ -251,7 +270,7 @@ export function generateSessionJWT(
     expiresAt: now + expiresIn
   };
 
-  return jwt.sign(fullPayload, process.env.JWT_SECRET, {
+  return signSessionToken(fullPayload, {
     expiresIn: expiresIn,
     issuer: 'webtutorialai.com',
     audience: 'extension'
@@ -264,11 +283,7 @@ export function generateSessionJWT(
  */
 export function validateSessionToken(token: string): SessionTokenPayload | null {
   try {
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as SessionTokenPayload;
+    const decoded = verifySessionToken(token) as SessionTokenPayload;
     
     if (!decoded.sessionId) {
       return null;
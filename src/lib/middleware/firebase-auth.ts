@@ -0,0 +1,142 @@
+/**
+ * Firebase User Authentication
+ *
+ * Verifies the Firebase ID token sent by the website (Authorization: Bearer <idToken>)
+ * for endpoints that act on the signed-in user's own account.
+ *
+ * withFirebaseUser wraps a route handler so it only ever sees the token's uid and email.
+ * Requests that still name a userId or email in the query string or JSON body are
+ * rejected when those don't match the token, rather than acting on another account.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth } from '@/lib/firebase-admin';
+
+export interface FirebaseUserAuthResult {
+  success: boolean;
+  uid?: string;
+  email?: string;
+  emailVerified?: boolean;
+  claims?: Record<string, unknown>;
+  error?: string;
+  code?: 'AUTH_HEADER_MISSING' | 'AUTH_FORMAT_INVALID' | 'ID_TOKEN_INVALID';
+}
+
+export interface FirebaseUserRequest extends NextRequest {
+  uid: string;
+  email?: string;
+  emailVerified: boolean;
+  claims: Record<string, unknown>;
+}
+
+// Request fields older clients use to say who they are
+const USER_ID_FIELDS = ['userId', 'uid'];
+const EMAIL_FIELDS = ['email', 'userEmail'];
+
+/**
+ * Verify the request's Firebase ID token
+ */
+export async function verifyFirebaseUser(request: NextRequest): Promise<FirebaseUserAuthResult> {
+  const authHeader = request.headers.get('authorization');
+
+  if (!authHeader) {
+    return {
+      success: false,
+      error: 'Authorization header is required for this endpoint',
+      code: 'AUTH_HEADER_MISSING'
+    };
+  }
+
+  const tokenParts = authHeader.split(' ');
+  if (tokenParts.length !== 2 || tokenParts[0] !== 'Bearer') {
+    return {
+      success: false,
+      error: 'Authorization header must be "Bearer <token>"',
+      code: 'AUTH_FORMAT_INVALID'
+    };
+  }
+
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(tokenParts[1]);
+    return {
+      success: true,
+      uid: decoded.uid,
+      email: decoded.email,
+      emailVerified: decoded.email_verified === true,
+      claims: decoded
+    };
+  } catch (error) {
+    console.warn('⚠️ Firebase ID token rejected:', error instanceof Error ? error.message : error);
+    return {
+      success: false,
+      error: 'Firebase ID token is invalid or expired',
+      code: 'ID_TOKEN_INVALID'
+    };
+  }
+}
+
+/**
+ * userId/email values the request claims for itself, from the query string and JSON body
+ */
+async function getClaimedIdentity(request: NextRequest): Promise<{ userIds: string[]; emails: string[] }> {
+  const sources: Record<string, unknown>[] = [Object.fromEntries(request.nextUrl.searchParams)];
+
+  if (request.method !== 'GET' && request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.clone().json().catch(() => null);
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      sources.push(body);
+    }
+  }
+
+  const collect = (fields: string[]) => sources.flatMap(source =>
+    fields.map(field => source[field]).filter((value): value is string => typeof value === 'string' && value !== '')
+  );
+
+  return { userIds: collect(USER_ID_FIELDS), emails: collect(EMAIL_FIELDS) };
+}
+
+/**
+ * Higher-order function that requires a Firebase ID token and hands the handler the
+ * verified uid and email
+ */
+export function withFirebaseUser<TArgs extends unknown[]>(
+  handler: (request: FirebaseUserRequest, ...args: TArgs) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, ...args: TArgs): Promise<NextResponse> => {
+    const auth = await verifyFirebaseUser(request);
+    if (!auth.success) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        code: auth.code,
+        message: auth.error
+      }, { status: 401 });
+    }
+
+    const claimed = await getClaimedIdentity(request);
+    const tokenEmail = auth.email?.toLowerCase();
+    const mismatch = claimed.userIds.some(userId => userId !== auth.uid)
+      || claimed.emails.some(email => email.toLowerCase() !== tokenEmail);
+
+    if (mismatch) {
+      console.warn('🚫 Request identity does not match ID token:', {
+        uid: auth.uid,
+        claimedUserIds: claimed.userIds,
+        claimedEmails: claimed.emails,
+        endpoint: request.nextUrl.pathname
+      });
+      return NextResponse.json({
+        error: 'Forbidden',
+        code: 'IDENTITY_MISMATCH',
+        message: 'The userId or email in this request does not belong to the signed-in user'
+      }, { status: 403 });
+    }
+
+    const userRequest = request as FirebaseUserRequest;
+    userRequest.uid = auth.uid!;
+    userRequest.email = auth.email;
+    userRequest.emailVerified = !!auth.emailVerified;
+    userRequest.claims = auth.claims || {};
+
+    return handler(userRequest, ...args);
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Proof-of-Work Gate
+ *
+ * withProofOfWork counts each request against the caller's IP and device fingerprint
+ * (X-Device-Fingerprint header or `deviceFingerprint` in the JSON body). Past the
+ * abuse threshold, or always with POW_MODE=always, the request must carry a solved
+ * challenge in X-PoW-Challenge / X-PoW-Nonce; otherwise it is answered with 428 and
+ * a fresh challenge to solve (see fetchWithProofOfWork).
+ *
+ * Counting isn't free: every gated request, solved or not, spends one `abuseSignals`
+ * rate-limiter call for the IP and a second one when a fingerprint is sent. Keep the
+ * gate on the endpoints that need it rather than wrapping whole route groups.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/rate-limiter';
+import { POW_CHALLENGE_HEADER, POW_NONCE_HEADER } from '@/lib/proof-of-work';
+import {
+  getPowDifficulty,
+  getPowMode,
+  getPowSignalThreshold,
+  issuePowChallenge,
+  recordAbuseSignal,
+  verifyPowSolution,
+  type PowErrorCode,
+  type PowScope
+} from '@/lib/services/proof-of-work';
+
+async function getDeviceFingerprint(request: NextRequest): Promise<string | null> {
+  const header = request.headers.get('x-device-fingerprint');
+  if (header) return header;
+
+  if (request.method !== 'GET' && request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.clone().json().catch(() => null);
+    if (typeof body?.deviceFingerprint === 'string' && body.deviceFingerprint) {
+      return body.deviceFingerprint;
+    }
+  }
+  return null;
+}
+
+function createPowRequiredResponse(scope: PowScope, subject: string, requestCount: number, code: PowErrorCode, message: string): NextResponse {
+  return NextResponse.json({
+    error: 'Proof of work required',
+    code,
+    message,
+    challenge: issuePowChallenge({ scope, subject, difficulty: getPowDifficulty(requestCount) })
+  }, { status: 428, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * Higher-order function that puts a route handler behind the proof-of-work gate
+ */
+export function withProofOfWork<TRequest extends NextRequest, TArgs extends unknown[]>(
+  scope: PowScope,
+  handler: (request: TRequest, ...args: TArgs) => Promise<NextResponse>
+) {
+  return async (request: TRequest, ...args: TArgs): Promise<NextResponse> => {
+    const mode = getPowMode();
+    if (mode === 'off') {
+      return handler(request, ...args);
+    }
+
+    const ipSubject = `ip:${getClientIp(request)}`;
+    const fingerprint = await getDeviceFingerprint(request);
+    const subject = fingerprint ? `device:${fingerprint}` : ipSubject;
+    const requestCount = await recordAbuseSignal(scope, fingerprint ? [ipSubject, subject] : [ipSubject]);
+
+    if (mode === 'adaptive' && requestCount <= getPowSignalThreshold()) {
+      return handler(request, ...args);
+    }
+
+    const challenge = request.headers.get(POW_CHALLENGE_HEADER);
+    const nonce = request.headers.get(POW_NONCE_HEADER);
+    if (!challenge || !nonce) {
+      console.warn(`🧮 Proof of work required for ${scope}:`, { subject: ipSubject, requestCount });
+      return createPowRequiredResponse(scope, subject, requestCount, 'POW_REQUIRED', 'Solve the proof-of-work challenge and retry');
+    }
+
+    const result = await verifyPowSolution({ scope, subject, challenge, nonce });
+    if (!result.valid) {
+      console.warn(`🚫 Proof of work rejected for ${scope}:`, { subject: ipSubject, code: result.code });
+      return createPowRequiredResponse(scope, subject, requestCount, result.code, result.message);
+    }
+
+    return handler(request, ...args);
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Proof-of-Work (client side)
+ *
+ * Gated endpoints answer 428 with a `challenge` when they want proof of work. The
+ * client finds a nonce such that sha256(challenge + nonce) starts with `difficulty`
+ * zero bits and repeats the request with the challenge and nonce in the
+ * X-PoW-Challenge / X-PoW-Nonce headers.
+ *
+ * Safe to import from the browser; the server half lives in services/proof-of-work.ts.
+ */
+
+export const POW_CHALLENGE_HEADER = 'X-PoW-Challenge';
+export const POW_NONCE_HEADER = 'X-PoW-Nonce';
+
+export interface PowChallenge {
+  challenge: string;
+  difficulty: number;     // Required leading zero bits of the SHA-256 digest
+  algorithm: 'sha256';
+  expiresAt: string;
+}
+
+export function countLeadingZeroBits(digest: Uint8Array): number {
+  let bits = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Search for a nonce that meets the challenge's difficulty (WebCrypto, browser or Node)
+ */
+export async function solvePowChallenge(challenge: PowChallenge): Promise<string> {
+  const encoder = new TextEncoder();
+
+  for (let counter = 0; ; counter++) {
+    const nonce = counter.toString(36);
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(challenge.challenge + nonce));
+    if (countLeadingZeroBits(new Uint8Array(digest)) >= challenge.difficulty) {
+      return nonce;
+    }
+  }
+}
+
+/**
+ * fetch() that solves the proof-of-work challenge when a gated endpoint asks for one
+ * and retries. Anything other than a 428 with a challenge is returned as is.
+ */
+export async function fetchWithProofOfWork(input: string, init: RequestInit = {}, maxAttempts = 3): Promise<Response> {
+  let response = await fetch(input, init);
+
+  for (let attempt = 1; attempt < maxAttempts && response.status === 428; attempt++) {
+    const body = await response.clone().json().catch(() => null);
+    if (!body?.challenge) break;
+
+    const nonce = await solvePowChallenge(body.challenge as PowChallenge);
+    const headers = new Headers(init.headers);
+    headers.set(POW_CHALLENGE_HEADER, body.challenge.challenge);
+    headers.set(POW_NONCE_HEADER, nonce);
+    response = await fetch(input, { ...init, headers });
+  }
+
+  return response;
+}
@@ -1,12 +1,216 @@
-import "server-only";
-import { Ratelimit } from "@upstash/ratelimit";
-import { kv } from "@vercel/kv";
-
-// Initialize a new rate limiter instance.
-// This configuration allows a maximum of 10 requests every 10 seconds per unique identifier.
-export const rateLimiter = new Ratelimit({
-  redis: kv,
-  limiter: Ratelimit.slidingWindow(10, "10 s"),
-  analytics: true,
-  prefix: "ratelimit_heartbeat",
-});
\ No newline at end of file
+/**
+ * Rate Limiting
+ *
+ * Per-route limits from RATE_LIMIT_POLICIES, each counted against one identity: the
+ * client IP, the Firebase uid or the extension sessionId. Counters live in Vercel KV
+ * (Upstash sliding window) when it is configured, otherwise in process memory, which
+ * is per instance but keeps local runs and tests working without KV.
+ *
+ * Responses carry RateLimit-Limit / -Remaining / -Reset / -Policy headers, and
+ * Retry-After when refused. If the backend is unreachable requests are let through.
+ */
+
+import 'server-only';
+import { NextResponse, type NextRequest } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { kv } from '@vercel/kv';
+
+export type RateLimitIdentity = 'ip' | 'userId' | 'sessionId';
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+  identity: RateLimitIdentity;
+}
+
+export type RateLimitPolicyName = 'session' | 'sessionRefresh' | 'stripeWebhook' | 'premiumRegister' | 'features' | 'testRoutes' | 'abuseSignals';
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // Extension calls behind withAuth (heartbeats every ~30s, plus retries)
+  session: { limit: 10, windowMs: 10_000, identity: 'sessionId' },
+  // Token refresh is unauthenticated; a client needs one every access-token lifetime
+  sessionRefresh: { limit: 10, windowMs: 60_000, identity: 'ip' },
+  // Counts only deliveries that fail signature verification; signed events are never limited
+  stripeWebhook: { limit: 20, windowMs: 60_000, identity: 'ip' },
+  premiumRegister: { limit: 5, windowMs: 60_000, identity: 'userId' },
+  features: { limit: 60, windowMs: 60_000, identity: 'userId' },
+  testRoutes: { limit: 10, windowMs: 60_000, identity: 'ip' },
+  // Request counter behind proof-of-work difficulty; never refuses in practice
+  abuseSignals: { limit: 10_000, windowMs: 10 * 60_000, identity: 'ip' }
+};
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;        // Epoch ms when the oldest counted request leaves the window
+  windowMs: number;
+}
+
+export interface RateLimitBackend {
+  limit(key: string, policy: RateLimitPolicy): Promise<Omit<RateLimitResult, 'windowMs'>>;
+}
+
+const upstashLimiters = new Map<string, Ratelimit>();
+
+const kvBackend: RateLimitBackend = {
+  async limit(key, policy) {
+    const cacheKey = `${policy.limit}:${policy.windowMs}`;
+    let limiter = upstashLimiters.get(cacheKey);
+    if (!limiter) {
+      limiter = new Ratelimit({
+        redis: kv,
+        limiter: Ratelimit.slidingWindow(policy.limit, `${policy.windowMs} ms`),
+        analytics: true,
+        prefix: 'ratelimit'
+      });
+      upstashLimiters.set(cacheKey, limiter);
+    }
+
+    const { success, limit, remaining, reset } = await limiter.limit(key);
+    return { success, limit, remaining, reset };
+  }
+};
+
+/**
+ * Sliding-log limiter kept in process memory
+ */
+export function createMemoryRateLimitBackend(): RateLimitBackend & { reset(): void } {
+  const hits = new Map<string, number[]>();
+
+  return {
+    async limit(key, policy) {
+      const now = Date.now();
+      const windowStart = now - policy.windowMs;
+      const recent = (hits.get(key) || []).filter(timestamp => timestamp > windowStart);
+      const success = recent.length < policy.limit;
+
+      if (success) {
+        recent.push(now);
+      }
+      hits.set(key, recent);
+
+      // Idle keys are dropped once the map gets large
+      if (hits.size > 10_000) {
+        for (const [candidate, timestamps] of hits) {
+          if (timestamps.every(timestamp => timestamp <= windowStart)) hits.delete(candidate);
+        }
+      }
+
+      return {
+        success,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - recent.length),
+        reset: (recent[0] ?? now) + policy.windowMs
+      };
+    },
+    reset() {
+      hits.clear();
+    }
+  };
+}
+
+const memoryBackend = createMemoryRateLimitBackend();
+let backendOverride: RateLimitBackend | null = null;
+
+function getRateLimitBackend(): RateLimitBackend {
+  if (backendOverride) return backendOverride;
+  const hasKv = !!process.env.KV_REST_API_URL && !!process.env.KV_REST_API_TOKEN;
+  return hasKv ? kvBackend : memoryBackend;
+}
+
+/**
+ * Replace the backend returned for every policy (tests). Pass null to restore.
+ */
+export function setRateLimitBackendOverride(backend: RateLimitBackend | null): void {
+  backendOverride = backend;
+}
+
+/**
+ * Count one request against a policy for an identifier
+ */
+export async function checkRateLimit(policyName: RateLimitPolicyName, identifier: string): Promise<RateLimitResult> {
+  const policy = RATE_LIMIT_POLICIES[policyName];
+  const key = `${policyName}:${identifier}`;
+
+  try {
+    const result = await getRateLimitBackend().limit(key, policy);
+    return { ...result, windowMs: policy.windowMs };
+  } catch (error) {
+    console.warn(`⚠️ Rate limit check failed for ${policyName}, allowing request:`, error);
+    return { success: true, limit: policy.limit, remaining: policy.limit, reset: Date.now() + policy.windowMs, windowMs: policy.windowMs };
+  }
+}
+
+/**
+ * RateLimit-* headers (IETF draft), plus Retry-After when the request was refused
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.reset - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`
+  };
+
+  if (!result.success) {
+    headers['Retry-After'] = Math.max(1, resetSeconds).toString();
+  }
+  return headers;
+}
+
+export function createRateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json({
+    error: 'Too many requests',
+    code: 'RATE_LIMIT_EXCEEDED',
+    message: 'You have exceeded the rate limit. Please try again later.',
+    retryAfter: Math.max(1, Math.ceil((result.reset - Date.now()) / 1000))
+  }, { status: 429, headers: getRateLimitHeaders(result) });
+}
+
+export function getClientIp(request: NextRequest): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+         request.headers.get('x-real-ip') ||
+         'unknown';
+}
+
+/**
+ * Identifier for a policy's identity. Wrap the handler inside withFirebaseUser or
+ * withAuth for uid/sessionId policies; without them the client IP is used.
+ */
+function resolveIdentifier(request: NextRequest, identity: RateLimitIdentity): string {
+  const authenticated = request as NextRequest & { uid?: string; userId?: string; sessionId?: string };
+
+  if (identity === 'userId' && (authenticated.uid || authenticated.userId)) {
+    return `user:${authenticated.uid || authenticated.userId}`;
+  }
+  if (identity === 'sessionId' && authenticated.sessionId) {
+    return `session:${authenticated.sessionId}`;
+  }
+  return `ip:${getClientIp(request)}`;
+}
+
+/**
+ * Higher-order function that applies a rate limit policy to a route handler
+ */
+export function withRateLimit<TRequest extends NextRequest, TArgs extends unknown[]>(
+  policyName: RateLimitPolicyName,
+  handler: (request: TRequest, ...args: TArgs) => Promise<NextResponse>
+) {
+  return async (request: TRequest, ...args: TArgs): Promise<NextResponse> => {
+    const identifier = resolveIdentifier(request, RATE_LIMIT_POLICIES[policyName].identity);
+    const result = await checkRateLimit(policyName, identifier);
+
+    if (!result.success) {
+      console.warn(`🚦 Rate limit exceeded for ${policyName}:`, { identifier, endpoint: request.nextUrl.pathname });
+      return createRateLimitExceededResponse(result);
+    }
+
+    const response = await handler(request, ...args);
+    for (const [name, value] of Object.entries(getRateLimitHeaders(result))) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
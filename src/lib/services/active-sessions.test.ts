@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { createSessionWithinLimit } from './active-sessions';
+
+describe('createSessionWithinLimit', () => {
+  let db: InMemoryFirestore;
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  function start(sessionId: string, mode: 'evict' | 'reject') {
+    return createSessionWithinLimit({
+      userId: 'user_1',
+      maxSessions: 1,
+      sessionId,
+      mode,
+      now,
+      session: { sessionId, userId: 'user_1', status: 'active', startTime: now, lastHeartbeat: now }
+    });
+  }
+
+  function activeSessionIds() {
+    return db.paths()
+      .filter(path => path.startsWith('sessions/') && db.read(path)?.status === 'active')
+      .map(path => path.slice('sessions/'.length));
+  }
+
+  it('lets only one of two concurrent starts through in reject mode', async () => {
+    const results = await Promise.all([start('session_a', 'reject'), start('session_b', 'reject')]);
+
+    expect(results.map(result => result.allowed).sort()).toEqual([false, true]);
+    expect(activeSessionIds()).toHaveLength(1);
+  });
+
+  it('keeps concurrent starts within the cap in evict mode', async () => {
+    await Promise.all([start('session_a', 'evict'), start('session_b', 'evict')]);
+
+    expect(activeSessionIds()).toEqual(['session_b']);
+    expect(db.read('sessions/session_a')).toMatchObject({ status: 'revoked', revokedReason: 'evicted_by_new_session' });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Active Sessions
+ *
+ * Caps how many sessions a user can have running at once (the tier's
+ * concurrentSessions quota) and lets users revoke sessions from their device list.
+ * When a new session would exceed the cap, SESSION_LIMIT_MODE decides what happens:
+ * 'evict' (default) revokes the user's oldest sessions, 'reject' refuses the new one.
+ * Sessions that have gone quiet for longer than the idle gap never block a new one.
+ * The count, the evictions and the new session doc commit together in one transaction
+ * that also writes session_locks/{userId}, so concurrent starts for the same user
+ * queue behind each other instead of each seeing room for one more.
+ *
+ * Revoked sessions keep their document with status 'revoked'; withAuth refuses their
+ * JWTs and the extension stops on its next heartbeat.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { getIdleGapMs } from './usage-accounting';
+
+const SESSION_LOCKS_COLLECTION = 'session_locks';
+
+export type SessionLimitMode = 'evict' | 'reject';
+
+export type SessionRevokeReason = 'user_revoked' | 'evicted_by_new_session' | 'stale_replaced' | 'device_revoked';
+
+export interface ActiveSessionSummary {
+  sessionId: string;
+  deviceFingerprint: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  subscriptionStatus: string | null;
+  startTime: Date | null;
+  lastHeartbeat: Date | null;
+  stale: boolean;
+}
+
+export interface SessionLimitResult {
+  allowed: boolean;
+  maxSessions: number;
+  activeSessions: number;       // Live sessions counted against the cap before this one
+  revokedSessionIds: string[];
+}
+
+export function getSessionLimitMode(): SessionLimitMode {
+  return process.env.SESSION_LIMIT_MODE === 'reject' ? 'reject' : 'evict';
+}
+
+/**
+ * Firestore hands stored Dates back as Timestamps
+ */
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+function summarizeSession(doc: FirebaseFirestore.QueryDocumentSnapshot, now: Date): ActiveSessionSummary {
+  const data = doc.data();
+  const lastHeartbeat = toDate(data.lastHeartbeat);
+  const lastSeen = lastHeartbeat || toDate(data.startTime);
+
+  return {
+    sessionId: doc.id,
+    deviceFingerprint: data.deviceFingerprint || null,
+    userAgent: data.userAgent || null,
+    ipAddress: data.ipAddress || null,
+    subscriptionStatus: data.subscriptionStatus || null,
+    startTime: toDate(data.startTime),
+    lastHeartbeat,
+    stale: !lastSeen || now.getTime() - lastSeen.getTime() > getIdleGapMs()
+  };
+}
+
+function activeSessionsQuery(userId: string): FirebaseFirestore.Query {
+  return adminDb.collection('sessions')
+    .where('userId', '==', userId)
+    .where('status', '==', 'active');
+}
+
+function summarizeActiveSessions(snapshot: FirebaseFirestore.QuerySnapshot, now: Date): ActiveSessionSummary[] {
+  const lastSeen = (session: ActiveSessionSummary) => (session.lastHeartbeat || session.startTime)?.getTime() || 0;
+
+  return snapshot.docs
+    .map((doc: FirebaseFirestore.QueryDocumentSnapshot) => summarizeSession(doc, now))
+    .sort((a: ActiveSessionSummary, b: ActiveSessionSummary) => lastSeen(a) - lastSeen(b));
+}
+
+/**
+ * A user's active sessions, least recently seen first
+ */
+export async function listActiveSessions(userId: string, now: Date = new Date()): Promise<ActiveSessionSummary[]> {
+  return summarizeActiveSessions(await activeSessionsQuery(userId).get(), now);
+}
+
+function getRevokedFields(reason: SessionRevokeReason, revokedBy: string, now: Date) {
+  return {
+    status: 'revoked',
+    revokedAt: now,
+    revokedReason: reason,
+    revokedBy,
+    endTime: now,
+    endReason: reason
+  };
+}
+
+async function markSessionsRevoked(sessionIds: string[], reason: SessionRevokeReason, revokedBy: string, now: Date): Promise<void> {
+  if (sessionIds.length === 0) return;
+
+  const batch = adminDb.batch();
+  for (const sessionId of sessionIds) {
+    batch.update(adminDb.collection('sessions').doc(sessionId), getRevokedFields(reason, revokedBy, now));
+  }
+  await batch.commit();
+}
+
+/**
+ * Create sessions/{sessionId} if it fits under the user's cap, revoking stale sessions
+ * and (in evict mode) the oldest live ones to make room. When allowed is false
+ * nothing but the stale revocations was written.
+ */
+export async function createSessionWithinLimit({
+  userId,
+  maxSessions,
+  sessionId,
+  session,
+  mode = getSessionLimitMode(),
+  now = new Date()
+}: {
+  userId: string;
+  maxSessions: number;
+  sessionId: string;
+  session: FirebaseFirestore.DocumentData;
+  mode?: SessionLimitMode;
+  now?: Date;
+}): Promise<SessionLimitResult> {
+  const sessionsRef = adminDb.collection('sessions');
+  const lockRef: FirebaseFirestore.DocumentReference = adminDb.collection(SESSION_LOCKS_COLLECTION).doc(userId);
+
+  const result: SessionLimitResult = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    // Every start reads and writes the lock doc, which is what serialises them; the
+    // query alone wouldn't conflict with a session another start is about to add
+    await transaction.get(lockRef);
+    const sessions = summarizeActiveSessions(await transaction.get(activeSessionsQuery(userId)), now);
+    const staleSessionIds = sessions.filter(summary => summary.stale).map(summary => summary.sessionId);
+    const liveSessions = sessions.filter(summary => !summary.stale);
+
+    // Quiet sessions are not billing anyway; close them rather than let them resume over the cap
+    for (const staleSessionId of staleSessionIds) {
+      transaction.update(sessionsRef.doc(staleSessionId), getRevokedFields('stale_replaced', 'system', now));
+    }
+
+    const overBy = liveSessions.length - maxSessions + 1;
+    if (overBy > 0 && mode === 'reject') {
+      return { allowed: false, maxSessions, activeSessions: liveSessions.length, revokedSessionIds: staleSessionIds };
+    }
+
+    const evictedSessionIds = overBy > 0 ? liveSessions.slice(0, overBy).map(summary => summary.sessionId) : [];
+    for (const evictedSessionId of evictedSessionIds) {
+      transaction.update(sessionsRef.doc(evictedSessionId), getRevokedFields('evicted_by_new_session', 'system', now));
+    }
+
+    transaction.set(sessionsRef.doc(sessionId), session);
+    transaction.set(lockRef, {
+      userId,
+      activeSessions: liveSessions.length - evictedSessionIds.length + 1,
+      lastSessionId: sessionId,
+      updatedAt: now
+    });
+
+    return {
+      allowed: true,
+      maxSessions,
+      activeSessions: liveSessions.length,
+      revokedSessionIds: [...staleSessionIds, ...evictedSessionIds]
+    };
+  });
+
+  if (!result.allowed) {
+    console.log(`🚫 Session limit reached for user ${userId}: ${result.activeSessions}/${maxSessions} active`);
+  } else if (result.revokedSessionIds.length > 0) {
+    console.log(`♻️ Revoked ${result.revokedSessionIds.length} session(s) for user ${userId} to stay within ${maxSessions}:`, result.revokedSessionIds);
+  }
+
+  return result;
+}
+
+/**
+ * Revoke one of a user's sessions. Returns false if the session isn't theirs or
+ * has already ended.
+ */
+export async function revokeUserSession({
+  userId,
+  sessionId,
+  now = new Date()
+}: {
+  userId: string;
+  sessionId: string;
+  now?: Date;
+}): Promise<boolean> {
+  const sessionDoc = await adminDb.collection('sessions').doc(sessionId).get();
+  const data = sessionDoc.exists ? sessionDoc.data() : undefined;
+
+  if (!data || data.userId !== userId || data.status !== 'active') {
+    return false;
+  }
+
+  await markSessionsRevoked([sessionId], 'user_revoked', userId, now);
+  console.log(`🔒 Session ${sessionId} revoked by user ${userId}`);
+  return true;
+}
+
+/**
+ * End every active session bound to a device key (see device-keys.ts)
+ */
+export async function revokeSessionsForDevice({
+  userId,
+  deviceId,
+  now = new Date()
+}: {
+  userId: string;
+  deviceId: string;
+  now?: Date;
+}): Promise<string[]> {
+  const snapshot = await adminDb.collection('sessions')
+    .where('userId', '==', userId)
+    .where('deviceId', '==', deviceId)
+    .where('status', '==', 'active')
+    .get();
+
+  const sessionIds = snapshot.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) => doc.id);
+  await markSessionsRevoked(sessionIds, 'device_revoked', userId, now);
+  return sessionIds;
+}
+
+/**
+ * Whether a session has been revoked (checked on every authenticated request)
+ */
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  const sessionDoc = await adminDb.collection('sessions').doc(sessionId).get();
+  return sessionDoc.exists && sessionDoc.data()?.status === 'revoked';
+}
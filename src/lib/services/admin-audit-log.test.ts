@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { appendAdminAuditEntry, recordAdminChange, verifyAdminAuditChain, type AdminAuditEntryInput } from './admin-audit-log';
+
+describe('admin audit log', () => {
+  let db: InMemoryFirestore;
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  function entry(targetUserId: string): AdminAuditEntryInput {
+    return {
+      actor: { id: 'admin_1', email: 'admin@example.com', type: 'admin' },
+      request: null,
+      action: 'premium.entitlement_set',
+      targetUserId,
+      before: { premium: false },
+      after: { premium: true }
+    };
+  }
+
+  async function appendThree() {
+    for (const userId of ['user_1', 'user_2', 'user_3']) {
+      await appendAdminAuditEntry(entry(userId), now);
+    }
+  }
+
+  it('verifies an untouched chain', async () => {
+    await appendThree();
+
+    expect(await verifyAdminAuditChain()).toEqual({ valid: true, checked: 3, headSequence: 3, brokenAt: null, problem: null });
+  });
+
+  it('reports an edited entry', async () => {
+    await appendThree();
+    db.write('admin_audit_log/000000000002', { after: { premium: false } }, 'update');
+
+    expect(await verifyAdminAuditChain()).toMatchObject({ valid: false, brokenAt: 2, problem: 'hash_mismatch' });
+  });
+
+  it('reports a deleted entry', async () => {
+    await appendThree();
+    db.remove('admin_audit_log/000000000002');
+
+    expect(await verifyAdminAuditChain()).toMatchObject({ valid: false, brokenAt: 2, problem: 'entry_missing' });
+  });
+
+  it('logs a change as pending before applying it and records how it ended', async () => {
+    const outcomes: string[] = [];
+    await recordAdminChange(entry('user_1'), async () => {
+      outcomes.push(...db.paths().filter(path => path.startsWith('admin_audit_log/')).map(path => db.read(path)?.metadata.outcome));
+    }, now);
+
+    expect(outcomes).toEqual(['pending']);
+    expect(db.read('admin_audit_log/000000000002')).toMatchObject({
+      action: 'premium.entitlement_set.completed',
+      metadata: { pendingSequence: 1 }
+    });
+
+    await expect(recordAdminChange(entry('user_2'), async () => {
+      throw new Error('claims write failed');
+    }, now)).rejects.toThrow('claims write failed');
+
+    expect(db.read('admin_audit_log/000000000004')).toMatchObject({
+      action: 'premium.entitlement_set.failed',
+      metadata: { pendingSequence: 3, error: 'claims write failed' }
+    });
+    expect((await verifyAdminAuditChain()).valid).toBe(true);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Admin Audit Log
+ *
+ * Append-only record of privileged changes (entitlements, custom claims, admin
+ * permissions, replays). Entries live in admin_audit_log/{sequence} and form a hash
+ * chain: each entry's hash is sha256 over the previous hash and the entry's canonical
+ * JSON, and admin_audit_chain/head points at the latest one. Editing an entry breaks
+ * its hash, deleting one leaves a gap in the sequence, and truncating the tail no
+ * longer matches the head, all of which verifyAdminAuditChain reports.
+ *
+ * Clients can't read or write either collection; entries are only added here.
+ */
+
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { getClientIp } from '@/lib/rate-limiter';
+import type { AdminAuthenticatedRequest } from '@/lib/middleware/admin-auth';
+
+const LOG_COLLECTION = 'admin_audit_log';
+const HEAD_DOC = 'admin_audit_chain/head';
+const GENESIS_HASH = '0'.repeat(64);
+
+export type AuditActorType = 'admin' | 'system' | 'test';
+
+export interface AuditActor {
+  id: string;
+  email?: string | null;
+  type: AuditActorType;
+}
+
+export interface AuditRequestMetadata {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string | null;
+}
+
+export interface AdminAuditContext {
+  actor: AuditActor;
+  request: AuditRequestMetadata | null;
+}
+
+export interface AdminAuditEntryInput extends AdminAuditContext {
+  action: string;
+  targetUserId?: string | null;
+  targetEmail?: string | null;
+  targetResource?: string | null;
+  before?: unknown;
+  after?: unknown;
+  reason?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface AdminAuditEntry {
+  sequence: number;
+  previousHash: string;
+  hash: string;
+  action: string;
+  actorId: string;
+  actorEmail: string | null;
+  actorType: AuditActorType;
+  targetUserId: string | null;
+  targetEmail: string | null;
+  targetResource: string | null;
+  before: unknown;
+  after: unknown;
+  changedFields: string[];
+  reason: string | null;
+  request: AuditRequestMetadata | null;
+  metadata: Record<string, unknown> | null;
+  recordedAt: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  headSequence: number;
+  brokenAt: number | null;
+  problem: 'hash_mismatch' | 'chain_broken' | 'entry_missing' | 'head_mismatch' | null;
+}
+
+/**
+ * Firestore-safe, hash-stable copy: Dates and Timestamps become ISO strings and
+ * undefined fields are dropped
+ */
+export function toAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate().toISOString();
+  }
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, field]) => field !== undefined && typeof field !== 'function')
+        .map(([key, field]) => [key, toAuditValue(field)])
+    );
+  }
+  return value;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashEntry(previousHash: string, body: Omit<AdminAuditEntry, 'hash'>): string {
+  return createHash('sha256').update(`${previousHash}\n${canonicalJson(toAuditValue(body))}`).digest('hex');
+}
+
+function sequenceId(sequence: number): string {
+  return String(sequence).padStart(12, '0');
+}
+
+function getChangedFields(before: unknown, after: unknown): string[] {
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (!isRecord(before) || !isRecord(after)) {
+    return canonicalJson(before) === canonicalJson(after) ? [] : ['*'];
+  }
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => canonicalJson(before[key] ?? null) !== canonicalJson(after[key] ?? null))
+    .sort();
+}
+
+export function getAuditRequestMetadata(request: NextRequest): AuditRequestMetadata {
+  return {
+    method: request.method,
+    path: request.nextUrl.pathname,
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent')
+  };
+}
+
+/**
+ * Actor and request metadata for an authenticated admin request
+ */
+export function getAdminAuditContext(request: AdminAuthenticatedRequest): AdminAuditContext {
+  return {
+    actor: { id: request.adminId, email: request.adminEmail || null, type: 'admin' },
+    request: getAuditRequestMetadata(request)
+  };
+}
+
+/**
+ * Append an entry to the chain. Throws if it can't be written, so callers don't
+ * report success for a change that went unrecorded.
+ */
+export async function appendAdminAuditEntry(input: AdminAuditEntryInput, now: Date = new Date()): Promise<AdminAuditEntry> {
+  const headRef: FirebaseFirestore.DocumentReference = adminDb.doc(HEAD_DOC);
+  const before = toAuditValue(input.before);
+  const after = toAuditValue(input.after);
+
+  const entry = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const headDoc = await transaction.get(headRef);
+    const head = headDoc.exists ? headDoc.data()! : { sequence: 0, hash: GENESIS_HASH };
+
+    const body: Omit<AdminAuditEntry, 'hash'> = {
+      sequence: head.sequence + 1,
+      previousHash: head.hash,
+      action: input.action,
+      actorId: input.actor.id,
+      actorEmail: input.actor.email || null,
+      actorType: input.actor.type,
+      targetUserId: input.targetUserId || null,
+      targetEmail: input.targetEmail || null,
+      targetResource: input.targetResource || null,
+      before,
+      after,
+      changedFields: getChangedFields(before, after),
+      reason: input.reason || null,
+      request: input.request,
+      metadata: toAuditValue(input.metadata) as Record<string, unknown> | null,
+      recordedAt: now.toISOString()
+    };
+    const hash = hashEntry(head.hash, body);
+
+    transaction.set(adminDb.collection(LOG_COLLECTION).doc(sequenceId(body.sequence)), { ...body, hash });
+    transaction.set(headRef, { sequence: body.sequence, hash, updatedAt: now });
+    return { ...body, hash };
+  });
+
+  console.log(`📜 Audit #${entry.sequence} ${entry.action} by ${entry.actorId}`, entry.targetUserId ? `on ${entry.targetUserId}` : '');
+  return entry;
+}
+
+/**
+ * Record a change before making it: the entry goes on the chain with outcome
+ * 'pending', then `<action>.completed` or `<action>.failed` pointing back at it once
+ * `apply` settles. A change that can't be recorded is never made, and one that fails
+ * part-way stays visible in the log. Rethrows whatever `apply` threw.
+ */
+export async function recordAdminChange<T>(
+  input: AdminAuditEntryInput,
+  apply: () => Promise<T>,
+  now: Date = new Date()
+): Promise<T> {
+  const pending = await appendAdminAuditEntry({ ...input, metadata: { ...input.metadata, outcome: 'pending' } }, now);
+  const outcomeEntry = (outcome: 'completed' | 'failed', error?: unknown): AdminAuditEntryInput => ({
+    actor: input.actor,
+    request: input.request,
+    action: `${input.action}.${outcome}`,
+    targetUserId: input.targetUserId,
+    targetEmail: input.targetEmail,
+    targetResource: input.targetResource,
+    metadata: {
+      pendingSequence: pending.sequence,
+      ...(error !== undefined && { error: error instanceof Error ? error.message : String(error) })
+    }
+  });
+
+  let result: T;
+  try {
+    result = await apply();
+  } catch (error) {
+    await appendAdminAuditEntry(outcomeEntry('failed', error)).catch(auditError => {
+      console.error(`❌ Could not record failure of audit #${pending.sequence}:`, auditError);
+    });
+    throw error;
+  }
+
+  // The change is already on the chain as pending, so don't fail the request over this
+  await appendAdminAuditEntry(outcomeEntry('completed')).catch(auditError => {
+    console.error(`❌ Could not record completion of audit #${pending.sequence}:`, auditError);
+  });
+  return result;
+}
+
+/**
+ * Latest entries, optionally for one target user, actor or action. Pass the lowest
+ * sequence of the previous page as `beforeSequence` to page back.
+ */
+export async function queryAdminAuditLog({
+  targetUserId,
+  actorId,
+  action,
+  beforeSequence,
+  limit = 50
+}: {
+  targetUserId?: string | null;
+  actorId?: string | null;
+  action?: string | null;
+  beforeSequence?: number | null;
+  limit?: number;
+}): Promise<AdminAuditEntry[]> {
+  let query: FirebaseFirestore.Query = adminDb.collection(LOG_COLLECTION);
+
+  if (targetUserId) query = query.where('targetUserId', '==', targetUserId);
+  if (actorId) query = query.where('actorId', '==', actorId);
+  if (action) query = query.where('action', '==', action);
+  if (beforeSequence) query = query.where('sequence', '<', beforeSequence);
+
+  const snapshot = await query.orderBy('sequence', 'desc').limit(limit).get();
+  return snapshot.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) => toAuditValue(doc.data()) as AdminAuditEntry);
+}
+
+/**
+ * Walk the chain from `fromSequence` and recompute every hash
+ */
+export async function verifyAdminAuditChain({
+  fromSequence = 1,
+  limit = 1000
+}: {
+  fromSequence?: number;
+  limit?: number;
+} = {}): Promise<AuditChainVerification> {
+  const headDoc = await adminDb.doc(HEAD_DOC).get();
+  const head = headDoc.exists ? headDoc.data()! : { sequence: 0, hash: GENESIS_HASH };
+  const lastSequence = Math.min(head.sequence, fromSequence + limit - 1);
+
+  // Starting mid-chain, link to the entry before the range when it is there
+  let previousHash: string | null = GENESIS_HASH;
+  if (fromSequence > 1) {
+    const previousDoc = await adminDb.collection(LOG_COLLECTION).doc(sequenceId(fromSequence - 1)).get();
+    previousHash = previousDoc.exists ? previousDoc.data()!.hash : null;
+  }
+
+  const result = (checked: number, brokenAt: number | null, problem: AuditChainVerification['problem']): AuditChainVerification => ({
+    valid: problem === null,
+    checked,
+    headSequence: head.sequence,
+    brokenAt,
+    problem
+  });
+
+  let checked = 0;
+  for (let sequence = fromSequence; sequence <= lastSequence; sequence++) {
+    const doc = await adminDb.collection(LOG_COLLECTION).doc(sequenceId(sequence)).get();
+    if (!doc.exists) {
+      return result(checked, sequence, 'entry_missing');
+    }
+
+    const { hash, ...body } = toAuditValue(doc.data()) as AdminAuditEntry;
+    if (body.sequence !== sequence || (previousHash !== null && body.previousHash !== previousHash)) {
+      return result(checked, sequence, 'chain_broken');
+    }
+    if (hashEntry(body.previousHash, body) !== hash) {
+      return result(checked, sequence, 'hash_mismatch');
+    }
+
+    previousHash = hash;
+    checked++;
+  }
+
+  if (lastSequence === head.sequence && checked > 0 && previousHash !== head.hash) {
+    return result(checked, head.sequence, 'head_mismatch');
+  }
+  return result(checked, null, null);
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminAuthOverride, setAdminDbOverride } from '@/lib/firebase-admin';
+import { createInMemoryAuth, type InMemoryAuth } from '@/lib/testing/in-memory-auth';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { revokeAdmin, setAdminPermissions, type AdminActor } from './admin-identities';
+
+describe('admin identity guards', () => {
+  let auth: InMemoryAuth;
+  let db: InMemoryFirestore;
+  const usersAdmin: AdminActor = { adminId: 'admin_users', email: 'users@example.com', permissions: ['admins', 'users', 'audit'] };
+  const master: AdminActor = { adminId: 'admin_master', email: 'master@example.com', permissions: ['master'] };
+
+  beforeEach(() => {
+    auth = createInMemoryAuth();
+    setAdminAuthOverride(auth.auth);
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+
+    auth.addUser({ uid: 'admin_users', email: 'users@example.com', customClaims: { admin: true, adminPermissions: usersAdmin.permissions } });
+    auth.addUser({ uid: 'admin_master', email: 'master@example.com', customClaims: { admin: true, adminPermissions: ['master'] } });
+    auth.addUser({ uid: 'user_1', email: 'user@example.com', customClaims: { premium: true } });
+  });
+
+  afterEach(() => {
+    setAdminAuthOverride(null);
+    setAdminDbOverride(null);
+  });
+
+  it('refuses to grant a permission the actor does not hold', async () => {
+    const result = await setAdminPermissions({ uid: 'user_1', permissions: ['users', 'premium'], actor: usersAdmin });
+
+    expect(result).toMatchObject({ success: false, code: 'PERMISSION_ESCALATION' });
+    expect(auth.getClaims('user_1')).toEqual({ premium: true });
+  });
+
+  it('refuses to change or revoke an admin who holds more than the actor', async () => {
+    expect(await setAdminPermissions({ uid: 'admin_master', permissions: ['users'], actor: usersAdmin }))
+      .toMatchObject({ success: false, code: 'PERMISSION_ESCALATION' });
+    expect(await revokeAdmin({ uid: 'admin_master', actor: usersAdmin }))
+      .toMatchObject({ success: false, code: 'PERMISSION_ESCALATION' });
+    expect(auth.getClaims('admin_master')).toEqual({ admin: true, adminPermissions: ['master'] });
+  });
+
+  it('refuses changes to the actor themselves', async () => {
+    expect(await setAdminPermissions({ uid: 'admin_users', permissions: ['users'], actor: usersAdmin }))
+      .toMatchObject({ success: false, code: 'SELF_MODIFICATION' });
+    expect(await revokeAdmin({ uid: 'admin_master', actor: master }))
+      .toMatchObject({ success: false, code: 'SELF_MODIFICATION' });
+  });
+
+  it('grants permissions the actor holds and keeps unrelated claims', async () => {
+    const result = await setAdminPermissions({ uid: 'user_1', permissions: ['users', 'audit'], actor: usersAdmin });
+
+    expect(result).toMatchObject({ success: true, tokensRevoked: false });
+    expect(auth.getClaims('user_1')).toEqual({ premium: true, admin: true, adminPermissions: ['users', 'audit'] });
+  });
+
+  it('signs the user out when their permissions shrink', async () => {
+    await setAdminPermissions({ uid: 'user_1', permissions: ['users', 'audit'], actor: master });
+    const idToken = auth.issueIdToken('user_1');
+
+    const result = await setAdminPermissions({ uid: 'user_1', permissions: ['users'], actor: master });
+
+    expect(result).toMatchObject({ success: true, tokensRevoked: true });
+    await expect(auth.auth.verifyIdToken(idToken, true)).rejects.toMatchObject({ code: 'auth/id-token-revoked' });
+  });
+
+  it('reports a change that fails part-way and leaves it on the audit log', async () => {
+    await setAdminPermissions({ uid: 'user_1', permissions: ['users', 'audit'], actor: master });
+    auth.auth.revokeRefreshTokens = async () => {
+      throw new Error('auth backend unavailable');
+    };
+
+    const result = await setAdminPermissions({ uid: 'user_1', permissions: ['users'], actor: master });
+
+    expect(result).toMatchObject({ success: false, code: 'ADMIN_CHANGE_FAILED' });
+    expect(db.read('admin_audit_log/000000000003')).toMatchObject({ action: 'admin.permissions_set', metadata: { outcome: 'pending' } });
+    expect(db.read('admin_audit_log/000000000004')).toMatchObject({
+      action: 'admin.permissions_set.failed',
+      metadata: { pendingSequence: 3, error: 'auth backend unavailable' }
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Admin Identities
+ *
+ * Grants and revokes admin permissions on Firebase users. The custom claims
+ * (`admin`, `adminPermissions`) are what withAdminAuth trusts; admin_users/{uid} keeps
+ * a readable record of who holds what and who granted it.
+ *
+ * An admin can only grant permissions they hold, can only change admins whose
+ * permissions they hold, and can't change their own. Whenever permissions shrink, the
+ * user's refresh tokens are revoked so older ID tokens stop working straight away.
+ * Every change is recorded in the admin audit log before it is made (see
+ * recordAdminChange); a change that fails part-way is reported as ADMIN_CHANGE_FAILED.
+ */
+
+import { adminDb, getAdminAuth } from '@/lib/firebase-admin';
+import {
+  getAdminPermissionsFromClaims,
+  hasPermission,
+  isAdminPermission,
+  type AdminPermission
+} from '@/lib/middleware/admin-auth';
+import { recordAdminChange, type AuditRequestMetadata } from './admin-audit-log';
+
+const ADMIN_USERS_COLLECTION = 'admin_users';
+
+export type AdminManagementErrorCode =
+  | 'ADMIN_USER_NOT_FOUND'
+  | 'INVALID_PERMISSIONS'
+  | 'SELF_MODIFICATION'
+  | 'PERMISSION_ESCALATION'
+  | 'NOT_ADMIN'
+  | 'ADMIN_CHANGE_FAILED';
+
+export const ADMIN_MANAGEMENT_ERROR_STATUS: Record<AdminManagementErrorCode, number> = {
+  ADMIN_USER_NOT_FOUND: 404,
+  INVALID_PERMISSIONS: 400,
+  SELF_MODIFICATION: 403,
+  PERMISSION_ESCALATION: 403,
+  NOT_ADMIN: 404,
+  ADMIN_CHANGE_FAILED: 500
+};
+
+export interface AdminActor {
+  adminId: string;
+  email?: string | null;
+  permissions: string[];
+}
+
+export interface AdminIdentity {
+  uid: string;
+  email: string | null;
+  permissions: AdminPermission[];
+  grantedBy: string | null;
+  updatedAt: Date | null;
+}
+
+export type AdminManagementResult =
+  | { success: true; admin: AdminIdentity; tokensRevoked: boolean }
+  | { success: false; code: AdminManagementErrorCode; message: string };
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+function changeFailed(error: unknown): AdminManagementResult {
+  return {
+    success: false,
+    code: 'ADMIN_CHANGE_FAILED',
+    message: `Admin change did not complete; check the audit log and the user's claims: ${error instanceof Error ? error.message : 'Unknown error'}`
+  };
+}
+
+async function findUser({ uid, email }: { uid?: string; email?: string }) {
+  try {
+    return uid ? await getAdminAuth().getUser(uid) : await getAdminAuth().getUserByEmail(email!);
+  } catch (error) {
+    if ((error as { code?: string } | null)?.code === 'auth/user-not-found') return null;
+    throw error;
+  }
+}
+
+/**
+ * Admins on record, newest change first
+ */
+export async function listAdmins(): Promise<AdminIdentity[]> {
+  const snapshot = await adminDb.collection(ADMIN_USERS_COLLECTION).where('status', '==', 'active').get();
+
+  return snapshot.docs
+    .map((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+      const data = doc.data();
+      return {
+        uid: doc.id,
+        email: data.email || null,
+        permissions: (data.permissions || []).filter(isAdminPermission),
+        grantedBy: data.grantedBy || null,
+        updatedAt: toDate(data.updatedAt)
+      } as AdminIdentity;
+    })
+    .sort((a: AdminIdentity, b: AdminIdentity) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+}
+
+/**
+ * Make a user an admin with exactly `permissions`, replacing whatever they had
+ */
+export async function setAdminPermissions({
+  uid,
+  email,
+  permissions,
+  actor,
+  request = null,
+  now = new Date()
+}: {
+  uid?: string;
+  email?: string;
+  permissions: unknown;
+  actor: AdminActor;
+  request?: AuditRequestMetadata | null;
+  now?: Date;
+}): Promise<AdminManagementResult> {
+  if (!Array.isArray(permissions) || permissions.length === 0 || !permissions.every(isAdminPermission)) {
+    return { success: false, code: 'INVALID_PERMISSIONS', message: 'permissions must be a non-empty list of known admin permissions' };
+  }
+  const granted = Array.from(new Set(permissions as AdminPermission[]));
+
+  const user = await findUser({ uid, email });
+  if (!user) {
+    return { success: false, code: 'ADMIN_USER_NOT_FOUND', message: 'No user with that uid or email' };
+  }
+  if (user.uid === actor.adminId) {
+    return { success: false, code: 'SELF_MODIFICATION', message: 'Admins cannot change their own permissions' };
+  }
+
+  const claims = user.customClaims || {};
+  const current = getAdminPermissionsFromClaims(claims);
+  const outranked = [...granted, ...current].find(permission => !hasPermission(actor.permissions, permission));
+  if (outranked) {
+    return { success: false, code: 'PERMISSION_ESCALATION', message: `You need the ${outranked} permission to change it` };
+  }
+
+  const tokensRevoked = current.some(permission => !granted.includes(permission));
+
+  try {
+    await recordAdminChange({
+      actor: { id: actor.adminId, email: actor.email, type: 'admin' },
+      request,
+      action: 'admin.permissions_set',
+      targetUserId: user.uid,
+      targetEmail: user.email || null,
+      targetResource: `auth/${user.uid}/customClaims`,
+      before: { admin: current.length > 0, adminPermissions: current },
+      after: { admin: true, adminPermissions: granted },
+      metadata: { tokensRevoked }
+    }, async () => {
+      await getAdminAuth().setCustomUserClaims(user.uid, { ...claims, admin: true, adminPermissions: granted });
+      if (tokensRevoked) {
+        await getAdminAuth().revokeRefreshTokens(user.uid);
+      }
+
+      await adminDb.collection(ADMIN_USERS_COLLECTION).doc(user.uid).set({
+        uid: user.uid,
+        email: user.email || null,
+        permissions: granted,
+        status: 'active',
+        grantedBy: actor.adminId,
+        updatedAt: now
+      }, { merge: true });
+    }, now);
+  } catch (error) {
+    console.error(`❌ Admin permissions change for ${user.uid} did not complete:`, error);
+    return changeFailed(error);
+  }
+
+  console.log(`🛡️ Admin permissions set for ${user.uid} by ${actor.adminId}:`, { from: current, to: granted });
+
+  return {
+    success: true,
+    admin: { uid: user.uid, email: user.email || null, permissions: granted, grantedBy: actor.adminId, updatedAt: now },
+    tokensRevoked
+  };
+}
+
+/**
+ * Remove a user's admin claim and sign them out everywhere
+ */
+export async function revokeAdmin({
+  uid,
+  actor,
+  request = null,
+  now = new Date()
+}: {
+  uid: string;
+  actor: AdminActor;
+  request?: AuditRequestMetadata | null;
+  now?: Date;
+}): Promise<AdminManagementResult> {
+  const user = await findUser({ uid });
+  if (!user) {
+    return { success: false, code: 'ADMIN_USER_NOT_FOUND', message: 'No user with that uid' };
+  }
+  if (user.uid === actor.adminId) {
+    return { success: false, code: 'SELF_MODIFICATION', message: 'Admins cannot revoke themselves' };
+  }
+
+  const otherClaims = { ...user.customClaims };
+  delete otherClaims.admin;
+  delete otherClaims.adminPermissions;
+  const current = getAdminPermissionsFromClaims(user.customClaims || {});
+  if (current.length === 0) {
+    return { success: false, code: 'NOT_ADMIN', message: 'This user is not an admin' };
+  }
+
+  const outranked = current.find(permission => !hasPermission(actor.permissions, permission));
+  if (outranked) {
+    return { success: false, code: 'PERMISSION_ESCALATION', message: `You need the ${outranked} permission to revoke this admin` };
+  }
+
+  try {
+    await recordAdminChange({
+      actor: { id: actor.adminId, email: actor.email, type: 'admin' },
+      request,
+      action: 'admin.revoked',
+      targetUserId: user.uid,
+      targetEmail: user.email || null,
+      targetResource: `auth/${user.uid}/customClaims`,
+      before: { admin: true, adminPermissions: current },
+      after: { admin: false, adminPermissions: [] },
+      metadata: { tokensRevoked: true }
+    }, async () => {
+      await getAdminAuth().setCustomUserClaims(user.uid, otherClaims);
+      await getAdminAuth().revokeRefreshTokens(user.uid);
+      await adminDb.collection(ADMIN_USERS_COLLECTION).doc(user.uid).set({
+        uid: user.uid,
+        email: user.email || null,
+        permissions: [],
+        status: 'revoked',
+        revokedBy: actor.adminId,
+        revokedAt: now,
+        updatedAt: now
+      }, { merge: true });
+    }, now);
+  } catch (error) {
+    console.error(`❌ Admin revocation for ${user.uid} did not complete:`, error);
+    return changeFailed(error);
+  }
+
+  console.log(`🛡️ Admin access revoked for ${user.uid} by ${actor.adminId}:`, { from: current });
+
+  return {
+    success: true,
+    admin: { uid: user.uid, email: user.email || null, permissions: [], grantedBy: null, updatedAt: now },
+    tokensRevoked: true
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Billing Portal Service
+ *
+ * Opens Stripe customer portal sessions so users can cancel, switch plans, update
+ * their card and download invoices. Changes made in the portal come back through
+ * the customer.subscription.* webhooks like any other subscription change.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { getStripe } from '@/lib/stripe-admin';
+
+/**
+ * Stripe customer ID recorded for a user, or null if they never subscribed
+ */
+export async function getBillingCustomerId(userId: string): Promise<string | null> {
+  const premiumUserDoc = await adminDb.collection('premium_users').doc(userId).get();
+  if (!premiumUserDoc.exists) return null;
+
+  return premiumUserDoc.data()?.stripeCustomerId || null;
+}
+
+/**
+ * Create a portal session for the user. Returns null when there is no Stripe
+ * customer to open the portal for.
+ */
+export async function createBillingPortalSession({
+  userId,
+  returnUrl
+}: {
+  userId: string;
+  returnUrl: string;
+}): Promise<{ url: string; customerId: string } | null> {
+  const customerId = await getBillingCustomerId(userId);
+  if (!customerId) {
+    console.warn('⚠️ No Stripe customer for billing portal:', userId);
+    return null;
+  }
+
+  const session = await getStripe().billingPortal.sessions.create({
+    customer: customerId,
+    return_url: returnUrl,
+    // Optional portal configuration (which plans can be switched to, cancellation options)
+    ...(process.env.STRIPE_BILLING_PORTAL_CONFIGURATION_ID
+      ? { configuration: process.env.STRIPE_BILLING_PORTAL_CONFIGURATION_ID }
+      : {})
+  });
+
+  console.log('✅ Billing portal session created:', { userId, customerId, sessionId: session.id });
+  return { url: session.url, customerId };
+}
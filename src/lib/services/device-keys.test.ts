@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { registerDeviceKey, verifyDeviceProof } from './device-keys';
+
+describe('device key proofs', () => {
+  let db: InMemoryFirestore;
+  let privateKey: KeyObject;
+  let deviceId: string;
+
+  beforeEach(async () => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+
+    const pair = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    privateKey = pair.privateKey;
+    const registered = await registerDeviceKey({ userId: 'user_1', publicKey: pair.publicKey.export({ format: 'jwk' }) });
+    if (!registered.success) throw new Error(registered.message);
+    deviceId = registered.deviceId;
+
+    db.write('sessions/session_1', { userId: 'user_1', status: 'active', deviceId, deviceNonce: 'nonce_0' }, 'set');
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  // WebCrypto-style raw r||s signature over `${sessionId}.${nonce}`
+  function signNonce(nonce: string, key: KeyObject = privateKey) {
+    return sign('sha256', Buffer.from(`session_1.${nonce}`), { key, dsaEncoding: 'ieee-p1363' }).toString('base64url');
+  }
+
+  it('accepts a signed nonce and rotates it', async () => {
+    const result = await verifyDeviceProof({ sessionId: 'session_1', proof: { nonce: 'nonce_0', signature: signNonce('nonce_0') } });
+
+    expect(result.valid).toBe(true);
+    expect(result.nextNonce).toBeTruthy();
+    expect(db.read('sessions/session_1')?.deviceNonce).toBe(result.nextNonce);
+
+    const second = await verifyDeviceProof({ sessionId: 'session_1', proof: { nonce: result.nextNonce!, signature: signNonce(result.nextNonce!) } });
+    expect(second.valid).toBe(true);
+  });
+
+  it('refuses a replayed nonce', async () => {
+    const proof = { nonce: 'nonce_0', signature: signNonce('nonce_0') };
+    await verifyDeviceProof({ sessionId: 'session_1', proof });
+
+    expect(await verifyDeviceProof({ sessionId: 'session_1', proof })).toMatchObject({ valid: false, code: 'DEVICE_PROOF_INVALID' });
+  });
+
+  it('refuses a signature from another key but still hands out a new nonce', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+    const result = await verifyDeviceProof({ sessionId: 'session_1', proof: { nonce: 'nonce_0', signature: signNonce('nonce_0', otherKey) } });
+
+    expect(result).toMatchObject({ valid: false, code: 'DEVICE_PROOF_INVALID' });
+    expect(result.nextNonce).toBeTruthy();
+    expect(db.read('sessions/session_1')?.deviceNonce).toBe(result.nextNonce);
+  });
+
+  it('refuses a heartbeat without a proof', async () => {
+    expect(await verifyDeviceProof({ sessionId: 'session_1' })).toMatchObject({ valid: false, code: 'DEVICE_PROOF_REQUIRED' });
+  });
+
+  it('refuses proofs once the device is revoked', async () => {
+    db.write(`devices/${deviceId}`, { status: 'revoked' }, 'update');
+
+    const result = await verifyDeviceProof({ sessionId: 'session_1', proof: { nonce: 'nonce_0', signature: signNonce('nonce_0') } });
+    expect(result).toMatchObject({ valid: false, code: 'DEVICE_REVOKED' });
+  });
+
+  it('keeps a device key bound to the user who registered it', async () => {
+    const device = db.read(`devices/${deviceId}`);
+
+    expect(await registerDeviceKey({ userId: 'user_2', publicKey: device?.publicKey })).toMatchObject({ success: false, code: 'DEVICE_KEY_IN_USE' });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Device Keys
+ *
+ * Binds sessions to a device key pair instead of the copyable deviceFingerprint string.
+ * The extension generates a P-256 key pair, keeps the private key non-extractable and
+ * sends the public JWK when a session starts. Devices are stored in devices/{deviceId},
+ * where deviceId is the key's RFC 7638 thumbprint, and belong to one user.
+ *
+ * Each bound session holds a single-use nonce. A heartbeat proves possession by signing
+ * `${sessionId}.${nonce}` (ECDSA P-256 / SHA-256, raw r||s as WebCrypto returns it,
+ * base64url), and every response hands out the next nonce, including failed ones so a
+ * client that missed a response can re-sign straight away.
+ *
+ * DEVICE_BINDING_MODE=required refuses sessions without a key; the default 'optional'
+ * keeps older extension builds working while still checking proofs for bound sessions.
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import { adminDb } from '@/lib/firebase-admin';
+import { revokeSessionsForDevice } from './active-sessions';
+
+const DEVICES_COLLECTION = 'devices';
+
+export type DeviceBindingMode = 'optional' | 'required';
+
+export type DeviceKeyErrorCode = 'DEVICE_KEY_INVALID' | 'DEVICE_KEY_IN_USE' | 'DEVICE_REVOKED';
+
+export type DeviceProofErrorCode =
+  | 'DEVICE_PROOF_REQUIRED'
+  | 'DEVICE_PROOF_INVALID'
+  | 'DEVICE_NOT_BOUND'
+  | 'DEVICE_REVOKED';
+
+export interface DeviceProof {
+  nonce: string;
+  signature: string;
+}
+
+export interface DeviceSummary {
+  deviceId: string;
+  deviceFingerprint: string | null;
+  userAgent: string | null;
+  status: 'active' | 'revoked';
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export type DeviceProofResult =
+  | { valid: true; nextNonce: string | null }
+  | { valid: false; code: DeviceProofErrorCode; message: string; nextNonce: string | null };
+
+export function getDeviceBindingMode(): DeviceBindingMode {
+  return process.env.DEVICE_BINDING_MODE === 'required' ? 'required' : 'optional';
+}
+
+export function issueDeviceNonce(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Firestore hands stored Dates back as Timestamps
+ */
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+/**
+ * Validate a public JWK and derive its thumbprint. Only P-256 EC keys are accepted.
+ */
+export function parseDevicePublicKey(jwk: unknown): { deviceId: string; publicKey: JsonWebKey } | null {
+  if (!jwk || typeof jwk !== 'object') return null;
+  const { kty, crv, x, y } = jwk as JsonWebKey;
+  if (kty !== 'EC' || crv !== 'P-256' || typeof x !== 'string' || typeof y !== 'string') return null;
+
+  try {
+    createPublicKey({ key: { kty, crv, x, y }, format: 'jwk' });
+  } catch {
+    return null;
+  }
+
+  // RFC 7638: required members only, in lexicographic order
+  const thumbprint = createHash('sha256').update(JSON.stringify({ crv, kty, x, y })).digest('base64url');
+  return { deviceId: thumbprint, publicKey: { kty, crv, x, y } };
+}
+
+/**
+ * Register (or re-use) a device key for a user. A key stays bound to the first user
+ * that registered it, and revoked keys can't come back.
+ */
+export async function registerDeviceKey({
+  userId,
+  publicKey,
+  deviceFingerprint,
+  userAgent,
+  now = new Date()
+}: {
+  userId: string;
+  publicKey: unknown;
+  deviceFingerprint?: string | null;
+  userAgent?: string | null;
+  now?: Date;
+}): Promise<{ success: true; deviceId: string } | { success: false; code: DeviceKeyErrorCode; message: string }> {
+  const parsed = parseDevicePublicKey(publicKey);
+  if (!parsed) {
+    return { success: false, code: 'DEVICE_KEY_INVALID', message: 'Device public key must be a P-256 EC JWK' };
+  }
+
+  const deviceRef: FirebaseFirestore.DocumentReference = adminDb.collection(DEVICES_COLLECTION).doc(parsed.deviceId);
+
+  return adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const deviceDoc = await transaction.get(deviceRef);
+    const existing = deviceDoc.exists ? deviceDoc.data()! : null;
+
+    if (existing && existing.userId !== userId) {
+      console.warn(`🚨 Device key ${parsed.deviceId} presented by ${userId} is registered to another user`);
+      return { success: false as const, code: 'DEVICE_KEY_IN_USE' as const, message: 'This device key is registered to a different account' };
+    }
+    if (existing?.status === 'revoked') {
+      return { success: false as const, code: 'DEVICE_REVOKED' as const, message: 'This device was signed out. Reinstall or reset the extension to register it again.' };
+    }
+
+    if (existing) {
+      transaction.update(deviceRef, {
+        lastSeenAt: now,
+        deviceFingerprint: deviceFingerprint || existing.deviceFingerprint || null,
+        userAgent: userAgent || existing.userAgent || null
+      });
+    } else {
+      transaction.set(deviceRef, {
+        deviceId: parsed.deviceId,
+        userId,
+        publicKey: parsed.publicKey,
+        algorithm: 'ES256',
+        deviceFingerprint: deviceFingerprint || null,
+        userAgent: userAgent || null,
+        status: 'active',
+        createdAt: now,
+        lastSeenAt: now
+      });
+      console.log(`🔑 Registered device key ${parsed.deviceId} for user ${userId}`);
+    }
+
+    return { success: true as const, deviceId: parsed.deviceId };
+  });
+}
+
+function verifySignature(publicKey: KeyObject, data: string, signature: string): boolean {
+  try {
+    return verify('sha256', Buffer.from(data), { key: publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a heartbeat's proof of possession and rotate the session's nonce
+ */
+export async function verifyDeviceProof({
+  sessionId,
+  proof,
+  now = new Date()
+}: {
+  sessionId: string;
+  proof?: DeviceProof | null;
+  now?: Date;
+}): Promise<DeviceProofResult> {
+  const sessionRef: FirebaseFirestore.DocumentReference = adminDb.collection('sessions').doc(sessionId);
+
+  return adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const sessionDoc = await transaction.get(sessionRef);
+    const sessionData = sessionDoc.exists ? sessionDoc.data()! : {};
+
+    if (!sessionData.deviceId) {
+      return getDeviceBindingMode() === 'required'
+        ? { valid: false as const, code: 'DEVICE_NOT_BOUND' as const, message: 'This session has no device key. Please update the extension.', nextNonce: null }
+        : { valid: true as const, nextNonce: null };
+    }
+
+    const deviceRef: FirebaseFirestore.DocumentReference = adminDb.collection(DEVICES_COLLECTION).doc(sessionData.deviceId);
+    const deviceDoc = await transaction.get(deviceRef);
+    const device = deviceDoc.exists ? deviceDoc.data()! : null;
+
+    if (!device || device.status !== 'active') {
+      return { valid: false as const, code: 'DEVICE_REVOKED' as const, message: 'This device has been signed out', nextNonce: null };
+    }
+
+    // The presented nonce is spent whatever the outcome
+    const nextNonce = issueDeviceNonce();
+    transaction.update(sessionRef, { deviceNonce: nextNonce, deviceNonceIssuedAt: now });
+
+    if (!proof?.nonce || !proof?.signature) {
+      return { valid: false as const, code: 'DEVICE_PROOF_REQUIRED' as const, message: 'Heartbeat must be signed with the device key', nextNonce };
+    }
+
+    const publicKey = createPublicKey({ key: device.publicKey, format: 'jwk' });
+    if (proof.nonce !== sessionData.deviceNonce || !verifySignature(publicKey, `${sessionId}.${proof.nonce}`, proof.signature)) {
+      return { valid: false as const, code: 'DEVICE_PROOF_INVALID' as const, message: 'Device signature did not verify; sign the new nonce and retry', nextNonce };
+    }
+
+    transaction.update(deviceRef, { lastSeenAt: now });
+    return { valid: true as const, nextNonce };
+  });
+}
+
+/**
+ * A user's registered devices, most recently seen first
+ */
+export async function listUserDevices(userId: string): Promise<DeviceSummary[]> {
+  const snapshot = await adminDb.collection(DEVICES_COLLECTION).where('userId', '==', userId).get();
+
+  return snapshot.docs
+    .map((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+      const data = doc.data();
+      return {
+        deviceId: doc.id,
+        deviceFingerprint: data.deviceFingerprint || null,
+        userAgent: data.userAgent || null,
+        status: data.status === 'revoked' ? 'revoked' : 'active',
+        createdAt: toDate(data.createdAt),
+        lastSeenAt: toDate(data.lastSeenAt),
+        revokedAt: toDate(data.revokedAt)
+      } as DeviceSummary;
+    })
+    .sort((a: DeviceSummary, b: DeviceSummary) => (b.lastSeenAt?.getTime() || 0) - (a.lastSeenAt?.getTime() || 0));
+}
+
+/**
+ * Revoke one of a user's devices and end its sessions. Returns false if the device
+ * isn't theirs or is already revoked.
+ */
+export async function revokeUserDevice({
+  userId,
+  deviceId,
+  now = new Date()
+}: {
+  userId: string;
+  deviceId: string;
+  now?: Date;
+}): Promise<boolean> {
+  const deviceRef = adminDb.collection(DEVICES_COLLECTION).doc(deviceId);
+  const deviceDoc = await deviceRef.get();
+  const data = deviceDoc.exists ? deviceDoc.data() : undefined;
+
+  if (!data || data.userId !== userId || data.status === 'revoked') {
+    return false;
+  }
+
+  await deviceRef.update({ status: 'revoked', revokedAt: now, revokedBy: userId });
+  const revokedSessionIds = await revokeSessionsForDevice({ userId, deviceId, now });
+  console.log(`🔒 Device ${deviceId} revoked by user ${userId}, ended sessions:`, revokedSessionIds);
+  return true;
+}
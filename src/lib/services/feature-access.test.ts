@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminAuthOverride, setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { createInMemoryAuth } from '@/lib/testing/in-memory-auth';
+import { checkFeatureAccess, getUserFeatureTier, type UserFeatureTier } from './feature-access';
+
+describe('getUserFeatureTier', () => {
+  let db: InMemoryFirestore;
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    const auth = createInMemoryAuth();
+    auth.addUser({ uid: 'user_1', email: 'buyer@example.com' });
+    setAdminDbOverride(db);
+    setAdminAuthOverride(auth.auth);
+    db.write('users/user_1', { email: 'buyer@example.com', subscriptionStatus: 'limited' }, 'set');
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+    setAdminAuthOverride(null);
+  });
+
+  function seedPremiumUser(fields: Record<string, unknown>) {
+    db.write('premium_users/user_1', {
+      userId: 'user_1',
+      email: 'buyer@example.com',
+      stripeCustomerId: 'cus_live1',
+      stripeSubscriptionId: 'sub_live1',
+      ...fields
+    }, 'set');
+  }
+
+  it('gives team plans premium features and the team policy', async () => {
+    seedPremiumUser({ subscriptionStatus: 'premium', planTier: 'team' });
+
+    expect(await getUserFeatureTier('user_1')).toMatchObject({ featureTier: 'premium', quotaTier: 'team' });
+  });
+
+  it.each(['grace', 'canceled_at_period_end'])('keeps %s users on premium', async subscriptionStatus => {
+    seedPremiumUser({
+      subscriptionStatus,
+      planTier: 'monthly',
+      gracePeriodEndsAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    });
+
+    expect(await getUserFeatureTier('user_1')).toMatchObject({ featureTier: 'premium', quotaTier: 'premium', subscriptionStatus });
+  });
+
+  it('uses an active trial from the users doc', async () => {
+    db.write('users/user_1', {
+      email: 'buyer@example.com',
+      subscriptionStatus: 'trial',
+      subscriptionEndDate: { toDate: () => new Date(Date.now() + 60 * 60 * 1000) }
+    }, 'set');
+
+    expect(await getUserFeatureTier('user_1')).toMatchObject({ featureTier: 'trial', quotaTier: 'trial' });
+  });
+
+  it('returns null without a users doc', async () => {
+    expect(await getUserFeatureTier('someone_else')).toBeNull();
+  });
+});
+
+describe('checkFeatureAccess', () => {
+  let db: InMemoryFirestore;
+  const trialTier: UserFeatureTier = { featureTier: 'trial', quotaTier: 'trial', subscriptionStatus: 'trial', trialEndDate: null };
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  it('lets trials use trial features but not premium ones', async () => {
+    expect(await checkFeatureAccess({ userId: 'user_1', tier: trialTier, feature: 'knowledge_base_search' }))
+      .toEqual({ hasAccess: true, reason: 'trial_access', requiredTier: 'trial' });
+    expect(await checkFeatureAccess({ userId: 'user_1', tier: trialTier, feature: 'custom_roles' }))
+      .toEqual({ hasAccess: false, reason: 'premium_required', requiredTier: 'premium' });
+  });
+
+  it('logs each check', async () => {
+    await checkFeatureAccess({ userId: 'user_1', tier: trialTier, feature: 'custom_workflows', requestedAction: 'create_custom' });
+
+    const logs = db.paths().filter(path => path.startsWith('feature_access_logs/'));
+    expect(logs).toHaveLength(1);
+    expect(db.read(logs[0])).toMatchObject({ userId: 'user_1', feature: 'custom_workflows', action: 'create_custom', hasAccess: false });
+  });
+});
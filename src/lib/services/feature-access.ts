@@ -0,0 +1,196 @@
+/**
+ * Feature Access Tier
+ *
+ * Resolves the tier the feature routes (check-access, roles, tasks) gate on. Paid
+ * access comes from getPremiumStatus and resolveQuotaTier, the same as session start
+ * and the heartbeat, so team, grace and cancel-at-period-end users get the same
+ * policy everywhere. Free trials are still recorded on the users doc.
+ *
+ * PREMIUM_FEATURES lists the gated features; checkFeatureAccess() decides and logs
+ * one check for check-access and the roles and tasks routes.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { getPremiumStatus } from './premium-status';
+import { resolveQuotaTier, type QuotaTier } from './quota-policy';
+
+// Team plans unlock the same features as premium; they differ only in quota policy
+export type FeatureTier = 'anonymous' | 'limited' | 'trial' | 'premium';
+
+export interface UserFeatureTier {
+  featureTier: FeatureTier;
+  quotaTier: QuotaTier;
+  subscriptionStatus: string;
+  trialEndDate: Date | null;
+}
+
+// Premium features and their access requirements
+export const PREMIUM_FEATURES = {
+  // Role-based features
+  'custom_roles': {
+    name: 'Custom Roles',
+    description: 'Create and use custom AI roles beyond the basic set',
+    requiredTier: 'premium'
+  },
+  'advanced_roles': {
+    name: 'Advanced Roles',
+    description: 'Access to specialized roles like Data Scientist, Legal Advisor, etc.',
+    requiredTier: 'premium'
+  },
+  'role_customization': {
+    name: 'Role Customization',
+    description: 'Modify and personalize existing roles',
+    requiredTier: 'premium'
+  },
+  
+  // Task-based features
+  'complex_tasks': {
+    name: 'Complex Tasks',
+    description: 'Multi-step tasks and advanced workflows',
+    requiredTier: 'premium'
+  },
+  'task_automation': {
+    name: 'Task Automation',
+    description: 'Automated task execution and scheduling',
+    requiredTier: 'premium'
+  },
+  'custom_workflows': {
+    name: 'Custom Workflows',
+    description: 'Create personalized task workflows',
+    requiredTier: 'premium'
+  },
+  
+  // Knowledge base features
+  'advanced_knowledge_base': {
+    name: 'Advanced Knowledge Base',
+    description: 'Access to specialized knowledge domains',
+    requiredTier: 'trial' // Available during trial
+  },
+  'knowledge_base_search': {
+    name: 'Knowledge Base Search',
+    description: 'Search across the full knowledge base',
+    requiredTier: 'trial'
+  },
+  
+  // Extension features
+  'unlimited_responses': {
+    name: 'Unlimited AI Responses',
+    description: 'No daily limits on AI interactions',
+    requiredTier: 'premium'
+  },
+  'priority_processing': {
+    name: 'Priority Processing',
+    description: 'Faster response times and priority queue',
+    requiredTier: 'premium'
+  },
+  'advanced_settings': {
+    name: 'Advanced Settings',
+    description: 'Fine-tune AI behavior and response styles',
+    requiredTier: 'premium'
+  },
+  
+  // Web interaction features
+  'deep_web_analysis': {
+    name: 'Deep Web Analysis',
+    description: 'Advanced webpage content analysis and understanding',
+    requiredTier: 'premium'
+  },
+  'multi_tab_context': {
+    name: 'Multi-Tab Context',
+    description: 'AI awareness across multiple browser tabs',
+    requiredTier: 'premium'
+  },
+  'web_automation': {
+    name: 'Web Automation',
+    description: 'Automated web interactions and form filling',
+    requiredTier: 'premium'
+  }
+} as const;
+
+export type PremiumFeature = keyof typeof PREMIUM_FEATURES;
+export type FeatureRequiredTier = typeof PREMIUM_FEATURES[PremiumFeature]['requiredTier'];
+
+export interface FeatureAccessDecision {
+  hasAccess: boolean;
+  reason: string;
+  requiredTier: FeatureRequiredTier;
+}
+
+export function isPremiumFeature(feature: string): feature is PremiumFeature {
+  return Object.prototype.hasOwnProperty.call(PREMIUM_FEATURES, feature);
+}
+
+export function tierMeetsRequirement(tier: FeatureTier, requiredTier: FeatureRequiredTier): boolean {
+  return requiredTier === 'premium' ? tier === 'premium' : tier === 'premium' || tier === 'trial';
+}
+
+/**
+ * Tier for a signed-in user, or null when they have no users doc
+ */
+export async function getUserFeatureTier(userId: string, email?: string | null): Promise<UserFeatureTier | null> {
+  const userDoc = await adminDb.collection('users').doc(userId).get();
+  if (!userDoc.exists) return null;
+
+  const userData = userDoc.data();
+  const premiumStatus = await getPremiumStatus({ userId, email: email || userData?.email || undefined });
+  const trialEndDate: Date | null = userData?.subscriptionEndDate?.toDate?.() || null;
+
+  let quotaTier = resolveQuotaTier(premiumStatus);
+  let subscriptionStatus: string = premiumStatus.subscriptionStatus;
+  if (quotaTier === 'limited' && userData?.subscriptionStatus === 'trial' && trialEndDate && trialEndDate > new Date()) {
+    quotaTier = 'trial';
+    subscriptionStatus = 'trial';
+  }
+
+  return {
+    featureTier: quotaTier === 'team' ? 'premium' : quotaTier,
+    quotaTier,
+    subscriptionStatus,
+    trialEndDate
+  };
+}
+
+/**
+ * Decide whether a tier can use a feature and record the attempt in
+ * feature_access_logs. Shared by check-access and the task routes so one request
+ * is checked (and rate limited) once.
+ */
+export async function checkFeatureAccess({
+  userId,
+  tier,
+  feature,
+  requestedAction
+}: {
+  userId: string;
+  tier: UserFeatureTier;
+  feature: PremiumFeature;
+  requestedAction?: string;
+}): Promise<FeatureAccessDecision> {
+  const { requiredTier } = PREMIUM_FEATURES[feature];
+  const hasAccess = tierMeetsRequirement(tier.featureTier, requiredTier);
+
+  let reason: string;
+  if (requiredTier === 'premium') {
+    reason = hasAccess ? 'premium_access' : 'premium_required';
+  } else {
+    reason = hasAccess ? (tier.featureTier === 'premium' ? 'premium_access' : 'trial_access') : 'trial_or_premium_required';
+  }
+
+  // Store access log for analytics (optional)
+  try {
+    await adminDb.collection('feature_access_logs').add({
+      userId,
+      feature,
+      action: requestedAction || 'check_access',
+      hasAccess,
+      userTier: tier.featureTier,
+      requiredTier,
+      timestamp: new Date(),
+      subscriptionStatus: tier.subscriptionStatus
+    });
+  } catch (logError) {
+    console.warn('Failed to log feature access:', logError);
+  }
+
+  return { hasAccess, reason, requiredTier };
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { buildStripeSubscription } from '@/lib/testing/stripe-fixtures';
+import {
+  acceptOrganizationInvitation,
+  inviteOrganizationMember,
+  listInvitationsForEmail,
+  syncOrganizationSubscription
+} from './organizations';
+
+describe('organization invitations', () => {
+  let db: InMemoryFirestore;
+  let invitationId: string;
+
+  beforeEach(async () => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+    db.write('organizations/sub_team1', {
+      name: 'Acme',
+      ownerId: 'owner_1',
+      ownerEmail: 'owner@example.com',
+      stripeSubscriptionId: 'sub_team1',
+      subscriptionStatus: 'premium',
+      seatQuantity: 3,
+      seatsAssigned: 1
+    }, 'set');
+
+    const invited = await inviteOrganizationMember({ orgId: 'sub_team1', actorId: 'owner_1', email: 'Member@Example.com' });
+    if (!invited.success) throw new Error(invited.message);
+    invitationId = invited.data.invitationId;
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  it('lists pending invitations for the invitee', async () => {
+    const invitations = await listInvitationsForEmail('member@example.com');
+
+    expect(invitations).toHaveLength(1);
+    expect(invitations[0]).toMatchObject({ invitationId, orgId: 'sub_team1', orgName: 'Acme' });
+    expect(await listInvitationsForEmail('someone-else@example.com')).toEqual([]);
+  });
+
+  it('refuses an unverified email', async () => {
+    const result = await acceptOrganizationInvitation({
+      invitationId,
+      userId: 'user_1',
+      email: 'member@example.com',
+      emailVerified: false
+    });
+
+    expect(result).toMatchObject({ success: false, code: 'EMAIL_NOT_VERIFIED' });
+    expect(db.read(`organization_invitations/${invitationId}`)?.status).toBe('pending');
+  });
+
+  it('seats a verified invitee', async () => {
+    const result = await acceptOrganizationInvitation({
+      invitationId,
+      userId: 'user_1',
+      email: 'member@example.com',
+      emailVerified: true
+    });
+
+    expect(result).toMatchObject({ success: true, data: { userId: 'user_1', seatAssigned: true } });
+    expect(db.read('organizations/sub_team1')?.seatsAssigned).toBe(2);
+  });
+});
+
+describe('syncOrganizationSubscription', () => {
+  let db: InMemoryFirestore;
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+    db.write('organizations/sub_team1', {
+      name: 'Acme',
+      ownerId: 'owner_1',
+      ownerEmail: 'owner@example.com',
+      stripeSubscriptionId: 'sub_team1',
+      subscriptionStatus: 'premium',
+      seatQuantity: 3,
+      seatsAssigned: 2
+    }, 'set');
+    db.write('organization_members/sub_team1_owner_1', {
+      orgId: 'sub_team1',
+      userId: 'owner_1',
+      role: 'owner',
+      seatAssigned: true,
+      seatAssignedAt: new Date('2025-01-01T00:00:00.000Z')
+    }, 'set');
+    db.write('organization_members/sub_team1_user_1', {
+      orgId: 'sub_team1',
+      userId: 'user_1',
+      role: 'member',
+      seatAssigned: true,
+      seatAssignedAt: new Date('2025-02-01T00:00:00.000Z')
+    }, 'set');
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  function seatedMemberCount() {
+    return db.paths()
+      .filter(path => path.startsWith('organization_members/sub_team1_') && db.read(path)?.seatAssigned)
+      .length;
+  }
+
+  it('keeps the seat count right when an invitation is accepted during a seat reduction', async () => {
+    const invited = await inviteOrganizationMember({ orgId: 'sub_team1', actorId: 'owner_1', email: 'late@example.com' });
+    if (!invited.success) throw new Error(invited.message);
+
+    await Promise.all([
+      acceptOrganizationInvitation({
+        invitationId: invited.data.invitationId,
+        userId: 'user_2',
+        email: 'late@example.com',
+        emailVerified: true
+      }),
+      syncOrganizationSubscription({
+        subscription: buildStripeSubscription({ id: 'sub_team1', customer: 'cus_team1', quantity: 2 }),
+        subscriptionStatus: 'premium'
+      })
+    ]);
+
+    expect(db.read('organizations/sub_team1')).toMatchObject({ seatQuantity: 2, seatsAssigned: seatedMemberCount() });
+    expect(seatedMemberCount()).toBeLessThanOrEqual(2);
+    expect(db.read('organization_members/sub_team1_owner_1')?.seatAssigned).toBe(true);
+  });
+});
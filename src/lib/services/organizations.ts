@@ -0,0 +1,599 @@
+/**
+ * Organization (Team) Subscriptions
+ *
+ * One Stripe subscription on the team tier covers several seats. The subscriber owns
+ * the organization and hands seats to members they invite by email; the org_membership
+ * premium status source then resolves seated members as premium. Invitees see their
+ * pending invitations with listInvitationsForEmail() and must have a verified email to
+ * accept one.
+ *
+ * Collections:
+ *   organizations/{orgId}                       orgId is the Stripe subscription ID
+ *   organization_members/{orgId}_{userId}       role, seat assignment
+ *   organization_invitations/{invitationId}     pending email invitations
+ */
+
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebase-admin';
+import type { BillingSubscriptionStatus } from './subscription-state';
+import { resolvePaidPlanTier } from './plan-catalog';
+import { invalidatePremiumStatusCache } from './premium-status-cache';
+
+const ORGANIZATIONS_COLLECTION = 'organizations';
+const MEMBERS_COLLECTION = 'organization_members';
+const INVITATIONS_COLLECTION = 'organization_invitations';
+
+const INVITATION_TTL_DAYS = 14;
+
+export type OrganizationRole = 'owner' | 'member';
+
+export interface Organization {
+  orgId: string;
+  name: string;
+  ownerId: string;
+  ownerEmail: string;
+  stripeCustomerId: string;
+  stripeSubscriptionId: string;
+  subscriptionStatus: BillingSubscriptionStatus;
+  subscriptionPriceId: string | null;
+  gracePeriodEndsAt: Date | null;
+  seatQuantity: number;
+  seatsAssigned: number;
+}
+
+export interface OrganizationMember {
+  orgId: string;
+  userId: string;
+  email: string;
+  role: OrganizationRole;
+  seatAssigned: boolean;
+  seatAssignedAt: Date | null;
+  joinedAt: Date;
+}
+
+export interface OrganizationInvitation {
+  invitationId: string;
+  orgId: string;
+  email: string;
+  invitedBy: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type OrganizationErrorCode =
+  | 'ORG_NOT_FOUND'
+  | 'NOT_ORG_OWNER'
+  | 'MEMBER_NOT_FOUND'
+  | 'INVITATION_NOT_FOUND'
+  | 'INVITATION_EXPIRED'
+  | 'INVITATION_EMAIL_MISMATCH'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'ALREADY_MEMBER'
+  | 'NO_SEATS_AVAILABLE'
+  | 'OWNER_SEAT_REQUIRED';
+
+export type OrganizationActionResult<T = undefined> =
+  | { success: true; data: T }
+  | { success: false; code: OrganizationErrorCode; message: string };
+
+// HTTP status the API routes return for each failure
+export const ORGANIZATION_ERROR_STATUS: Record<OrganizationErrorCode, number> = {
+  ORG_NOT_FOUND: 404,
+  NOT_ORG_OWNER: 403,
+  MEMBER_NOT_FOUND: 404,
+  INVITATION_NOT_FOUND: 404,
+  INVITATION_EXPIRED: 410,
+  INVITATION_EMAIL_MISMATCH: 403,
+  EMAIL_NOT_VERIFIED: 403,
+  ALREADY_MEMBER: 409,
+  NO_SEATS_AVAILABLE: 409,
+  OWNER_SEAT_REQUIRED: 400
+};
+
+function fail(code: OrganizationErrorCode, message: string): { success: false; code: OrganizationErrorCode; message: string } {
+  return { success: false, code, message };
+}
+
+export function getMemberDocId(orgId: string, userId: string): string {
+  return `${orgId}_${userId}`;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Firestore hands stored Dates back as Timestamps
+ */
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+function toOrganization(orgId: string, data: FirebaseFirestore.DocumentData): Organization {
+  return {
+    orgId,
+    name: data.name,
+    ownerId: data.ownerId,
+    ownerEmail: data.ownerEmail,
+    stripeCustomerId: data.stripeCustomerId,
+    stripeSubscriptionId: data.stripeSubscriptionId,
+    subscriptionStatus: data.subscriptionStatus,
+    subscriptionPriceId: data.subscriptionPriceId || null,
+    gracePeriodEndsAt: toDate(data.gracePeriodEndsAt),
+    seatQuantity: data.seatQuantity || 0,
+    seatsAssigned: data.seatsAssigned || 0
+  };
+}
+
+function toMember(data: FirebaseFirestore.DocumentData): OrganizationMember {
+  return {
+    orgId: data.orgId,
+    userId: data.userId,
+    email: data.email,
+    role: data.role,
+    seatAssigned: !!data.seatAssigned,
+    seatAssignedAt: toDate(data.seatAssignedAt),
+    joinedAt: toDate(data.joinedAt) || new Date(0)
+  };
+}
+
+function toInvitation(invitationId: string, data: FirebaseFirestore.DocumentData): OrganizationInvitation {
+  return {
+    invitationId,
+    orgId: data.orgId,
+    email: data.email,
+    invitedBy: data.invitedBy,
+    status: data.status,
+    createdAt: toDate(data.createdAt) || new Date(0),
+    expiresAt: toDate(data.expiresAt) || new Date(0)
+  };
+}
+
+export async function getOrganization(orgId: string): Promise<Organization | null> {
+  const orgDoc = await adminDb.collection(ORGANIZATIONS_COLLECTION).doc(orgId).get();
+  return orgDoc.exists ? toOrganization(orgDoc.id, orgDoc.data()) : null;
+}
+
+/**
+ * Organizations the user belongs to, with their membership
+ */
+export async function listUserOrganizations(userId: string): Promise<Array<{ organization: Organization; membership: OrganizationMember }>> {
+  const membershipSnapshot = await adminDb.collection(MEMBERS_COLLECTION)
+    .where('userId', '==', userId)
+    .get();
+
+  const results = await Promise.all(membershipSnapshot.docs.map(async (doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+    const membership = toMember(doc.data());
+    const organization = await getOrganization(membership.orgId);
+    return organization ? { organization, membership } : null;
+  }));
+
+  return results.filter((result): result is { organization: Organization; membership: OrganizationMember } => result !== null);
+}
+
+export async function listOrganizationMembers(orgId: string): Promise<OrganizationMember[]> {
+  const snapshot = await adminDb.collection(MEMBERS_COLLECTION)
+    .where('orgId', '==', orgId)
+    .get();
+
+  return snapshot.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) => toMember(doc.data()));
+}
+
+export async function listPendingInvitations(orgId: string): Promise<OrganizationInvitation[]> {
+  const snapshot = await adminDb.collection(INVITATIONS_COLLECTION)
+    .where('orgId', '==', orgId)
+    .where('status', '==', 'pending')
+    .get();
+
+  return snapshot.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) => toInvitation(doc.id, doc.data()));
+}
+
+/**
+ * Pending, unexpired invitations sent to an email address, with the inviting org's name
+ */
+export async function listInvitationsForEmail(email: string): Promise<Array<OrganizationInvitation & { orgName: string | null }>> {
+  const snapshot = await adminDb.collection(INVITATIONS_COLLECTION)
+    .where('email', '==', normalizeEmail(email))
+    .where('status', '==', 'pending')
+    .get();
+
+  const now = new Date();
+  const invitations = snapshot.docs
+    .map((doc: FirebaseFirestore.QueryDocumentSnapshot) => toInvitation(doc.id, doc.data()))
+    .filter((invitation: OrganizationInvitation) => invitation.expiresAt > now);
+
+  return Promise.all(invitations.map(async (invitation: OrganizationInvitation) => ({
+    ...invitation,
+    orgName: (await getOrganization(invitation.orgId))?.name || null
+  })));
+}
+
+/**
+ * Load the org and confirm the actor owns it
+ */
+async function requireOwnedOrganization(orgId: string, actorId: string): Promise<OrganizationActionResult<Organization>> {
+  const organization = await getOrganization(orgId);
+  if (!organization) {
+    return fail('ORG_NOT_FOUND', `Organization not found: ${orgId}`);
+  }
+  if (organization.ownerId !== actorId) {
+    return fail('NOT_ORG_OWNER', 'Only the organization owner can manage members and seats');
+  }
+  return { success: true, data: organization };
+}
+
+/**
+ * Invite someone by email. Re-inviting a pending address returns the existing invitation.
+ */
+export async function inviteOrganizationMember({
+  orgId,
+  actorId,
+  email
+}: {
+  orgId: string;
+  actorId: string;
+  email: string;
+}): Promise<OrganizationActionResult<OrganizationInvitation>> {
+  const owned = await requireOwnedOrganization(orgId, actorId);
+  if (!owned.success) return owned;
+
+  const normalizedEmail = normalizeEmail(email);
+
+  const members = await listOrganizationMembers(orgId);
+  if (members.some(member => member.email === normalizedEmail)) {
+    return fail('ALREADY_MEMBER', `${normalizedEmail} is already a member of this organization`);
+  }
+
+  const pending = await listPendingInvitations(orgId);
+  const existing = pending.find(invitation => invitation.email === normalizedEmail && invitation.expiresAt > new Date());
+  if (existing) {
+    return { success: true, data: existing };
+  }
+
+  const now = new Date();
+  const invitationRef = adminDb.collection(INVITATIONS_COLLECTION).doc();
+  const invitation = {
+    orgId,
+    email: normalizedEmail,
+    invitedBy: actorId,
+    status: 'pending' as const,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+  };
+
+  await invitationRef.set(invitation);
+  console.log('✉️ Organization invitation created:', { orgId, email: normalizedEmail, invitationId: invitationRef.id });
+
+  return { success: true, data: { invitationId: invitationRef.id, ...invitation } };
+}
+
+export async function revokeOrganizationInvitation({
+  orgId,
+  actorId,
+  invitationId
+}: {
+  orgId: string;
+  actorId: string;
+  invitationId: string;
+}): Promise<OrganizationActionResult> {
+  const owned = await requireOwnedOrganization(orgId, actorId);
+  if (!owned.success) return owned;
+
+  const invitationRef = adminDb.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  const invitationDoc = await invitationRef.get();
+  if (!invitationDoc.exists || invitationDoc.data()?.orgId !== orgId || invitationDoc.data()?.status !== 'pending') {
+    return fail('INVITATION_NOT_FOUND', 'No pending invitation with that ID');
+  }
+
+  await invitationRef.update({ status: 'revoked', revokedAt: new Date() });
+  console.log('🚫 Organization invitation revoked:', { orgId, invitationId });
+
+  return { success: true, data: undefined };
+}
+
+/**
+ * Accept an invitation as the signed-in user. The invitee gets a seat if one is free;
+ * otherwise they join without one until the owner assigns it. The token's email must
+ * be verified, or anyone could sign up with the invitee's address and take the seat.
+ */
+export async function acceptOrganizationInvitation({
+  invitationId,
+  userId,
+  email,
+  emailVerified
+}: {
+  invitationId: string;
+  userId: string;
+  email: string | null | undefined;
+  emailVerified: boolean;
+}): Promise<OrganizationActionResult<OrganizationMember>> {
+  if (!emailVerified) {
+    return fail('EMAIL_NOT_VERIFIED', 'Verify your email address before accepting the invitation');
+  }
+
+  const invitationRef: FirebaseFirestore.DocumentReference = adminDb.collection(INVITATIONS_COLLECTION).doc(invitationId);
+
+  const result: OrganizationActionResult<OrganizationMember> = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const invitationDoc = await transaction.get(invitationRef);
+    const invitationData = invitationDoc.data();
+    if (!invitationDoc.exists || !invitationData || invitationData.status !== 'pending') {
+      return fail('INVITATION_NOT_FOUND', 'Invitation not found or no longer pending');
+    }
+
+    const invitation = toInvitation(invitationDoc.id, invitationData);
+    if (invitation.expiresAt <= new Date()) {
+      return fail('INVITATION_EXPIRED', 'Invitation has expired, ask the owner to send a new one');
+    }
+    if (!email || normalizeEmail(email) !== invitation.email) {
+      return fail('INVITATION_EMAIL_MISMATCH', 'Invitation was sent to a different email address');
+    }
+
+    const orgRef: FirebaseFirestore.DocumentReference = adminDb.collection(ORGANIZATIONS_COLLECTION).doc(invitation.orgId);
+    const memberRef: FirebaseFirestore.DocumentReference = adminDb.collection(MEMBERS_COLLECTION).doc(getMemberDocId(invitation.orgId, userId));
+    const [orgDoc, memberDoc] = await Promise.all([transaction.get(orgRef), transaction.get(memberRef)]);
+
+    if (!orgDoc.exists) {
+      return fail('ORG_NOT_FOUND', `Organization not found: ${invitation.orgId}`);
+    }
+    if (memberDoc.exists) {
+      return fail('ALREADY_MEMBER', 'You are already a member of this organization');
+    }
+
+    const organization = toOrganization(orgDoc.id, orgDoc.data()!);
+    const seatAvailable = organization.seatsAssigned < organization.seatQuantity;
+    const now = new Date();
+
+    const member: OrganizationMember = {
+      orgId: invitation.orgId,
+      userId,
+      email: invitation.email,
+      role: 'member',
+      seatAssigned: seatAvailable,
+      seatAssignedAt: seatAvailable ? now : null,
+      joinedAt: now
+    };
+
+    transaction.set(memberRef, member);
+    transaction.update(invitationRef, { status: 'accepted', acceptedBy: userId, acceptedAt: now });
+    if (seatAvailable) {
+      transaction.update(orgRef, { seatsAssigned: organization.seatsAssigned + 1, 'metadata.updatedAt': now });
+    }
+
+    return { success: true, data: member };
+  });
+
+  if (result.success) {
+    await invalidatePremiumStatusCache(userId);
+    console.log('✅ Organization invitation accepted:', { invitationId, userId, seatAssigned: result.data.seatAssigned });
+  }
+
+  return result;
+}
+
+/**
+ * Assign or revoke a member's seat
+ */
+export async function setOrganizationSeat({
+  orgId,
+  actorId,
+  userId,
+  assigned
+}: {
+  orgId: string;
+  actorId: string;
+  userId: string;
+  assigned: boolean;
+}): Promise<OrganizationActionResult<OrganizationMember>> {
+  const orgRef: FirebaseFirestore.DocumentReference = adminDb.collection(ORGANIZATIONS_COLLECTION).doc(orgId);
+  const memberRef: FirebaseFirestore.DocumentReference = adminDb.collection(MEMBERS_COLLECTION).doc(getMemberDocId(orgId, userId));
+
+  const result: OrganizationActionResult<OrganizationMember> = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const [orgDoc, memberDoc] = await Promise.all([transaction.get(orgRef), transaction.get(memberRef)]);
+
+    if (!orgDoc.exists) {
+      return fail('ORG_NOT_FOUND', `Organization not found: ${orgId}`);
+    }
+    const organization = toOrganization(orgDoc.id, orgDoc.data()!);
+    if (organization.ownerId !== actorId) {
+      return fail('NOT_ORG_OWNER', 'Only the organization owner can manage members and seats');
+    }
+    if (!memberDoc.exists) {
+      return fail('MEMBER_NOT_FOUND', `User is not a member of this organization: ${userId}`);
+    }
+
+    const member = toMember(memberDoc.data()!);
+    if (member.seatAssigned === assigned) {
+      return { success: true, data: member };
+    }
+    if (!assigned && member.role === 'owner') {
+      return fail('OWNER_SEAT_REQUIRED', 'The owner always holds a seat');
+    }
+    if (assigned && organization.seatsAssigned >= organization.seatQuantity) {
+      return fail('NO_SEATS_AVAILABLE', `All ${organization.seatQuantity} seats are assigned. Add seats to the subscription first.`);
+    }
+
+    const now = new Date();
+    const updatedMember = { ...member, seatAssigned: assigned, seatAssignedAt: assigned ? now : null };
+
+    transaction.update(memberRef, { seatAssigned: assigned, seatAssignedAt: updatedMember.seatAssignedAt });
+    transaction.update(orgRef, {
+      seatsAssigned: organization.seatsAssigned + (assigned ? 1 : -1),
+      'metadata.updatedAt': now
+    });
+
+    return { success: true, data: updatedMember };
+  });
+
+  if (result.success) {
+    await invalidatePremiumStatusCache(userId);
+    console.log(assigned ? '🪑 Seat assigned:' : '🪑 Seat revoked:', { orgId, userId });
+  }
+
+  return result;
+}
+
+/**
+ * Remove a member (and free their seat)
+ */
+export async function removeOrganizationMember({
+  orgId,
+  actorId,
+  userId
+}: {
+  orgId: string;
+  actorId: string;
+  userId: string;
+}): Promise<OrganizationActionResult> {
+  const orgRef: FirebaseFirestore.DocumentReference = adminDb.collection(ORGANIZATIONS_COLLECTION).doc(orgId);
+  const memberRef: FirebaseFirestore.DocumentReference = adminDb.collection(MEMBERS_COLLECTION).doc(getMemberDocId(orgId, userId));
+
+  const result: OrganizationActionResult = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const [orgDoc, memberDoc] = await Promise.all([transaction.get(orgRef), transaction.get(memberRef)]);
+
+    if (!orgDoc.exists) {
+      return fail('ORG_NOT_FOUND', `Organization not found: ${orgId}`);
+    }
+    const organization = toOrganization(orgDoc.id, orgDoc.data()!);
+    if (organization.ownerId !== actorId) {
+      return fail('NOT_ORG_OWNER', 'Only the organization owner can manage members and seats');
+    }
+    if (!memberDoc.exists) {
+      return fail('MEMBER_NOT_FOUND', `User is not a member of this organization: ${userId}`);
+    }
+
+    const member = toMember(memberDoc.data()!);
+    if (member.role === 'owner') {
+      return fail('OWNER_SEAT_REQUIRED', 'The owner cannot be removed from their organization');
+    }
+
+    transaction.delete(memberRef);
+    if (member.seatAssigned) {
+      transaction.update(orgRef, { seatsAssigned: organization.seatsAssigned - 1, 'metadata.updatedAt': new Date() });
+    }
+
+    return { success: true, data: undefined };
+  });
+
+  if (result.success) {
+    await invalidatePremiumStatusCache(userId);
+    console.log('👋 Organization member removed:', { orgId, userId });
+  }
+
+  return result;
+}
+
+/**
+ * Keep an organization in step with its Stripe subscription. Creates the org (with the
+ * subscriber as owner) the first time a team-tier subscription is seen, then syncs
+ * billing state and seat quantity. If the quantity drops below the seats in use, the
+ * most recently assigned member seats are revoked. No-op for non-team subscriptions.
+ */
+export async function syncOrganizationSubscription({
+  subscription,
+  subscriptionStatus,
+  gracePeriodEndsAt = null,
+  owner
+}: {
+  subscription: Stripe.Subscription;
+  subscriptionStatus: BillingSubscriptionStatus;
+  gracePeriodEndsAt?: Date | null;
+  owner?: { userId: string; email: string };
+}): Promise<void> {
+  const item = subscription.items.data[0];
+  const subscriptionPriceId = item?.price.id || null;
+  const seatQuantity = item?.quantity || 1;
+
+  const orgRef: FirebaseFirestore.DocumentReference = adminDb.collection(ORGANIZATIONS_COLLECTION).doc(subscription.id);
+
+  // One transaction on the org doc, like accept and setSeat, so a seat they commit
+  // meanwhile makes this retry instead of being overwritten by a stale recount
+  const outcome: { created: boolean; seated: OrganizationMember[]; seatsToRevoke: OrganizationMember[] } | null =
+    await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+      const existing = await transaction.get(orgRef);
+
+      if (!existing.exists) {
+        if (resolvePaidPlanTier(subscriptionPriceId) !== 'team' || !owner) return null;
+
+        const now = new Date();
+        const ownerEmail = normalizeEmail(owner.email);
+        transaction.set(orgRef, {
+          name: `${ownerEmail}'s team`,
+          ownerId: owner.userId,
+          ownerEmail,
+          stripeCustomerId: subscription.customer as string,
+          stripeSubscriptionId: subscription.id,
+          subscriptionStatus,
+          subscriptionPriceId,
+          gracePeriodEndsAt,
+          seatQuantity,
+          seatsAssigned: 1, // The owner's seat
+          metadata: { createdAt: now, updatedAt: now }
+        });
+        transaction.set(adminDb.collection(MEMBERS_COLLECTION).doc(getMemberDocId(subscription.id, owner.userId)), {
+          orgId: subscription.id,
+          userId: owner.userId,
+          email: ownerEmail,
+          role: 'owner',
+          seatAssigned: true,
+          seatAssignedAt: now,
+          joinedAt: now
+        });
+        return { created: true, seated: [], seatsToRevoke: [] };
+      }
+
+      const membersSnapshot: FirebaseFirestore.QuerySnapshot = await transaction.get(
+        adminDb.collection(MEMBERS_COLLECTION).where('orgId', '==', subscription.id)
+      );
+      const seated = membersSnapshot.docs
+        .map((doc: FirebaseFirestore.QueryDocumentSnapshot) => toMember(doc.data()))
+        .filter((member: OrganizationMember) => member.seatAssigned);
+
+      // Newest member seats go first; the owner keeps theirs
+      const overAssigned = Math.max(0, seated.length - seatQuantity);
+      const seatsToRevoke = seated
+        .filter((member: OrganizationMember) => member.role !== 'owner')
+        .sort((a: OrganizationMember, b: OrganizationMember) => (b.seatAssignedAt?.getTime() || 0) - (a.seatAssignedAt?.getTime() || 0))
+        .slice(0, overAssigned);
+
+      transaction.update(orgRef, {
+        subscriptionStatus,
+        subscriptionPriceId,
+        gracePeriodEndsAt,
+        seatQuantity,
+        seatsAssigned: seated.length - seatsToRevoke.length,
+        'metadata.updatedAt': new Date()
+      });
+      seatsToRevoke.forEach((member: OrganizationMember) => {
+        transaction.update(adminDb.collection(MEMBERS_COLLECTION).doc(getMemberDocId(subscription.id, member.userId)), {
+          seatAssigned: false,
+          seatAssignedAt: null
+        });
+      });
+
+      return { created: false, seated, seatsToRevoke };
+    });
+
+  if (!outcome) return;
+
+  if (outcome.created) {
+    console.log('🏢 Organization created for team subscription:', { orgId: subscription.id, ownerId: owner?.userId, seatQuantity });
+    return;
+  }
+
+  const { seated, seatsToRevoke } = outcome;
+
+  // Every seated member's status follows the org subscription
+  await Promise.all(seated.map(member => invalidatePremiumStatusCache(member.userId)));
+
+  console.log('🏢 Organization synced with subscription:', {
+    orgId: subscription.id,
+    subscriptionStatus,
+    seatQuantity,
+    seatsRevoked: seatsToRevoke.map(member => member.userId)
+  });
+}
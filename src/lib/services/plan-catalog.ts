@@ -0,0 +1,125 @@
+/**
+ * Server Plan Catalog
+ *
+ * Maps Stripe price IDs to plan tiers and the entitlements that come with them. Usage
+ * limits per tier live in quota-policy.ts. Price IDs are configured per tier with comma-separated env vars so old
+ * prices keep resolving after a price change:
+ *   STRIPE_MONTHLY_PRICE_IDS, STRIPE_ANNUAL_PRICE_IDS, STRIPE_TEAM_PRICE_IDS
+ * The public NEXT_PUBLIC_STRIPE_*_PRICE_ID values are always included.
+ */
+
+import { PLAN_TIERS, type PlanTier } from '@/lib/stripe';
+import { hasPremiumAccess } from './subscription-state';
+
+export type PlanId = PlanTier | 'free';
+
+export interface PlanEntitlements {
+  premiumTasks: boolean;
+  premiumRoles: boolean;
+  customTasks: number;   // Max custom tasks, 0 = none
+  customRoles: number;
+  seatManagement: boolean;
+}
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  entitlements: PlanEntitlements;
+}
+
+const PAID_ENTITLEMENTS: PlanEntitlements = {
+  premiumTasks: true,
+  premiumRoles: true,
+  customTasks: 20,
+  customRoles: 10,
+  seatManagement: false
+};
+
+export const PLAN_CATALOG: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    entitlements: {
+      premiumTasks: false,
+      premiumRoles: false,
+      customTasks: 0,
+      customRoles: 0,
+      seatManagement: false
+    }
+  },
+  monthly: {
+    id: 'monthly',
+    name: 'Premium',
+    entitlements: PAID_ENTITLEMENTS
+  },
+  annual: {
+    id: 'annual',
+    name: 'Premium Annual',
+    entitlements: PAID_ENTITLEMENTS
+  },
+  team: {
+    id: 'team',
+    name: 'Team',
+    entitlements: { ...PAID_ENTITLEMENTS, seatManagement: true }
+  }
+};
+
+// Subscriptions on a price the catalog doesn't know predate it; they were all monthly
+const LEGACY_PAID_TIER: PlanTier = 'monthly';
+
+function parsePriceIds(...values: Array<string | undefined>): string[] {
+  return values
+    .flatMap(value => (value || '').split(','))
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+function getPriceIdsByTier(): Record<PlanTier, string[]> {
+  return {
+    monthly: parsePriceIds(
+      process.env.STRIPE_MONTHLY_PRICE_IDS,
+      process.env.NEXT_PUBLIC_STRIPE_MONTHLY_PRICE_ID,
+      process.env.NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID
+    ),
+    annual: parsePriceIds(process.env.STRIPE_ANNUAL_PRICE_IDS, process.env.NEXT_PUBLIC_STRIPE_ANNUAL_PRICE_ID),
+    team: parsePriceIds(process.env.STRIPE_TEAM_PRICE_IDS, process.env.NEXT_PUBLIC_STRIPE_TEAM_PRICE_ID)
+  };
+}
+
+/**
+ * Tier for a Stripe price ID, or null if the price isn't in the catalog
+ */
+export function getPlanTierForPrice(priceId: string | null | undefined): PlanTier | null {
+  if (!priceId) return null;
+
+  const priceIdsByTier = getPriceIdsByTier();
+  return PLAN_TIERS.find(tier => priceIdsByTier[tier].includes(priceId)) || null;
+}
+
+/**
+ * Tier to record for a paid subscription. Unknown prices fall back to the legacy tier.
+ */
+export function resolvePaidPlanTier(priceId: string | null | undefined): PlanTier {
+  const tier = getPlanTierForPrice(priceId);
+  if (!tier && priceId) {
+    console.warn('⚠️ Stripe price not in plan catalog, treating as legacy tier:', { priceId, tier: LEGACY_PAID_TIER });
+  }
+  return tier || LEGACY_PAID_TIER;
+}
+
+/**
+ * Plan that applies to a premium status result: paid plans only while the billing
+ * state grants premium access, otherwise the free plan
+ */
+export function resolvePlan(status: {
+  subscriptionStatus: string;
+  planTier?: PlanTier | null;
+  subscriptionPriceId?: string | null;
+}): PlanDefinition {
+  if (!hasPremiumAccess(status.subscriptionStatus)) {
+    return PLAN_CATALOG.free;
+  }
+
+  const tier = status.planTier || resolvePaidPlanTier(status.subscriptionPriceId);
+  return PLAN_CATALOG[tier];
+}
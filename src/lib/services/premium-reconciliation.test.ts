@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminAuthOverride, setAdminDbOverride } from '@/lib/firebase-admin';
+import { setStripeClientOverride } from '@/lib/stripe-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { createInMemoryAuth, type InMemoryAuth } from '@/lib/testing/in-memory-auth';
+import { buildStripeCustomer, buildStripeSubscription, createFakeStripeClient, type FakeStripeClient } from '@/lib/testing/stripe-fixtures';
+import { runPremiumReconciliation } from './premium-reconciliation';
+
+const OPTIONS = { dryRun: false, maxChanges: 25, lookbackHours: 24 };
+
+describe('runPremiumReconciliation', () => {
+  let db: InMemoryFirestore;
+  let auth: InMemoryAuth;
+  let stripe: FakeStripeClient;
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    auth = createInMemoryAuth();
+    stripe = createFakeStripeClient();
+    setAdminDbOverride(db);
+    setAdminAuthOverride(auth.auth);
+    setStripeClientOverride(stripe.stripe);
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+    setAdminAuthOverride(null);
+    setStripeClientOverride(null);
+  });
+
+  function seedPremiumUser(stripeSubscriptionId: string) {
+    auth.addUser({ uid: 'user_1', email: 'buyer@example.com', customClaims: { premium: true, subscriptionStatus: 'premium' } });
+    db.write('premium_users/user_1', { userId: 'user_1', subscriptionStatus: 'premium', stripeSubscriptionId }, 'set');
+    db.write('critical_conflicts/conflict_1', { userId: 'user_1', timestamp: new Date(), requiresInvestigation: true }, 'set');
+  }
+
+  it('skips a user instead of downgrading them when Stripe is unreachable', async () => {
+    seedPremiumUser('sub_outage');
+    (stripe.stripe.subscriptions as unknown as Record<string, unknown>).retrieve = async () => {
+      throw Object.assign(new Error('Request timed out'), { code: 'ETIMEDOUT' });
+    };
+
+    const report = await runPremiumReconciliation(OPTIONS);
+
+    expect(report.users[0].error).toBe('Request timed out');
+    expect(db.read('premium_users/user_1')?.subscriptionStatus).toBe('premium');
+    expect(auth.getClaims('user_1')?.premium).toBe(true);
+    expect(db.read('critical_conflicts/conflict_1')?.requiresInvestigation).toBe(true);
+  });
+
+  it('downgrades a user whose subscription no longer exists', async () => {
+    seedPremiumUser('sub_deleted');
+
+    const report = await runPremiumReconciliation(OPTIONS);
+
+    expect(report.users[0].expectedStatus).toBe('limited');
+    expect(db.read('premium_users/user_1')?.subscriptionStatus).toBe('limited');
+    expect(auth.getClaims('user_1')?.premium).toBe(false);
+  });
+
+  it('resolves conflicts for users that are already consistent', async () => {
+    const customer = buildStripeCustomer({ email: 'buyer@example.com' });
+    const subscription = buildStripeSubscription({ customer: customer.id });
+    stripe.addCustomer(customer);
+    stripe.addSubscription(subscription);
+    seedPremiumUser(subscription.id);
+
+    const report = await runPremiumReconciliation(OPTIONS);
+
+    expect(report.users[0].skippedReason).toBe('already_consistent');
+    expect(db.read('critical_conflicts/conflict_1')?.requiresInvestigation).toBe(false);
+  });
+
+  it('restores the plan tier claim for a paying user', async () => {
+    const customer = buildStripeCustomer({ email: 'buyer@example.com' });
+    const subscription = buildStripeSubscription({ customer: customer.id });
+    stripe.addCustomer(customer);
+    stripe.addSubscription(subscription);
+    seedPremiumUser(subscription.id);
+    auth.addUser({ uid: 'user_1', email: 'buyer@example.com', customClaims: { admin: true, premium: false } });
+
+    await runPremiumReconciliation(OPTIONS);
+
+    expect(auth.getClaims('user_1')).toMatchObject({ admin: true, premium: true, planTier: 'monthly' });
+  });
+
+  it('does not report a failed claims write as applied', async () => {
+    seedPremiumUser('sub_deleted');
+    auth.auth.setCustomUserClaims = async () => {
+      throw new Error('Claims backend unavailable');
+    };
+
+    const report = await runPremiumReconciliation(OPTIONS);
+
+    expect(report.users[0].error).toBe('Claims backend unavailable');
+    expect(report.users[0].changes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ store: 'premium_users', applied: true }),
+      expect.objectContaining({ store: 'custom_claims', applied: false })
+    ]));
+    expect(db.read('critical_conflicts/conflict_1')?.requiresInvestigation).toBe(true);
+  });
+});
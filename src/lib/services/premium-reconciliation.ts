@@ -0,0 +1,326 @@
+/**
+ * Premium Status Reconciliation
+ *
+ * Heals users whose premium stores disagree. Users with recent critical conflicts
+ * are re-checked against their Stripe subscription (the source of truth) and any
+ * stale premium_users, custom claims or legacy users records are rewritten.
+ * Every run, dry or not, is saved to the reconciliation_reports collection.
+ */
+
+import { adminDb, getAdminAuth } from '@/lib/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import Stripe from 'stripe';
+import { getStripe } from '@/lib/stripe-admin';
+import { getCriticalConflicts } from './premium-status-logger';
+import { invalidatePremiumStatusCache } from './premium-status-cache';
+import { getGracePeriodEndsAt, getSubscriptionStatus, setFirebaseCustomClaims } from './stripe-webhook-utils';
+import { verifyStripeIdentifier } from './premium-sources/shared';
+import { hasPremiumAccess, type BillingSubscriptionStatus } from './subscription-state';
+import { resolvePaidPlanTier } from './plan-catalog';
+
+export interface ReconciliationOptions {
+  dryRun: boolean;
+  maxChanges: number;   // Stop writing once this many store changes have been applied
+  lookbackHours: number;
+}
+
+export interface ReconciliationChange {
+  store: 'premium_users' | 'custom_claims' | 'users_collection';
+  before: string | null;
+  after: BillingSubscriptionStatus;
+  applied: boolean;
+}
+
+export interface ReconciliationUserResult {
+  userId: string;
+  stripeSubscriptionId: string | null;
+  stripeStatus: string | null;
+  expectedStatus: BillingSubscriptionStatus;
+  changes: ReconciliationChange[];
+  skippedReason?: string;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  reportId?: string;
+  startedAt: Date;
+  finishedAt: Date;
+  dryRun: boolean;
+  maxChanges: number;
+  lookbackHours: number;
+  usersScanned: number;
+  usersReconciled: number;
+  changesPlanned: number;
+  changesApplied: number;
+  capReached: boolean;
+  users: ReconciliationUserResult[];
+}
+
+interface UserStores {
+  premiumUser: FirebaseFirestore.DocumentData | null;
+  claims: Record<string, unknown> | null;
+  legacyUser: FirebaseFirestore.DocumentData | null;
+}
+
+/**
+ * Run one reconciliation pass over users with recent conflicts
+ */
+export async function runPremiumReconciliation(options: ReconciliationOptions): Promise<ReconciliationReport> {
+  const startedAt = new Date();
+  const conflicts = await getCriticalConflicts(options.lookbackHours);
+
+  // Group conflict log entries by user so each user is reconciled once
+  const conflictIdsByUser = new Map<string, string[]>();
+  for (const conflict of conflicts) {
+    if (!conflict.userId || conflict.userId === 'unknown') continue;
+    const ids = conflictIdsByUser.get(conflict.userId) || [];
+    ids.push(conflict.id);
+    conflictIdsByUser.set(conflict.userId, ids);
+  }
+
+  console.log(`🩺 Reconciling ${conflictIdsByUser.size} users with recent conflicts`, {
+    dryRun: options.dryRun,
+    maxChanges: options.maxChanges
+  });
+
+  const users: ReconciliationUserResult[] = [];
+  let changesApplied = 0;
+  let capReached = false;
+
+  for (const [userId, conflictIds] of conflictIdsByUser) {
+    if (!options.dryRun && changesApplied >= options.maxChanges) {
+      capReached = true;
+      users.push({
+        userId,
+        stripeSubscriptionId: null,
+        stripeStatus: null,
+        expectedStatus: 'limited',
+        changes: [],
+        skippedReason: 'change_cap_reached'
+      });
+      continue;
+    }
+
+    try {
+      const result = await reconcileUser(userId, options, options.maxChanges - changesApplied);
+      changesApplied += result.changes.filter(c => c.applied).length;
+
+      // Consistent users are resolved too, so they aren't rescanned every run
+      if (!options.dryRun && !result.error && (!result.skippedReason || result.skippedReason === 'already_consistent')) {
+        await markConflictsReconciled(conflictIds);
+      }
+
+      users.push(result);
+    } catch (error) {
+      console.error('❌ Failed to reconcile user:', userId, error);
+      users.push({
+        userId,
+        stripeSubscriptionId: null,
+        stripeStatus: null,
+        expectedStatus: 'limited',
+        changes: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const report: ReconciliationReport = {
+    startedAt,
+    finishedAt: new Date(),
+    dryRun: options.dryRun,
+    maxChanges: options.maxChanges,
+    lookbackHours: options.lookbackHours,
+    usersScanned: conflictIdsByUser.size,
+    usersReconciled: users.filter(u => u.changes.some(c => c.applied)).length,
+    changesPlanned: users.reduce((sum, u) => sum + u.changes.length, 0),
+    changesApplied,
+    capReached,
+    users
+  };
+
+  try {
+    const reportRef = await adminDb.collection('reconciliation_reports').add({
+      ...report,
+      createdAt: FieldValue.serverTimestamp()
+    });
+    report.reportId = reportRef.id;
+  } catch (error) {
+    console.error('Failed to save reconciliation report:', error);
+  }
+
+  console.log('✅ Reconciliation finished:', {
+    reportId: report.reportId,
+    usersScanned: report.usersScanned,
+    changesPlanned: report.changesPlanned,
+    changesApplied: report.changesApplied,
+    capReached: report.capReached
+  });
+
+  return report;
+}
+
+/**
+ * Compare one user's stores against Stripe and rewrite the stale ones
+ */
+async function reconcileUser(
+  userId: string,
+  options: ReconciliationOptions,
+  remainingChanges: number
+): Promise<ReconciliationUserResult> {
+  const stores = await loadUserStores(userId);
+  const subscription = await findStripeSubscription(stores);
+
+  const expectedStatus: BillingSubscriptionStatus = subscription ? getSubscriptionStatus(subscription) : 'limited';
+  const expectedAccess = hasPremiumAccess(expectedStatus);
+  const result: ReconciliationUserResult = {
+    userId,
+    stripeSubscriptionId: subscription?.id || null,
+    stripeStatus: subscription?.status || null,
+    expectedStatus,
+    changes: []
+  };
+
+  const premiumUserStatus = stores.premiumUser?.subscriptionStatus || null;
+  if (stores.premiumUser && premiumUserStatus !== expectedStatus) {
+    result.changes.push({ store: 'premium_users', before: premiumUserStatus, after: expectedStatus, applied: false });
+  }
+
+  const claimsPremium = stores.claims?.premium === true || stores.claims?.stripeRole === 'premium';
+  if (stores.claims && claimsPremium !== expectedAccess) {
+    result.changes.push({
+      store: 'custom_claims',
+      before: (stores.claims.subscriptionStatus as string) || (claimsPremium ? 'premium' : null),
+      after: expectedStatus,
+      applied: false
+    });
+  }
+
+  const legacyStatus = stores.legacyUser?.subscriptionStatus || null;
+  if (legacyStatus === 'premium' && !expectedAccess) {
+    result.changes.push({ store: 'users_collection', before: legacyStatus, after: expectedStatus, applied: false });
+  }
+
+  if (result.changes.length === 0) {
+    result.skippedReason = 'already_consistent';
+    return result;
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  // The cap never splits a user: either all of their changes fit or none are applied.
+  // The writes themselves run one by one; if one fails the rest are skipped, the report
+  // shows which landed, and the user's conflicts stay open for the next run.
+  if (result.changes.length > remainingChanges) {
+    result.skippedReason = 'change_cap_reached';
+    return result;
+  }
+
+  const now = new Date();
+  const stripeCustomerId = subscription ? subscription.customer as string : stores.premiumUser?.stripeCustomerId || null;
+
+  try {
+    for (const change of result.changes) {
+      if (change.store === 'premium_users') {
+        await adminDb.collection('premium_users').doc(userId).update({
+          subscriptionStatus: expectedStatus,
+          stripeSubscriptionId: subscription?.id || stores.premiumUser?.stripeSubscriptionId || null,
+          gracePeriodEndsAt: subscription ? getGracePeriodEndsAt(subscription) : null,
+          'metadata.updatedAt': now,
+          'metadata.reconciledAt': now
+        });
+      } else if (change.store === 'custom_claims') {
+        // Throws on failure so a claims write that didn't land is never reported as applied
+        await setFirebaseCustomClaims(
+          userId,
+          expectedStatus,
+          stripeCustomerId || undefined,
+          subscription?.id,
+          subscription ? getGracePeriodEndsAt(subscription) : null,
+          resolvePaidPlanTier(subscription?.items.data[0]?.price.id || null)
+        );
+      } else {
+        await adminDb.collection('users').doc(userId).update({
+          subscriptionStatus: expectedStatus,
+          updatedAt: now
+        });
+      }
+      change.applied = true;
+    }
+  } catch (error) {
+    console.error('❌ Reconciliation write failed for user:', userId, error);
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  await invalidatePremiumStatusCache(userId);
+  console.log('🔧 Reconciled premium stores for user:', userId, result.changes.map(c => `${c.store}:${c.before}→${c.after}`));
+
+  return result;
+}
+
+async function loadUserStores(userId: string): Promise<UserStores> {
+  const [premiumUserDoc, legacyUserDoc] = await Promise.all([
+    adminDb.collection('premium_users').doc(userId).get(),
+    adminDb.collection('users').doc(userId).get()
+  ]);
+
+  let claims: Record<string, unknown> | null = null;
+  try {
+    const userRecord = await getAdminAuth().getUser(userId);
+    claims = userRecord.customClaims || {};
+  } catch (error) {
+    console.warn('⚠️ Could not load custom claims for reconciliation:', userId, error);
+  }
+
+  return {
+    premiumUser: premiumUserDoc.exists ? premiumUserDoc.data() : null,
+    claims,
+    legacyUser: legacyUserDoc.exists ? legacyUserDoc.data() : null
+  };
+}
+
+/**
+ * Find the user's Stripe subscription, ignoring test/manual/fake identifiers
+ */
+async function findStripeSubscription(stores: UserStores): Promise<Stripe.Subscription | null> {
+  const stripe = getStripe();
+
+  const subscriptionIds = [
+    stores.premiumUser?.stripeSubscriptionId,
+    stores.claims?.stripeSubscriptionId as string | undefined
+  ].filter((id): id is string => !!id && verifyStripeIdentifier(id, 'missing_subscription_id').trusted);
+
+  for (const subscriptionId of new Set(subscriptionIds)) {
+    try {
+      return await stripe.subscriptions.retrieve(subscriptionId);
+    } catch (error) {
+      // Only a deleted subscription means "none"; outages and timeouts skip the user
+      if ((error as { code?: string } | null)?.code !== 'resource_missing') throw error;
+      console.warn('⚠️ Stripe subscription no longer exists:', subscriptionId);
+    }
+  }
+
+  // Fall back to the customer's most recent subscription
+  const customerId = stores.premiumUser?.stripeCustomerId || stores.claims?.stripeCustomerId as string | undefined;
+  if (customerId && verifyStripeIdentifier(customerId, 'missing_customer_id').trusted) {
+    const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 1 });
+    return subscriptions.data[0] || null;
+  }
+
+  return null;
+}
+
+async function markConflictsReconciled(conflictIds: string[]): Promise<void> {
+  const batch = adminDb.batch();
+  const now = new Date();
+
+  conflictIds.forEach(id => {
+    batch.update(adminDb.collection('critical_conflicts').doc(id), {
+      requiresInvestigation: false,
+      reconciledAt: now
+    });
+  });
+
+  await batch.commit();
+}
@@ -0,0 +1,200 @@
+/**
+ * Premium Registration Service
+ *
+ * Registers premium users from a completed Stripe checkout. The caller only names the
+ * Checkout Session (or subscription); the subscription and its status are fetched from
+ * Stripe and must belong to the signed-in user, so a browser can't grant itself premium.
+ *
+ * Every registration, verified or manual, is recorded in premium_registrations and the
+ * latest one is kept on the premium_users record as `provenance`.
+ */
+
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebase-admin';
+import { getStripe } from '@/lib/stripe-admin';
+import { invalidatePremiumStatusCache } from './premium-status-cache';
+import type { BillingSubscriptionStatus } from './subscription-state';
+import {
+  createOrUpdatePremiumUser,
+  extractSubscriptionData,
+  getGracePeriodEndsAt,
+  getSubscriptionStatus
+} from './stripe-webhook-utils';
+
+export type PremiumRegistrationMethod = 'stripe_checkout' | 'stripe_subscription' | 'admin_manual' | 'admin_update';
+
+export type CheckoutVerificationErrorCode =
+  | 'CHECKOUT_NOT_FOUND'
+  | 'CHECKOUT_INCOMPLETE'
+  | 'SUBSCRIPTION_NOT_FOUND'
+  | 'NOT_SUBSCRIPTION_OWNER';
+
+export const CHECKOUT_VERIFICATION_STATUS: Record<CheckoutVerificationErrorCode, number> = {
+  CHECKOUT_NOT_FOUND: 404,
+  CHECKOUT_INCOMPLETE: 409,
+  SUBSCRIPTION_NOT_FOUND: 404,
+  NOT_SUBSCRIPTION_OWNER: 403
+};
+
+export interface PremiumRegistrationProvenance {
+  method: PremiumRegistrationMethod;
+  actor: string;                      // uid of the user, or the admin ID for manual changes
+  checkoutSessionId: string | null;
+  stripeSubscriptionId: string | null;
+  stripeStatus: string | null;        // Subscription status as Stripe reported it
+  reason: string | null;              // Admin-supplied justification for manual changes
+  ipAddress: string | null;
+  recordedAt: Date;
+}
+
+export type CheckoutRegistrationResult =
+  | {
+      success: true;
+      subscriptionStatus: BillingSubscriptionStatus;
+      stripeCustomerId: string;
+      stripeSubscriptionId: string;
+      subscriptionEndDate: Date;
+      provenance: PremiumRegistrationProvenance;
+    }
+  | { success: false; code: CheckoutVerificationErrorCode; message: string };
+
+function getStripeId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+function isMissingResource(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'resource_missing';
+}
+
+/**
+ * Whether a Stripe customer belongs to the user, via the Stripe extension's customers
+ * collection or the customer's metadata
+ */
+async function isCustomerOwnedBy(customerId: string, userId: string): Promise<boolean> {
+  const customerDoc = await adminDb.collection('customers').doc(userId).get();
+  if (customerDoc.exists && customerDoc.data()?.stripeId === customerId) {
+    return true;
+  }
+
+  const customer = await getStripe().customers.retrieve(customerId);
+  if (customer.deleted) return false;
+  return customer.metadata?.firebaseUID === userId || customer.metadata?.userId === userId;
+}
+
+/**
+ * Append a registration to premium_registrations and stamp it on the premium_users record
+ */
+export async function recordPremiumRegistration({
+  userId,
+  subscriptionStatus,
+  provenance
+}: {
+  userId: string;
+  subscriptionStatus: string | null;
+  provenance: PremiumRegistrationProvenance;
+}): Promise<void> {
+  await Promise.all([
+    adminDb.collection('premium_registrations').add({ userId, subscriptionStatus, ...provenance }),
+    adminDb.collection('premium_users').doc(userId).set({ provenance }, { merge: true })
+  ]);
+  console.log(`🧾 Premium registration recorded for ${userId}:`, { method: provenance.method, actor: provenance.actor, subscriptionStatus });
+}
+
+/**
+ * Register a user from a Checkout Session or subscription they own. Status, dates and
+ * Stripe IDs all come from Stripe; nothing in the request is trusted beyond the IDs.
+ */
+export async function registerPremiumFromCheckout({
+  userId,
+  email,
+  checkoutSessionId,
+  subscriptionId,
+  ipAddress = null,
+  now = new Date()
+}: {
+  userId: string;
+  email: string;
+  checkoutSessionId?: string | null;
+  subscriptionId?: string | null;
+  ipAddress?: string | null;
+  now?: Date;
+}): Promise<CheckoutRegistrationResult> {
+  const stripe = getStripe();
+  let subscription: Stripe.Subscription;
+  let customerId: string | null;
+
+  try {
+    if (checkoutSessionId) {
+      const session = await stripe.checkout.sessions.retrieve(checkoutSessionId, { expand: ['subscription'] });
+
+      if (session.mode !== 'subscription' || session.status !== 'complete' || !session.subscription) {
+        return { success: false, code: 'CHECKOUT_INCOMPLETE', message: 'This checkout has not completed a subscription yet' };
+      }
+
+      customerId = getStripeId(session.customer);
+      const ownedBySession = session.client_reference_id === userId || session.metadata?.userId === userId;
+      if (!ownedBySession && !(customerId && await isCustomerOwnedBy(customerId, userId))) {
+        return { success: false, code: 'NOT_SUBSCRIPTION_OWNER', message: 'This checkout belongs to a different account' };
+      }
+
+      subscription = typeof session.subscription === 'string'
+        ? await stripe.subscriptions.retrieve(session.subscription)
+        : session.subscription;
+    } else {
+      subscription = await stripe.subscriptions.retrieve(subscriptionId!);
+      customerId = getStripeId(subscription.customer);
+
+      if (!customerId || !await isCustomerOwnedBy(customerId, userId)) {
+        return { success: false, code: 'NOT_SUBSCRIPTION_OWNER', message: 'This subscription belongs to a different account' };
+      }
+    }
+  } catch (error) {
+    if (isMissingResource(error)) {
+      return checkoutSessionId
+        ? { success: false, code: 'CHECKOUT_NOT_FOUND', message: 'Checkout session not found' }
+        : { success: false, code: 'SUBSCRIPTION_NOT_FOUND', message: 'Subscription not found' };
+    }
+    throw error;
+  }
+
+  const stripeCustomerId = customerId || getStripeId(subscription.customer)!;
+  const subscriptionStatus = getSubscriptionStatus(subscription);
+  const subscriptionData = extractSubscriptionData(subscription);
+  const method: PremiumRegistrationMethod = checkoutSessionId ? 'stripe_checkout' : 'stripe_subscription';
+
+  await createOrUpdatePremiumUser({
+    userId,
+    email,
+    subscriptionStatus,
+    stripeCustomerId,
+    stripeSubscriptionId: subscription.id,
+    gracePeriodEndsAt: getGracePeriodEndsAt(subscription),
+    ...subscriptionData,
+    source: method
+  });
+
+  const provenance: PremiumRegistrationProvenance = {
+    method,
+    actor: userId,
+    checkoutSessionId: checkoutSessionId || null,
+    stripeSubscriptionId: subscription.id,
+    stripeStatus: subscription.status,
+    reason: null,
+    ipAddress,
+    recordedAt: now
+  };
+  await recordPremiumRegistration({ userId, subscriptionStatus, provenance });
+  await invalidatePremiumStatusCache(userId);
+
+  console.log('✅ Premium registration verified with Stripe:', { userId, subscriptionId: subscription.id, subscriptionStatus });
+
+  return {
+    success: true,
+    subscriptionStatus,
+    stripeCustomerId,
+    stripeSubscriptionId: subscription.id,
+    subscriptionEndDate: subscriptionData.subscriptionEndDate,
+    provenance
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Firebase custom claims source
+ */
+
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+import type { PremiumSourceContext, PremiumStatusSource } from './types';
+import { createNotFoundResult, verifyStripeIdentifier } from './shared';
+import { resolveGraceStatus } from '../subscription-state';
+import { isPlanTier } from '@/lib/stripe';
+
+// Paid states a premium claim can carry; anything else is reported as plain premium
+const CLAIM_BILLING_STATUSES = ['premium', 'grace', 'canceled_at_period_end'] as const;
+
+/**
+ * Check Firebase custom claims
+ */
+async function checkCustomClaims(
+  { userId, email }: PremiumStatusRequest,
+  { auth }: PremiumSourceContext
+): Promise<PremiumStatusResult> {
+  if (!userId) {
+    return createNotFoundResult(userId, email);
+  }
+
+  const userRecord = await auth.getUser(userId);
+  const customClaims = userRecord.customClaims || {};
+
+  if (customClaims.stripeRole === 'premium' || customClaims.premium === true) {
+    const billingStatus = CLAIM_BILLING_STATUSES.find(status => status === customClaims.subscriptionStatus) || 'premium';
+    const gracePeriodEndsAt = customClaims.gracePeriodEndsAt ? new Date(customClaims.gracePeriodEndsAt) : null;
+
+    return {
+      found: true,
+      userId,
+      email: email || userRecord.email || null,
+      subscriptionStatus: resolveGraceStatus(billingStatus, gracePeriodEndsAt),
+      subscriptionEndDate: null,
+      gracePeriodEndsAt,
+      deviceRegistered: false,
+      source: 'custom_claims',
+      confidence: 80,
+      stripeCustomerId: customClaims.stripeCustomerId || null,
+      stripeSubscriptionId: customClaims.stripeSubscriptionId || null,
+      planTier: isPlanTier(customClaims.planTier) ? customClaims.planTier : null
+    };
+  }
+
+  return createNotFoundResult(userId, email);
+}
+
+export const customClaimsSource: PremiumStatusSource = {
+  name: 'custom_claims',
+  priority: 80,
+  timeoutMs: 3000,
+  check: checkCustomClaims,
+  // Must have valid Stripe subscription ID
+  validatePremium: (result) => verifyStripeIdentifier(result.stripeSubscriptionId, 'missing_subscription_id')
+};
@@ -0,0 +1,62 @@
+/**
+ * Legacy users collection source
+ */
+
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+import type { PremiumSourceContext, PremiumStatusSource } from './types';
+import { createNotFoundResult } from './shared';
+
+/**
+ * Check legacy users collection by userId, falling back to email
+ */
+async function checkLegacyUsersCollection(
+  { userId, email }: PremiumStatusRequest,
+  { db }: PremiumSourceContext
+): Promise<PremiumStatusResult> {
+  if (userId) {
+    const userDoc = await db.collection('users').doc(userId).get();
+    const userData = userDoc.exists ? userDoc.data() : null;
+
+    if (userData?.subscriptionStatus === 'premium') {
+      return {
+        found: true,
+        userId: userId,
+        email: userData.email || email || '',
+        subscriptionStatus: 'premium',
+        subscriptionEndDate: userData.subscriptionEndDate ? new Date(userData.subscriptionEndDate) : null,
+        deviceRegistered: false,
+        source: 'users_collection',
+        confidence: 40
+      };
+    }
+  }
+
+  // Email lookup in users collection (last resort)
+  if (email) {
+    const querySnapshot = await db.collection('users').where('email', '==', email).limit(1).get();
+    const userData = querySnapshot.empty ? null : querySnapshot.docs[0].data();
+
+    if (userData?.subscriptionStatus === 'premium') {
+      return {
+        found: true,
+        userId: userData.userId || userId || null,
+        email: email,
+        subscriptionStatus: 'premium',
+        subscriptionEndDate: userData.subscriptionEndDate ? new Date(userData.subscriptionEndDate) : null,
+        deviceRegistered: false,
+        source: 'users_collection',
+        confidence: 40
+      };
+    }
+  }
+
+  return createNotFoundResult(userId, email);
+}
+
+// No trust rules: the legacy collection is client-writable and never trusted on its own
+export const legacyUsersSource: PremiumStatusSource = {
+  name: 'users_collection',
+  priority: 40,
+  timeoutMs: 3000,
+  check: checkLegacyUsersCollection
+};
@@ -0,0 +1,82 @@
+/**
+ * Organization membership source: members holding a seat on a team subscription
+ */
+
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+import type { PremiumSourceContext, PremiumStatusSource } from './types';
+import { createNotFoundResult, verifyStripeIdentifier } from './shared';
+import { hasPremiumAccess, resolveGraceStatus } from '../subscription-state';
+
+/**
+ * Find a seated membership for the user and report the org's billing state
+ */
+async function checkOrganizationMembership(
+  { userId, email }: PremiumStatusRequest,
+  { db }: PremiumSourceContext
+): Promise<PremiumStatusResult> {
+  if (!userId) {
+    return createNotFoundResult(userId, email);
+  }
+
+  const membershipSnapshot = await db.collection('organization_members')
+    .where('userId', '==', userId)
+    .where('seatAssigned', '==', true)
+    .get();
+
+  if (membershipSnapshot.empty) {
+    return createNotFoundResult(userId, email);
+  }
+
+  const orgDocs = await Promise.all(
+    membershipSnapshot.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) =>
+      db.collection('organizations').doc(doc.data().orgId).get()
+    )
+  );
+
+  // A member of several orgs takes the first one whose subscription still grants access
+  const organizations = orgDocs
+    .filter((doc: FirebaseFirestore.DocumentSnapshot) => doc.exists)
+    .map((doc: FirebaseFirestore.DocumentSnapshot) => {
+      const data = doc.data()!;
+      const gracePeriodEndsAt = data.gracePeriodEndsAt?.toDate ? data.gracePeriodEndsAt.toDate() : null;
+      return {
+        orgId: doc.id,
+        data,
+        gracePeriodEndsAt,
+        subscriptionStatus: resolveGraceStatus(data.subscriptionStatus || 'limited', gracePeriodEndsAt)
+      };
+    });
+
+  const organization = organizations.find((org: { subscriptionStatus: string }) =>
+    hasPremiumAccess(org.subscriptionStatus)
+  ) || organizations[0];
+
+  if (!organization) {
+    return createNotFoundResult(userId, email);
+  }
+
+  return {
+    found: true,
+    userId,
+    email: email || null,
+    subscriptionStatus: organization.subscriptionStatus,
+    subscriptionEndDate: null,
+    gracePeriodEndsAt: organization.gracePeriodEndsAt,
+    deviceRegistered: false,
+    source: 'org_membership',
+    confidence: 90,
+    stripeCustomerId: organization.data.stripeCustomerId || null,
+    stripeSubscriptionId: organization.data.stripeSubscriptionId || null,
+    subscriptionPriceId: organization.data.subscriptionPriceId || null,
+    planTier: 'team'
+  };
+}
+
+export const orgMembershipSource: PremiumStatusSource = {
+  name: 'org_membership',
+  priority: 90,
+  timeoutMs: 5000,
+  check: checkOrganizationMembership,
+  // Org must be backed by a real Stripe subscription
+  validatePremium: (result) => verifyStripeIdentifier(result.stripeSubscriptionId, 'missing_subscription_id')
+};
@@ -0,0 +1,95 @@
+/**
+ * premium_users collection source (primary source)
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+import type { PremiumSourceContext, PremiumStatusSource } from './types';
+import { createNotFoundResult, verifyStripeIdentifier } from './shared';
+import { resolveGraceStatus } from '../subscription-state';
+import { isPlanTier } from '@/lib/stripe';
+
+/**
+ * Check premium_users collection by userId, falling back to email
+ */
+async function checkPremiumUsersCollection(
+  { userId, email, deviceFingerprint }: PremiumStatusRequest,
+  { db }: PremiumSourceContext
+): Promise<PremiumStatusResult> {
+  let premiumUserDoc;
+
+  // First try to find by userId
+  if (userId) {
+    premiumUserDoc = await db.collection('premium_users').doc(userId).get();
+  }
+
+  // If not found and we have email, try to find by email
+  if (!premiumUserDoc?.exists && email) {
+    const emailQuery = await db.collection('premium_users')
+      .where('email', '==', email)
+      .limit(1)
+      .get();
+
+    if (!emailQuery.empty) {
+      premiumUserDoc = emailQuery.docs[0];
+    }
+  }
+
+  if (!premiumUserDoc?.exists) {
+    return createNotFoundResult(userId, email);
+  }
+
+  const data = premiumUserDoc.data();
+
+  // Update last access time
+  await premiumUserDoc.ref.update({
+    'metadata.lastAccess': new Date(),
+    'metadata.updatedAt': new Date()
+  });
+
+  // Check if device is registered
+  const deviceRegistered = deviceFingerprint ?
+    !!data.deviceFingerprints?.[deviceFingerprint] : false;
+
+  const gracePeriodEndsAt = toDate(data.gracePeriodEndsAt);
+
+  return {
+    found: true,
+    userId: data.userId,
+    email: data.email,
+    subscriptionStatus: resolveGraceStatus(data.subscriptionStatus || 'limited', gracePeriodEndsAt),
+    subscriptionEndDate: data.subscriptionEndDate ? new Date(data.subscriptionEndDate) : null,
+    gracePeriodEndsAt,
+    subscriptionStartDate: data.subscriptionStartDate ? new Date(data.subscriptionStartDate) : null,
+    stripeCustomerId: data.stripeCustomerId,
+    stripeSubscriptionId: data.stripeSubscriptionId,
+    subscriptionPriceId: data.subscriptionPriceId || null,
+    planTier: isPlanTier(data.planTier) ? data.planTier : null,
+    deviceRegistered,
+    source: 'premium_users',
+    confidence: 100,
+    metadata: {
+      lastAccess: new Date(),
+      createdAt: data.metadata?.createdAt,
+      updatedAt: new Date()
+    }
+  };
+}
+
+/**
+ * Firestore hands stored Dates back as Timestamps
+ */
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (value instanceof Timestamp) return value.toDate();
+  return new Date(value as string | number | Date);
+}
+
+export const premiumUsersSource: PremiumStatusSource = {
+  name: 'premium_users',
+  priority: 100,
+  timeoutMs: 5000,
+  check: checkPremiumUsersCollection,
+  // Must have valid Stripe customer ID (not test data)
+  validatePremium: (result) => verifyStripeIdentifier(result.stripeCustomerId, 'missing_customer_id')
+};
@@ -0,0 +1,119 @@
+/**
+ * Premium Status Source Registry
+ *
+ * Holds the sources getPremiumStatus consults. Built-in sources are registered
+ * on load; deployments can add their own with registerPremiumStatusSource() or
+ * switch sources off with PREMIUM_STATUS_DISABLED_SOURCES (comma-separated names).
+ */
+
+import { adminDb, getAdminAuth } from '@/lib/firebase-admin';
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+import type { PremiumSourceContext, PremiumStatusSource } from './types';
+import { premiumUsersSource } from './premium-users';
+import { orgMembershipSource } from './org-membership';
+import { customClaimsSource } from './custom-claims';
+import { stripeCustomersSource } from './stripe-customers';
+import { legacyUsersSource } from './legacy-users';
+
+const sources = new Map<string, PremiumStatusSource>();
+
+/**
+ * Register a source. Re-registering an existing name requires `replace`.
+ */
+export function registerPremiumStatusSource(
+  source: PremiumStatusSource,
+  options: { replace?: boolean } = {}
+): void {
+  if (sources.has(source.name) && !options.replace) {
+    throw new Error(`Premium status source already registered: ${source.name}`);
+  }
+
+  sources.set(source.name, { enabled: true, ...source });
+}
+
+export function unregisterPremiumStatusSource(name: string): boolean {
+  return sources.delete(name);
+}
+
+/**
+ * Turn a registered source on or off at runtime
+ */
+export function setPremiumStatusSourceEnabled(name: string, enabled: boolean): void {
+  const source = sources.get(name);
+  if (!source) {
+    throw new Error(`Unknown premium status source: ${name}`);
+  }
+
+  sources.set(name, { ...source, enabled });
+}
+
+export function getPremiumStatusSource(name: string): PremiumStatusSource | undefined {
+  return sources.get(name);
+}
+
+/**
+ * Enabled sources, highest priority first
+ */
+export function getEnabledPremiumStatusSources(): PremiumStatusSource[] {
+  const disabledByEnv = (process.env.PREMIUM_STATUS_DISABLED_SOURCES || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return Array.from(sources.values())
+    .filter(source => source.enabled !== false && !disabledByEnv.includes(source.name))
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Priority used by conflict resolution; unknown sources rank lowest
+ */
+export function getSourcePriority(name: string): number {
+  return sources.get(name)?.priority || 0;
+}
+
+/**
+ * Default context backed by the Firebase Admin clients
+ */
+export function createDefaultSourceContext(): PremiumSourceContext {
+  return {
+    db: adminDb,
+    get auth() {
+      return getAdminAuth();
+    }
+  };
+}
+
+/**
+ * Run a single source, rejecting if it exceeds its timeout
+ */
+export async function runPremiumStatusSource(
+  source: PremiumStatusSource,
+  request: PremiumStatusRequest,
+  context: PremiumSourceContext
+): Promise<PremiumStatusResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Premium status source ${source.name} timed out after ${source.timeoutMs}ms`)),
+      source.timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([source.check(request, context), timeout]);
+  } catch (error) {
+    console.warn(`Failed to check premium status source ${source.name}:`, error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Built-in sources
+registerPremiumStatusSource(premiumUsersSource);
+registerPremiumStatusSource(orgMembershipSource);
+registerPremiumStatusSource(customClaimsSource);
+registerPremiumStatusSource(stripeCustomersSource);
+registerPremiumStatusSource(legacyUsersSource);
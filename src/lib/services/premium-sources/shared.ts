@@ -0,0 +1,41 @@
+/**
+ * Shared helpers for premium status source adapters
+ */
+
+import type { PremiumStatusResult } from '../premium-status';
+import type { PremiumTrustVerdict } from './types';
+
+const SUSPICIOUS_STRIPE_ID_PATTERNS = ['test', 'manual', 'fake'];
+
+/**
+ * Helper function to create not found result
+ */
+export function createNotFoundResult(userId?: string | null, email?: string | null): PremiumStatusResult {
+  return {
+    found: false,
+    userId: userId || null,
+    email: email || null,
+    subscriptionStatus: 'restricted', // Block access for unknown users
+    subscriptionEndDate: null,
+    deviceRegistered: false,
+    source: 'not_found',
+    confidence: 0
+  };
+}
+
+/**
+ * Reject missing Stripe identifiers and ones written by test/manual upgrade tooling
+ */
+export function verifyStripeIdentifier(value: string | null | undefined, missingReason: string): PremiumTrustVerdict {
+  if (!value) {
+    return { trusted: false, reason: missingReason };
+  }
+
+  for (const pattern of SUSPICIOUS_STRIPE_ID_PATTERNS) {
+    if (value.includes(pattern)) {
+      return { trusted: false, reason: `${pattern}_stripe_id` };
+    }
+  }
+
+  return { trusted: true };
+}
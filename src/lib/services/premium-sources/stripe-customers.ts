@@ -0,0 +1,48 @@
+/**
+ * Firebase Stripe Extension customers collection source
+ */
+
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+import type { PremiumSourceContext, PremiumStatusSource } from './types';
+import { createNotFoundResult } from './shared';
+
+/**
+ * Check Stripe Extension customers collection
+ */
+async function checkStripeExtensionCustomers(
+  { userId, email }: PremiumStatusRequest,
+  { db }: PremiumSourceContext
+): Promise<PremiumStatusResult> {
+  if (!userId) {
+    return createNotFoundResult(userId, email);
+  }
+
+  const customerDoc = await db.collection('customers').doc(userId).get();
+
+  if (customerDoc.exists) {
+    const customerData = customerDoc.data();
+    const subscriptionStatus = customerData?.stripeRole === 'premium' ? 'premium' : 'limited';
+
+    return {
+      found: subscriptionStatus === 'premium',
+      userId,
+      email: email || customerData?.email || null,
+      subscriptionStatus,
+      subscriptionEndDate: null,
+      deviceRegistered: false,
+      source: 'customers_collection',
+      confidence: 70,
+      stripeCustomerId: customerData?.stripeId || null
+    };
+  }
+
+  return createNotFoundResult(userId, email);
+}
+
+// No trust rules: premium from the extension mirror only counts when corroborated
+export const stripeCustomersSource: PremiumStatusSource = {
+  name: 'customers_collection',
+  priority: 60,
+  timeoutMs: 3000,
+  check: checkStripeExtensionCustomers
+};
@@ -0,0 +1,37 @@
+/**
+ * Premium Status Source Types
+ *
+ * Contract every premium status source adapter implements so the resolver in
+ * premium-status.ts can fan out to them without knowing where the data lives.
+ */
+
+import type { Auth } from 'firebase-admin/auth';
+import type { adminDb } from '@/lib/firebase-admin';
+import type { PremiumStatusRequest, PremiumStatusResult } from '../premium-status';
+
+/**
+ * Dependencies handed to each adapter. Tests can pass a fake Firestore/Auth pair
+ * instead of the real admin clients.
+ */
+export interface PremiumSourceContext {
+  db: typeof adminDb;
+  auth: Auth;
+}
+
+/**
+ * Outcome of a source's trust rules for a premium result
+ */
+export interface PremiumTrustVerdict {
+  trusted: boolean;
+  reason?: string;
+}
+
+export interface PremiumStatusSource {
+  name: string;
+  priority: number; // Higher number wins conflict resolution
+  timeoutMs: number;
+  enabled?: boolean; // Defaults to true
+  check: (request: PremiumStatusRequest, context: PremiumSourceContext) => Promise<PremiumStatusResult>;
+  // Premium results from sources without trust rules are never accepted
+  validatePremium?: (result: PremiumStatusResult) => PremiumTrustVerdict;
+}
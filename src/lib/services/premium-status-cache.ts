@@ -0,0 +1,150 @@
+/**
+ * Premium Status Cache
+ *
+ * Read-through cache in front of getPremiumStatus for hot paths like the session
+ * heartbeat. Entries are keyed by userId and live in Vercel KV when it is configured,
+ * otherwise in process memory. Writers (Stripe webhooks, premium registration) must
+ * call invalidatePremiumStatusCache() so upgrades show up on the next heartbeat.
+ */
+
+import { kv } from '@vercel/kv';
+import { getPremiumStatus, type PremiumStatusRequest, type PremiumStatusResult } from './premium-status';
+
+const CACHE_PREFIX = 'premium_status:';
+const DEFAULT_TTL_SECONDS = 60;
+
+interface PremiumStatusCacheStore {
+  get(key: string): Promise<PremiumStatusResult | null>;
+  set(key: string, value: PremiumStatusResult, ttlSeconds: number): Promise<void>;
+  del(key: string): Promise<void>;
+}
+
+const kvStore: PremiumStatusCacheStore = {
+  async get(key) {
+    return kv.get<PremiumStatusResult>(key);
+  },
+  async set(key, value, ttlSeconds) {
+    await kv.set(key, value, { ex: ttlSeconds });
+  },
+  async del(key) {
+    await kv.del(key);
+  }
+};
+
+// Values are stored serialized so cached Dates come back as strings, same as from KV
+const memoryEntries = new Map<string, { value: string; expiresAt: number }>();
+
+const memoryStore: PremiumStatusCacheStore = {
+  async get(key) {
+    const entry = memoryEntries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      memoryEntries.delete(key);
+      return null;
+    }
+
+    return JSON.parse(entry.value);
+  },
+  async set(key, value, ttlSeconds) {
+    memoryEntries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: Date.now() + ttlSeconds * 1000
+    });
+  },
+  async del(key) {
+    memoryEntries.delete(key);
+  }
+};
+
+function getCacheStore(): PremiumStatusCacheStore {
+  const hasKv = !!process.env.KV_REST_API_URL && !!process.env.KV_REST_API_TOKEN;
+  return hasKv ? kvStore : memoryStore;
+}
+
+function getCacheTtlSeconds(): number {
+  const configured = parseInt(process.env.PREMIUM_STATUS_CACHE_TTL_SECONDS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TTL_SECONDS;
+}
+
+function cacheKey(userId: string): string {
+  return `${CACHE_PREFIX}${userId}`;
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+/**
+ * Restore Date fields lost to JSON serialization
+ */
+function reviveCachedResult(cached: PremiumStatusResult): PremiumStatusResult {
+  return {
+    ...cached,
+    subscriptionEndDate: toDate(cached.subscriptionEndDate),
+    subscriptionStartDate: toDate(cached.subscriptionStartDate),
+    gracePeriodEndsAt: toDate(cached.gracePeriodEndsAt),
+    metadata: cached.metadata ? {
+      lastAccess: toDate(cached.metadata.lastAccess) || undefined,
+      createdAt: toDate(cached.metadata.createdAt) || undefined,
+      updatedAt: toDate(cached.metadata.updatedAt) || undefined
+    } : undefined,
+    decisionTrace: cached.decisionTrace ? {
+      ...cached.decisionTrace,
+      evaluatedAt: toDate(cached.decisionTrace.evaluatedAt) || new Date()
+    } : undefined
+  };
+}
+
+/**
+ * Get premium status, serving from cache when possible.
+ * Note: deviceRegistered reflects the device of the request that filled the entry.
+ */
+export async function getCachedPremiumStatus(request: PremiumStatusRequest): Promise<PremiumStatusResult> {
+  const { userId } = request;
+
+  // Email-only lookups aren't cacheable because invalidation is keyed by userId
+  if (!userId) {
+    return getPremiumStatus(request);
+  }
+
+  const store = getCacheStore();
+  const key = cacheKey(userId);
+
+  try {
+    const cached = await store.get(key);
+    if (cached) {
+      console.log('⚡ Premium status cache hit:', userId);
+      return reviveCachedResult(cached);
+    }
+  } catch (error) {
+    console.warn('⚠️ Premium status cache read failed, falling back to live lookup:', error);
+  }
+
+  const result = await getPremiumStatus(request);
+
+  // Never cache error results - the next request should retry the sources
+  if (result.source !== 'error') {
+    try {
+      await store.set(key, result, getCacheTtlSeconds());
+    } catch (error) {
+      console.warn('⚠️ Premium status cache write failed:', error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drop the cached premium status for a user
+ */
+export async function invalidatePremiumStatusCache(userId: string | null | undefined): Promise<void> {
+  if (!userId) return;
+
+  try {
+    await getCacheStore().del(cacheKey(userId));
+    console.log('🧹 Premium status cache invalidated:', userId);
+  } catch (error) {
+    console.warn('⚠️ Failed to invalidate premium status cache (non-critical):', error);
+  }
+}
@@ -7,6 +7,7 @@
 
 import { adminDb } from '@/lib/firebase-admin';
 import { FieldValue } from 'firebase-admin/firestore';
+import type { PremiumStatusResult } from './premium-status';
 
 export interface PremiumStatusLogEntry {
   timestamp: Date;
@@ -15,7 +16,7 @@ export interface PremiumStatusLogEntry {
   deviceFingerprint?: string;
   sessionId?: string;
   action: 'status_check' | 'session_create' | 'heartbeat_refresh' | 'webhook_process' | 'conflict_detected';
-  subscriptionStatus: 'premium' | 'limited' | 'anonymous';
+  subscriptionStatus: PremiumStatusResult['subscriptionStatus'];
   source: string;
   confidence?: number;
   conflictDetected?: boolean;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatAuthStatusResponse, formatPremiumStatusResponse, type PremiumStatusResult } from './premium-status';
+
+const LIMITED_DAILY_MS = 60 * 60 * 1000;
+
+function statusResult(subscriptionStatus: PremiumStatusResult['subscriptionStatus']): PremiumStatusResult {
+  return {
+    found: true,
+    userId: 'user_1',
+    email: 'buyer@example.com',
+    subscriptionStatus,
+    subscriptionEndDate: null,
+    deviceRegistered: true,
+    source: 'premium_users',
+    confidence: 95
+  };
+}
+
+describe('premium status responses', () => {
+  it.each(['premium', 'grace', 'canceled_at_period_end'] as const)('gives %s users paid access', status => {
+    expect(formatPremiumStatusResponse(statusResult(status), LIMITED_DAILY_MS)).toMatchObject({
+      dailyTimeRemaining: -1,
+      features: { unlimitedTime: true, knowledgeBase: true, priority: true }
+    });
+    expect(formatAuthStatusResponse(statusResult(status), LIMITED_DAILY_MS)).toMatchObject({
+      subscriptionStatus: status,
+      canUse: true,
+      timeRemaining: -1,
+      hasKnowledgeBase: true
+    });
+  });
+
+  it('keeps past_due users on the free allowance', () => {
+    expect(formatPremiumStatusResponse(statusResult('past_due'), LIMITED_DAILY_MS)).toMatchObject({
+      dailyTimeRemaining: LIMITED_DAILY_MS,
+      features: { unlimitedTime: false }
+    });
+    expect(formatAuthStatusResponse(statusResult('past_due'), LIMITED_DAILY_MS)).toMatchObject({
+      subscriptionStatus: 'past_due',
+      canUse: true,
+      reason: 'limited_daily_access',
+      timeRemaining: LIMITED_DAILY_MS
+    });
+  });
+});
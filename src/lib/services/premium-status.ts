@@ -3,11 +3,21 @@
  * 
  * Single source of truth for premium status checking across all API endpoints.
  * Consolidates logic from multiple authentication endpoints to eliminate code duplication.
+ * The individual data sources live in ./premium-sources and are looked up through the registry.
  */
 
-import { adminDb } from '@/lib/firebase-admin';
-import { getAuth } from 'firebase-admin/auth';
 import { logPremiumStatusCheck, logCriticalConflict } from './premium-status-logger';
+import { hasPremiumAccess } from './subscription-state';
+import { resolvePlan, type PlanDefinition } from './plan-catalog';
+import type { PlanTier } from '@/lib/stripe';
+import type { PremiumSourceContext, PremiumTrustVerdict } from './premium-sources/types';
+import {
+  createDefaultSourceContext,
+  getEnabledPremiumStatusSources,
+  getPremiumStatusSource,
+  getSourcePriority,
+  runPremiumStatusSource
+} from './premium-sources/registry';
 
 export interface PremiumStatusRequest {
   userId?: string;
@@ -15,17 +25,30 @@ export interface PremiumStatusRequest {
   deviceFingerprint?: string;
 }
 
+// Built-in source names; registered adapters may add their own
+export type PremiumStatusSourceName =
+  | 'premium_users'
+  | 'org_membership'
+  | 'custom_claims'
+  | 'customers_collection'
+  | 'users_collection'
+  | (string & {});
+
 export interface PremiumStatusResult {
   found: boolean;
   userId: string | null;
   email: string | null;
-  subscriptionStatus: 'premium' | 'limited' | 'restricted' | 'anonymous';
+  subscriptionStatus: 'premium' | 'limited' | 'restricted' | 'anonymous' | 'past_due' | 'grace' | 'canceled_at_period_end';
   subscriptionEndDate: Date | null;
+  gracePeriodEndsAt?: Date | null; // Set while a failed payment is in its grace window
   deviceRegistered: boolean;
-  source: 'premium_users' | 'custom_claims' | 'customers_collection' | 'users_collection' | 'not_found' | 'error' | 'conflict_resolved';
+  source: PremiumStatusSourceName | 'not_found' | 'error' | 'conflict_resolved' | 'validated_restricted';
   stripeCustomerId?: string | null;
   stripeSubscriptionId?: string | null;
+  subscriptionPriceId?: string | null;
   subscriptionStartDate?: Date | null;
+  planTier?: PlanTier | null; // Paid tier recorded by the webhook, if the source knows it
+  plan?: PlanDefinition; // Resolved through the plan catalog; free unless premium access applies
   confidence: number; // 0-100, indicates confidence in the result
   conflictDetected?: boolean;
   conflictSources?: string[];
@@ -34,29 +57,76 @@ export interface PremiumStatusResult {
     createdAt?: Date;
     updatedAt?: Date;
   };
+  decisionTrace?: PremiumStatusDecisionTrace;
+}
+
+/**
+ * What a single source reported and whether the resolver used it
+ */
+export interface PremiumStatusSourceTrace {
+  source: string;
+  priority: number;
+  outcome: 'found' | 'not_found' | 'failed';
+  subscriptionStatus?: PremiumStatusResult['subscriptionStatus'];
+  stripeCustomerId?: string | null;
+  stripeSubscriptionId?: string | null;
+  rejected: boolean;
+  rejectionReason?: string; // e.g. test_stripe_id, missing_subscription_id, untrusted_source, lower_priority
+  error?: string;
+}
+
+export type PremiumStatusDecisionRule =
+  | 'missing_identifier'
+  | 'no_source_found'
+  | 'single_source_trusted_premium'
+  | 'single_source_untrusted_premium'
+  | 'single_source_non_premium'
+  | 'conflict_no_valid_premium'
+  | 'conflict_valid_premium'
+  | 'highest_priority_source';
+
+/**
+ * Explains how getPremiumStatus arrived at its answer
+ */
+export interface PremiumStatusDecisionTrace {
+  rule: PremiumStatusDecisionRule;
+  chosenSource: string | null;
+  sources: PremiumStatusSourceTrace[];
+  evaluatedAt: Date;
 }
 
 /**
  * Check premium status using consolidated multi-source validation with conflict resolution
  * This replaces all duplicate validation logic across API endpoints
  */
-export async function getPremiumStatus(request: PremiumStatusRequest): Promise<PremiumStatusResult> {
+export async function getPremiumStatus(
+  request: PremiumStatusRequest,
+  context: PremiumSourceContext = createDefaultSourceContext()
+): Promise<PremiumStatusResult> {
   const { userId, email, deviceFingerprint } = request;
 
   // Require at least userId or email
   if (!userId && !email) {
-    return createErrorResult('MISSING_IDENTIFIER', 'Either userId or email is required');
+    return {
+      ...createErrorResult('MISSING_IDENTIFIER', 'Either userId or email is required'),
+      decisionTrace: { rule: 'missing_identifier', chosenSource: null, sources: [], evaluatedAt: new Date() }
+    };
   }
 
   console.log('🔍 Premium status check for:', { userId, email, deviceFingerprint });
 
-  // Check ALL sources simultaneously for conflict detection
-  const sourceResults = await Promise.allSettled([
-    checkPremiumUsersCollection({ userId, email, deviceFingerprint }),
-    checkCustomClaims({ userId, email }),
-    checkStripeExtensionCustomers({ userId, email }),
-    checkLegacyUsersCollection({ userId, email })
-  ]);
+  // Check ALL enabled sources simultaneously for conflict detection
+  const sources = getEnabledPremiumStatusSources();
+  const sourceResults = await Promise.allSettled(
+    sources.map(source => runPremiumStatusSource(source, { userId, email, deviceFingerprint }, context))
+  );
+
+  const trace: PremiumStatusDecisionTrace = {
+    rule: 'no_source_found',
+    chosenSource: null,
+    sources: sourceResults.map((settled, index) => createSourceTrace(sources[index].name, settled)),
+    evaluatedAt: new Date()
+  };
 
   // Extract successful results
   const validResults = sourceResults
@@ -70,6 +140,7 @@ export async function getPremiumStatus(request: PremiumStatusRequest): Promise<P
   if (validResults.length === 0) {
     // No premium status found anywhere - default to restricted to block access
     console.log('ℹ️ No premium status found in any source, defaulting to restricted');
+    trace.rule = 'no_source_found';
     finalResult = {
       found: false,
       userId: userId || null,
@@ -84,12 +155,14 @@ export async function getPremiumStatus(request: PremiumStatusRequest): Promise<P
     // Single source found - validate if it's premium status
     const result = validResults[0];
     
-    if (result.subscriptionStatus === 'premium') {
+    if (hasPremiumAccess(result.subscriptionStatus)) {
       // SECURITY: Validate premium status even from single source
-      const isValidPremium = validatePremiumStatus(result);
+      const verdict = getPremiumTrustVerdict(result);
       
-      if (!isValidPremium) {
+      if (!verdict.trusted) {
         console.log('🔒 SECURITY: Invalid premium status from single source, defaulting to restricted');
+        trace.rule = 'single_source_untrusted_premium';
+        markSourceRejected(trace, result.source, verdict.reason);
         finalResult = {
           found: false,
           userId: result.userId,
@@ -102,19 +175,31 @@ export async function getPremiumStatus(request: PremiumStatusRequest): Promise<P
         };
       } else {
         console.log('✅ Validated premium status from single source:', result.source);
+        trace.rule = 'single_source_trusted_premium';
+        trace.chosenSource = result.source;
         finalResult = { ...result, confidence: 95 };
       }
     } else {
-      // Non-premium status (limited/restricted) doesn't need validation
+      // Non-premium status (limited/restricted/past_due) doesn't need validation
       console.log('✅ Single source non-premium status found:', result.source, result.subscriptionStatus);
+      trace.rule = 'single_source_non_premium';
+      trace.chosenSource = result.source;
       finalResult = { ...result, confidence: 95 };
     }
   } else {
     // Multiple sources found - need conflict resolution
     console.log('⚠️ Conflict detected between sources:', validResults.map(r => r.source));
-    finalResult = await resolveConflicts(validResults, { userId, email, deviceFingerprint });
+    finalResult = await resolveConflicts(validResults, { userId, email, deviceFingerprint }, trace);
   }
 
+  const plan = resolvePlan(finalResult);
+  finalResult = {
+    ...finalResult,
+    planTier: plan.id === 'free' ? null : plan.id,
+    plan,
+    decisionTrace: trace
+  };
+
   // Log the premium status check for debugging
   await logPremiumStatusCheck({
     timestamp: new Date(),
@@ -130,6 +215,8 @@ export async function getPremiumStatus(request: PremiumStatusRequest): Promise<P
     metadata: {
       sourcesChecked: sourceResults.length,
       validSources: validResults.length,
+      decisionRule: trace.rule,
+      plan: plan.id,
       requestContext: 'getPremiumStatus'
     }
   });
@@ -140,48 +227,83 @@ export async function getPremiumStatus(request: PremiumStatusRequest): Promise<P
 /**
  * Validate premium status to ensure it's not from test/fake data
  */
-function validatePremiumStatus(result: PremiumStatusResult): boolean {
-  // Only trust premium status from authoritative sources
-  if (result.source === 'premium_users') {
-    // Must have valid Stripe customer ID (not test data)
-    if (!result.stripeCustomerId) return false;
-    if (result.stripeCustomerId.includes('test')) return false;
-    if (result.stripeCustomerId.includes('manual')) return false;
-    if (result.stripeCustomerId.includes('fake')) return false;
-    return true;
+function getPremiumTrustVerdict(result: PremiumStatusResult): PremiumTrustVerdict {
+  // Only trust premium status from sources that declare trust rules
+  const source = getPremiumStatusSource(result.source);
+  if (!source?.validatePremium) {
+    return { trusted: false, reason: 'untrusted_source' };
   }
-  
-  if (result.source === 'custom_claims') {
-    // Must have valid Stripe subscription ID
-    if (!result.stripeSubscriptionId) return false;
-    if (result.stripeSubscriptionId.includes('test')) return false;
-    if (result.stripeSubscriptionId.includes('manual')) return false;
-    if (result.stripeSubscriptionId.includes('fake')) return false;
-    return true;
+
+  return source.validatePremium(result);
+}
+
+/**
+ * Build the trace entry for one settled source check
+ */
+function createSourceTrace(
+  sourceName: string,
+  settled: PromiseSettledResult<PremiumStatusResult>
+): PremiumStatusSourceTrace {
+  const priority = getSourcePriority(sourceName);
+
+  if (settled.status === 'rejected') {
+    return {
+      source: sourceName,
+      priority,
+      outcome: 'failed',
+      rejected: true,
+      rejectionReason: 'source_error',
+      error: settled.reason instanceof Error ? settled.reason.message : String(settled.reason)
+    };
   }
-  
-  // Don't trust premium status from other sources without validation
-  return false;
+
+  const result = settled.value;
+  return {
+    source: sourceName,
+    priority,
+    outcome: result.found ? 'found' : 'not_found',
+    subscriptionStatus: result.found ? result.subscriptionStatus : undefined,
+    stripeCustomerId: result.stripeCustomerId,
+    stripeSubscriptionId: result.stripeSubscriptionId,
+    rejected: false
+  };
+}
+
+/**
+ * Record why a source's answer was not used (first reason wins)
+ */
+function markSourceRejected(trace: PremiumStatusDecisionTrace, sourceName: string, reason?: string): void {
+  const entry = trace.sources.find(s => s.source === sourceName);
+  if (entry && !entry.rejected) {
+    entry.rejected = true;
+    entry.rejectionReason = reason;
+  }
+}
+
+/**
+ * Mark every found source other than the chosen one as rejected
+ */
+function markOthersRejected(trace: PremiumStatusDecisionTrace, results: PremiumStatusResult[], chosen: PremiumStatusResult, reason: string): void {
+  trace.chosenSource = chosen.source;
+  results
+    .filter(r => r !== chosen)
+    .forEach(r => markSourceRejected(trace, r.source, reason));
 }
 
 /**
  * Resolve conflicts between multiple data sources
- * Priority order: premium_users > custom_claims > customers_collection > users_collection
+ * Priority comes from the source registry (premium_users > org_membership > custom_claims > customers_collection > users_collection)
  */
-async function resolveConflicts(results: PremiumStatusResult[], request: PremiumStatusRequest): Promise<PremiumStatusResult> {
+async function resolveConflicts(
+  results: PremiumStatusResult[],
+  request: PremiumStatusRequest,
+  trace: PremiumStatusDecisionTrace
+): Promise<PremiumStatusResult> {
   const { userId, email, deviceFingerprint } = request;
   
-  // Define source priority (higher number = higher priority)
-  const sourcePriority = {
-    'premium_users': 100,
-    'custom_claims': 80,
-    'customers_collection': 60,
-    'users_collection': 40
-  };
-
-  // Check for subscription status conflicts
-  const premiumResults = results.filter(r => r.subscriptionStatus === 'premium');
-  const limitedResults = results.filter(r => r.subscriptionStatus === 'limited');
+  // Check for subscription status conflicts (grace and canceled_at_period_end still count as premium)
+  const premiumResults = results.filter(r => hasPremiumAccess(r.subscriptionStatus));
+  const limitedResults = results.filter(r => r.subscriptionStatus === 'limited' || r.subscriptionStatus === 'past_due');
   
   if (premiumResults.length > 0 && limitedResults.length > 0) {
     // SECURITY: Conflict between premium and limited status - use secure resolution
@@ -193,17 +315,23 @@ async function resolveConflicts(results: PremiumStatusResult[], request: Premium
     });
     
     // SECURITY FIX: Validate premium claims before accepting them
-    const validPremiumResults = premiumResults.filter(result => validatePremiumStatus(result));
+    const validPremiumResults = premiumResults.filter(result => {
+      const verdict = getPremiumTrustVerdict(result);
+      if (!verdict.trusted) {
+        markSourceRejected(trace, result.source, verdict.reason);
+      }
+      return verdict.trusted;
+    });
     
     if (validPremiumResults.length === 0) {
       // No valid premium status found - default to restricted for security
       const bestNonPremiumResult = limitedResults.reduce((best, current) => {
-        const currentPriority = sourcePriority[current.source as keyof typeof sourcePriority] || 0;
-        const bestPriority = sourcePriority[best.source as keyof typeof sourcePriority] || 0;
-        return currentPriority > bestPriority ? current : best;
+        return getSourcePriority(current.source) > getSourcePriority(best.source) ? current : best;
       });
 
       console.log('🔒 SECURITY: No valid premium claims found, defaulting to restricted');
+      trace.rule = 'conflict_no_valid_premium';
+      markOthersRejected(trace, results, bestNonPremiumResult, 'lower_priority');
       
       await logCriticalConflict({
         userId: userId || 'unknown',
@@ -236,12 +364,13 @@ async function resolveConflicts(results: PremiumStatusResult[], request: Premium
     
     // Valid premium status found - use highest priority valid result
     const bestValidPremiumResult = validPremiumResults.reduce((best, current) => {
-      const currentPriority = sourcePriority[current.source as keyof typeof sourcePriority] || 0;
-      const bestPriority = sourcePriority[best.source as keyof typeof sourcePriority] || 0;
-      return currentPriority > bestPriority ? current : best;
+      return getSourcePriority(current.source) > getSourcePriority(best.source) ? current : best;
     });
     
     console.log('✅ Valid premium status found from:', bestValidPremiumResult.source);
+    trace.rule = 'conflict_valid_premium';
+    limitedResults.forEach(r => markSourceRejected(trace, r.source, 'overridden_by_valid_premium'));
+    markOthersRejected(trace, results, bestValidPremiumResult, 'lower_priority');
     
     await logCriticalConflict({
       userId: userId || 'unknown',
@@ -273,12 +402,12 @@ async function resolveConflicts(results: PremiumStatusResult[], request: Premium
   
   // No premium/limited conflict - choose highest priority source
   const bestResult = results.reduce((best, current) => {
-    const currentPriority = sourcePriority[current.source as keyof typeof sourcePriority] || 0;
-    const bestPriority = sourcePriority[best.source as keyof typeof sourcePriority] || 0;
-    return currentPriority > bestPriority ? current : best;
+    return getSourcePriority(current.source) > getSourcePriority(best.source) ? current : best;
   });
   
   console.log('✅ Multiple sources agree - using highest priority:', bestResult.source);
+  trace.rule = 'highest_priority_source';
+  markOthersRejected(trace, results, bestResult, 'lower_priority');
   
   return {
     ...bestResult,
@@ -288,238 +417,10 @@ async function resolveConflicts(results: PremiumStatusResult[], request: Premium
   };
 }
 
-/**
- * Check premium_users collection (primary source)
- */
-async function checkPremiumUsersCollection({ userId, email, deviceFingerprint }: PremiumStatusRequest): Promise<PremiumStatusResult> {
-  try {
-    let premiumUserDoc;
-
-    // First try to find by userId
-    if (userId) {
-      premiumUserDoc = await adminDb.collection('premium_users').doc(userId).get();
-    }
-
-    // If not found and we have email, try to find by email
-    if (!premiumUserDoc?.exists && email) {
-      const emailQuery = await adminDb.collection('premium_users')
-        .where('email', '==', email)
-        .limit(1)
-        .get();
-      
-      if (!emailQuery.empty) {
-        premiumUserDoc = emailQuery.docs[0];
-      }
-    }
-
-    if (premiumUserDoc?.exists) {
-      const data = premiumUserDoc.data();
-      
-      // Update last access time
-      await premiumUserDoc.ref.update({
-        'metadata.lastAccess': new Date(),
-        'metadata.updatedAt': new Date()
-      });
-
-      // Check if device is registered
-      const deviceRegistered = deviceFingerprint ? 
-        !!data.deviceFingerprints?.[deviceFingerprint] : false;
-
-      return {
-        found: true,
-        userId: data.userId,
-        email: data.email,
-        subscriptionStatus: data.subscriptionStatus || 'limited',
-        subscriptionEndDate: data.subscriptionEndDate ? new Date(data.subscriptionEndDate) : null,
-        subscriptionStartDate: data.subscriptionStartDate ? new Date(data.subscriptionStartDate) : null,
-        stripeCustomerId: data.stripeCustomerId,
-        stripeSubscriptionId: data.stripeSubscriptionId,
-        deviceRegistered,
-        source: 'premium_users',
-        metadata: {
-          lastAccess: new Date(),
-          createdAt: data.metadata?.createdAt,
-          updatedAt: new Date()
-        }
-      };
-    }
-
-    return createNotFoundResult(userId, email);
-
-  } catch (error) {
-    console.error('Error checking premium_users collection:', error);
-    return createErrorResult('PREMIUM_USERS_ERROR', error);
-  }
-}
-
-/**
- * Check fallback sources for backward compatibility
- */
-async function checkFallbackSources({ userId, email }: PremiumStatusRequest): Promise<PremiumStatusResult> {
-  // 1. Check Firebase custom claims (primary fallback)
-  if (userId) {
-    const customClaimsResult = await checkFirebaseCustomClaims(userId, email);
-    if (customClaimsResult.found) return customClaimsResult;
-  }
-
-  // 2. Check Firebase Stripe Extension customers collection
-  if (userId) {
-    const customersResult = await checkCustomersCollection(userId, email);
-    if (customersResult.found) return customersResult;
-  }
-
-  // 3. Check legacy users collection
-  if (userId) {
-    const usersResult = await checkLegacyUsersCollection(userId, email);
-    if (usersResult.found) return usersResult;
-  }
-
-  // 4. Email lookup in users collection (last resort)
-  if (email) {
-    const emailResult = await checkUsersByEmail(email);
-    if (emailResult.found) return emailResult;
-  }
-
-  return createNotFoundResult(userId, email);
-}
-
-/**
- * Check Firebase custom claims
- */
-async function checkFirebaseCustomClaims(userId: string, email?: string): Promise<PremiumStatusResult> {
-  try {
-    const auth = getAuth();
-    const userRecord = await auth.getUser(userId);
-    const customClaims = userRecord.customClaims || {};
-    
-    if (customClaims.stripeRole === 'premium' || customClaims.premium === true || customClaims.subscriptionStatus === 'premium') {
-      return {
-        found: true,
-        userId: userId,
-        email: userRecord.email || email || '',
-        subscriptionStatus: 'premium',
-        subscriptionEndDate: customClaims.subscriptionEndDate ? new Date(customClaims.subscriptionEndDate * 1000) : null,
-        subscriptionStartDate: customClaims.subscriptionStartDate ? new Date(customClaims.subscriptionStartDate * 1000) : null,
-        stripeCustomerId: customClaims.stripeCustomerId,
-        stripeSubscriptionId: customClaims.stripeSubscriptionId,
-        deviceRegistered: false,
-        source: 'custom_claims'
-      };
-    }
-
-    return createNotFoundResult(userId, email);
-  } catch (error) {
-    console.warn('Failed to check custom claims:', error);
-    return createNotFoundResult(userId, email);
-  }
-}
-
-/**
- * Check Firebase Stripe Extension customers collection
- */
-async function checkCustomersCollection(userId: string, email?: string): Promise<PremiumStatusResult> {
-  try {
-    const subscriptionsSnapshot = await adminDb
-      .collection('customers')
-      .doc(userId)
-      .collection('subscriptions')
-      .where('status', 'in', ['active', 'trialing'])
-      .get();
-    
-    if (!subscriptionsSnapshot.empty) {
-      return {
-        found: true,
-        userId: userId,
-        email: email || '',
-        subscriptionStatus: 'premium',
-        subscriptionEndDate: null,
-        deviceRegistered: false,
-        source: 'customers_collection'
-      };
-    }
-
-    return createNotFoundResult(userId, email);
-  } catch (error) {
-    console.warn('Failed to check customers collection:', error);
-    return createNotFoundResult(userId, email);
-  }
-}
-
-/**
- * Check legacy users collection by userId
- */
-async function checkLegacyUsersCollection(userId: string, email?: string): Promise<PremiumStatusResult> {
-  try {
-    const userDoc = await adminDb.collection('users').doc(userId).get();
-    if (userDoc.exists) {
-      const userData = userDoc.data();
-      if (userData?.subscriptionStatus === 'premium') {
-        return {
-          found: true,
-          userId: userId,
-          email: userData.email || email || '',
-          subscriptionStatus: 'premium',
-          subscriptionEndDate: userData.subscriptionEndDate ? new Date(userData.subscriptionEndDate) : null,
-          deviceRegistered: false,
-          source: 'users_collection'
-        };
-      }
-    }
-
-    return createNotFoundResult(userId, email);
-  } catch (error) {
-    console.warn('Failed to check users collection:', error);
-    return createNotFoundResult(userId, email);
-  }
-}
-
-/**
- * Check legacy users collection by email
- */
-async function checkUsersByEmail(email: string): Promise<PremiumStatusResult> {
-  try {
-    const querySnapshot = await adminDb.collection('users').where('email', '==', email).limit(1).get();
-    if (!querySnapshot.empty) {
-      const userData = querySnapshot.docs[0].data();
-      if (userData?.subscriptionStatus === 'premium') {
-        return {
-          found: true,
-          userId: userData.userId || null,
-          email: email,
-          subscriptionStatus: 'premium',
-          subscriptionEndDate: userData.subscriptionEndDate ? new Date(userData.subscriptionEndDate) : null,
-          deviceRegistered: false,
-          source: 'users_collection'
-        };
-      }
-    }
-
-    return createNotFoundResult(null, email);
-  } catch (error) {
-    console.warn('Failed to lookup user by email:', error);
-    return createNotFoundResult(null, email);
-  }
-}
-
-/**
- * Helper function to create not found result
- */
-function createNotFoundResult(userId?: string | null, email?: string | null): PremiumStatusResult {
-  return {
-    found: false,
-    userId: userId || null,
-    email: email || null,
-    subscriptionStatus: 'restricted', // Block access for unknown users
-    subscriptionEndDate: null,
-    deviceRegistered: false,
-    source: 'not_found'
-  };
-}
-
 /**
  * Helper function to create error result
  */
-function createErrorResult(code: string, error: any): PremiumStatusResult {
+function createErrorResult(code: string, error: unknown): PremiumStatusResult {
   console.error(`Premium status error [${code}]:`, error);
   return {
     found: false,
@@ -528,86 +429,18 @@ function createErrorResult(code: string, error: any): PremiumStatusResult {
     subscriptionStatus: 'restricted', // Block access on errors for security
     subscriptionEndDate: null,
     deviceRegistered: false,
-    source: 'error'
+    source: 'error',
+    confidence: 0
   };
 }
 
 /**
- * Check Firebase custom claims
- */
-async function checkCustomClaims({ userId, email }: PremiumStatusRequest): Promise<PremiumStatusResult> {
-  if (!userId) {
-    return createNotFoundResult(userId, email);
-  }
-
-  try {
-    const auth = getAuth();
-    const userRecord = await auth.getUser(userId);
-    const customClaims = userRecord.customClaims || {};
-
-    if (customClaims.stripeRole === 'premium' || customClaims.premium === true) {
-      return {
-        found: true,
-        userId,
-        email: email || userRecord.email || null,
-        subscriptionStatus: 'premium',
-        subscriptionEndDate: null,
-        deviceRegistered: false,
-        source: 'custom_claims',
-        confidence: 80,
-        stripeCustomerId: customClaims.stripeCustomerId || null,
-        stripeSubscriptionId: customClaims.stripeSubscriptionId || null
-      };
-    }
-
-    return createNotFoundResult(userId, email);
-  } catch (error) {
-    console.warn('Failed to check custom claims:', error);
-    return createNotFoundResult(userId, email);
-  }
-}
-
-/**
- * Check Stripe Extension customers collection
- */
-async function checkStripeExtensionCustomers({ userId, email }: PremiumStatusRequest): Promise<PremiumStatusResult> {
-  if (!userId) {
-    return createNotFoundResult(userId, email);
-  }
-
-  try {
-    const customerDoc = await adminDb.collection('customers').doc(userId).get();
-    
-    if (customerDoc.exists) {
-      const customerData = customerDoc.data();
-      const subscriptionStatus = customerData?.stripeRole === 'premium' ? 'premium' : 'limited';
-      
-      return {
-        found: subscriptionStatus === 'premium',
-        userId,
-        email: email || customerData?.email || null,
-        subscriptionStatus,
-        subscriptionEndDate: null,
-        deviceRegistered: false,
-        source: 'customers_collection',
-        confidence: 70,
-        stripeCustomerId: customerData?.stripeId || null
-      };
-    }
-
-    return createNotFoundResult(userId, email);
-  } catch (error) {
-    console.warn('Failed to check customers collection:', error);
-    return createNotFoundResult(userId, email);
-  }
-}
-
-
-/**
- * Format premium status result for API responses
+ * Format premium status result for API responses. limitedDailyMs is the limited
+ * tier's daily allowance from its quota policy.
  */
-export function formatPremiumStatusResponse(result: PremiumStatusResult) {
-  const dailyTimeRemaining = result.subscriptionStatus === 'premium' ? -1 : 3600000; // 1 hour for limited users
+export function formatPremiumStatusResponse(result: PremiumStatusResult, limitedDailyMs: number) {
+  const premiumAccess = hasPremiumAccess(result.subscriptionStatus);
+  const dailyTimeRemaining = premiumAccess ? -1 : limitedDailyMs;
 
   return {
     success: true,
@@ -621,9 +454,9 @@ export function formatPremiumStatusResponse(result: PremiumStatusResult) {
     stripeCustomerId: result.stripeCustomerId,
     stripeSubscriptionId: result.stripeSubscriptionId,
     features: {
-      unlimitedTime: result.subscriptionStatus === 'premium',
-      knowledgeBase: result.subscriptionStatus === 'premium',
-      priority: result.subscriptionStatus === 'premium'
+      unlimitedTime: premiumAccess,
+      knowledgeBase: premiumAccess,
+      priority: premiumAccess
     },
     source: result.source,
     metadata: result.metadata
@@ -633,13 +466,13 @@ export function formatPremiumStatusResponse(result: PremiumStatusResult) {
 /**
  * Legacy support for auth-status endpoint response format
  */
-export function formatAuthStatusResponse(result: PremiumStatusResult) {
+export function formatAuthStatusResponse(result: PremiumStatusResult, limitedDailyMs: number) {
   const subscriptionStatus = result.subscriptionStatus;
 
-  // Premium users
-  if (subscriptionStatus === 'premium') {
+  // Premium users, including grace and cancel-at-period-end while access lasts
+  if (hasPremiumAccess(subscriptionStatus)) {
     return {
-      subscriptionStatus: 'premium',
+      subscriptionStatus,
       canUse: true,
       reason: 'premium_unlimited',
       timeRemaining: -1, // Unlimited
@@ -648,13 +481,13 @@ export function formatAuthStatusResponse(result: PremiumStatusResult) {
     };
   }
 
-  // Limited users (daily free activation)
-  if (subscriptionStatus === 'limited') {
+  // Limited users (daily free activation); past_due users are back on the free allowance
+  if (subscriptionStatus === 'limited' || subscriptionStatus === 'past_due') {
     return {
-      subscriptionStatus: 'limited',
+      subscriptionStatus,
       canUse: true,
       reason: 'limited_daily_access',
-      timeRemaining: 3600000, // 1 hour
+      timeRemaining: limitedDailyMs,
       hasKnowledgeBase: false,
       requiresSubscription: false
     };
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { solvePowChallenge } from '@/lib/proof-of-work';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { getPowDifficulty, issuePowChallenge, verifyPowSolution } from './proof-of-work';
+
+describe('proof-of-work challenges', () => {
+  const previousEnv = { ...process.env };
+  const now = new Date('2025-03-10T12:00:00.000Z');
+  const subject = 'device:fingerprint_a';
+
+  beforeEach(() => {
+    setAdminDbOverride(new InMemoryFirestore());
+    process.env.POW_SECRET = 'pow-secret';
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+    process.env = { ...previousEnv };
+  });
+
+  async function solvedChallenge(difficulty = 8) {
+    const challenge = issuePowChallenge({ scope: 'session_start', subject, difficulty, now });
+    return { challenge: challenge.challenge, nonce: await solvePowChallenge(challenge) };
+  }
+
+  it('accepts a solved challenge once', async () => {
+    const solved = await solvedChallenge();
+
+    expect(await verifyPowSolution({ scope: 'session_start', subject, ...solved, now })).toEqual({ valid: true });
+    expect(await verifyPowSolution({ scope: 'session_start', subject, ...solved, now })).toMatchObject({ valid: false, code: 'POW_REUSED' });
+  });
+
+  it('refuses a challenge issued to another subject or scope', async () => {
+    const solved = await solvedChallenge();
+
+    expect(await verifyPowSolution({ scope: 'session_start', subject: 'device:fingerprint_b', ...solved, now })).toMatchObject({ code: 'POW_INVALID' });
+    expect(await verifyPowSolution({ scope: 'signup', subject, ...solved, now })).toMatchObject({ code: 'POW_INVALID' });
+  });
+
+  it('refuses a tampered difficulty', async () => {
+    const { challenge, nonce } = await solvedChallenge();
+    const [encodedPayload, signature] = challenge.split('.');
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    const forged = `${Buffer.from(JSON.stringify({ ...payload, d: 0 })).toString('base64url')}.${signature}`;
+
+    expect(await verifyPowSolution({ scope: 'session_start', subject, challenge: forged, nonce, now })).toMatchObject({ code: 'POW_INVALID' });
+  });
+
+  it('refuses an expired challenge', async () => {
+    const solved = await solvedChallenge();
+    const later = new Date(now.getTime() + 10 * 60 * 1000);
+
+    expect(await verifyPowSolution({ scope: 'session_start', subject, ...solved, now: later })).toMatchObject({ code: 'POW_EXPIRED' });
+  });
+
+  it('refuses an oversized nonce without spending the challenge', async () => {
+    const solved = await solvedChallenge();
+
+    const result = await verifyPowSolution({ scope: 'session_start', subject, challenge: solved.challenge, nonce: 'x'.repeat(10_000), now });
+    expect(result).toMatchObject({ valid: false, code: 'POW_INVALID', message: 'Proof-of-work nonce is too long' });
+    expect(await verifyPowSolution({ scope: 'session_start', subject, ...solved, now })).toEqual({ valid: true });
+  });
+
+  it('raises difficulty as the request count doubles past the threshold', () => {
+    expect(getPowDifficulty(5)).toBe(14);
+    expect(getPowDifficulty(10)).toBe(16);
+    expect(getPowDifficulty(20)).toBe(18);
+    expect(getPowDifficulty(10_000)).toBe(20);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Proof-of-Work Challenges
+ *
+ * Makes abuse-prone endpoints (session start, daily-use activation, signup) cost CPU
+ * once a client starts hammering them. A challenge is a signed token:
+ *
+ *   base64url(payload).base64url(HMAC-SHA256(POW_SECRET, payload))
+ *
+ * where the payload names the endpoint scope, the subject it was issued to (hashed
+ * device fingerprint, or IP), its difficulty and its expiry. A solved challenge is
+ * spent in pow_challenges/{id}, so each one is accepted once.
+ *
+ * Difficulty (leading zero bits) starts at POW_BASE_DIFFICULTY and climbs two bits
+ * every time the subject's request count over the last 10 minutes doubles past
+ * POW_SIGNAL_THRESHOLD, up to POW_MAX_DIFFICULTY.
+ *
+ * POW_MODE: 'adaptive' (default) asks for work only past the threshold, 'always' asks
+ * every time and 'off' disables the gate.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { adminDb } from '@/lib/firebase-admin';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { countLeadingZeroBits, type PowChallenge } from '@/lib/proof-of-work';
+
+const CHALLENGES_COLLECTION = 'pow_challenges';
+const DEFAULT_BASE_DIFFICULTY = 14;
+const DEFAULT_MAX_DIFFICULTY = 20;
+const DEFAULT_SIGNAL_THRESHOLD = 5;
+const DEFAULT_CHALLENGE_TTL_MS = 2 * 60 * 1000;
+const MAX_NONCE_LENGTH = 64;
+
+export type PowScope = 'session_start' | 'daily_use_activation' | 'signup' | 'test';
+
+export type PowMode = 'off' | 'adaptive' | 'always';
+
+export type PowErrorCode = 'POW_REQUIRED' | 'POW_INVALID' | 'POW_EXPIRED' | 'POW_REUSED';
+
+export type PowVerificationResult =
+  | { valid: true }
+  | { valid: false; code: PowErrorCode; message: string };
+
+interface PowChallengePayload {
+  id: string;
+  scope: PowScope;
+  sub: string;            // sha256 of the subject the challenge was issued to
+  d: number;
+  exp: number;            // Epoch ms
+}
+
+let fallbackSecret: string | null = null;
+
+function getPowSecret(): string {
+  if (process.env.POW_SECRET) return process.env.POW_SECRET;
+
+  // Challenges then only verify on the instance that issued them
+  if (!fallbackSecret) {
+    console.warn('⚠️ POW_SECRET is not set, signing proof-of-work challenges with a per-instance key');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getPowMode(): PowMode {
+  const mode = process.env.POW_MODE;
+  return mode === 'off' || mode === 'always' ? mode : 'adaptive';
+}
+
+export function getPowSignalThreshold(): number {
+  return readPositiveIntEnv('POW_SIGNAL_THRESHOLD', DEFAULT_SIGNAL_THRESHOLD);
+}
+
+/**
+ * Difficulty for a subject that made `requestCount` requests in the signal window
+ */
+export function getPowDifficulty(requestCount: number): number {
+  const base = readPositiveIntEnv('POW_BASE_DIFFICULTY', DEFAULT_BASE_DIFFICULTY);
+  const max = Math.max(base, readPositiveIntEnv('POW_MAX_DIFFICULTY', DEFAULT_MAX_DIFFICULTY));
+  const threshold = getPowSignalThreshold();
+
+  if (requestCount <= threshold) return base;
+  return Math.min(max, base + 2 * Math.ceil(Math.log2(requestCount / threshold)));
+}
+
+/**
+ * Count a request from each identifier against a scope and return the highest count
+ * in the window, which is what difficulty is based on. Each identifier is one
+ * rate-limiter call (a KV round trip in production).
+ */
+export async function recordAbuseSignal(scope: PowScope, identifiers: string[]): Promise<number> {
+  const results = await Promise.all(
+    identifiers.map(identifier => checkRateLimit('abuseSignals', `${scope}:${identifier}`))
+  );
+  return Math.max(0, ...results.map(result => result.limit - result.remaining));
+}
+
+function hashSubject(subject: string): string {
+  return createHash('sha256').update(subject).digest('base64url');
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getPowSecret()).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Issue a signed challenge for a subject (device fingerprint or `ip:<address>`)
+ */
+export function issuePowChallenge({
+  scope,
+  subject,
+  difficulty,
+  now = new Date()
+}: {
+  scope: PowScope;
+  subject: string;
+  difficulty: number;
+  now?: Date;
+}): PowChallenge {
+  const expiresAt = now.getTime() + readPositiveIntEnv('POW_CHALLENGE_TTL_MS', DEFAULT_CHALLENGE_TTL_MS);
+  const payload: PowChallengePayload = {
+    id: randomBytes(16).toString('base64url'),
+    scope,
+    sub: hashSubject(subject),
+    d: difficulty,
+    exp: expiresAt
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    challenge: `${encodedPayload}.${sign(encodedPayload)}`,
+    difficulty,
+    algorithm: 'sha256',
+    expiresAt: new Date(expiresAt).toISOString()
+  };
+}
+
+function decodeChallenge(challenge: string): PowChallengePayload | null {
+  const [encodedPayload, signature, extra] = challenge.split('.');
+  if (!encodedPayload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const presented = Buffer.from(signature);
+  if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a solved challenge and spend it
+ */
+export async function verifyPowSolution({
+  scope,
+  subject,
+  challenge,
+  nonce,
+  now = new Date()
+}: {
+  scope: PowScope;
+  subject: string;
+  challenge: string;
+  nonce: string;
+  now?: Date;
+}): Promise<PowVerificationResult> {
+  const payload = decodeChallenge(challenge);
+  if (!payload || payload.scope !== scope || payload.sub !== hashSubject(subject)) {
+    return { valid: false, code: 'POW_INVALID', message: 'Proof-of-work challenge was not issued for this request' };
+  }
+  if (payload.exp <= now.getTime()) {
+    return { valid: false, code: 'POW_EXPIRED', message: 'Proof-of-work challenge has expired' };
+  }
+
+  // Solvers count up from 0, so a long nonce is junk; refuse it before hashing
+  if (nonce.length > MAX_NONCE_LENGTH) {
+    return { valid: false, code: 'POW_INVALID', message: 'Proof-of-work nonce is too long' };
+  }
+
+  const digest = createHash('sha256').update(challenge + nonce).digest();
+  if (countLeadingZeroBits(digest) < payload.d) {
+    return { valid: false, code: 'POW_INVALID', message: 'Proof-of-work solution does not meet the difficulty' };
+  }
+
+  const challengeRef: FirebaseFirestore.DocumentReference = adminDb.collection(CHALLENGES_COLLECTION).doc(payload.id);
+  const firstUse = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const challengeDoc = await transaction.get(challengeRef);
+    if (challengeDoc.exists) return false;
+
+    transaction.set(challengeRef, {
+      scope,
+      subjectHash: payload.sub,
+      difficulty: payload.d,
+      consumedAt: now,
+      expiresAt: new Date(payload.exp)
+    });
+    return true;
+  });
+
+  if (!firstUse) {
+    return { valid: false, code: 'POW_REUSED', message: 'Proof-of-work challenge was already used' };
+  }
+  return { valid: true };
+}
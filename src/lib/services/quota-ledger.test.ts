@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore, InMemoryTransaction } from '@/lib/testing/in-memory-firestore';
+import { migrateDailyLimitsToLedger } from './quota-ledger';
+
+describe('migrateDailyLimitsToLedger', () => {
+  let db: InMemoryFirestore;
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+    db.write('daily-limits/user_1_2025-03-10', { userId: 'user_1', date: '2025-03-10', totalUsageTime: 60_000 }, 'set');
+    db.write('daily-limits/user_1_device_b_2025-03-10', { userId: 'user_1', date: '2025-03-10', totalUsageTime: 30_000, deviceFingerprint: 'device_b' }, 'set');
+    db.write('daily-limits/user_2_2025-03-10', { userId: 'user_2', date: '2025-03-10', totalUsageTime: 10_000 }, 'set');
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  // Runs every transaction callback once more on a discarded attempt, as Firestore does on contention
+  function retryEveryTransaction() {
+    const runTransaction = db.runTransaction.bind(db);
+    db.runTransaction = async updateFunction => {
+      await updateFunction(new InMemoryTransaction(db));
+      return runTransaction(updateFunction);
+    };
+  }
+
+  it('counts each legacy doc once when a transaction is retried', async () => {
+    retryEveryTransaction();
+
+    const result = await migrateDailyLimitsToLedger({ dryRun: false });
+
+    expect(result).toMatchObject({ scanned: 3, migrated: 3, alreadyMigrated: 0, ledgersWritten: 2 });
+    expect(db.read('quota_ledger/user_1_2025-03-10')?.totalUsageTime).toBe(90_000);
+  });
+
+  it('reports a dry run without writing and skips migrated docs on the real run', async () => {
+    const preview = await migrateDailyLimitsToLedger({ dryRun: true });
+    expect(preview).toMatchObject({ migrated: 3, ledgersWritten: 2 });
+    expect(db.read('quota_ledger/user_1_2025-03-10')).toBeUndefined();
+
+    await migrateDailyLimitsToLedger({ dryRun: false });
+    const rerun = await migrateDailyLimitsToLedger({ dryRun: false });
+
+    expect(rerun).toMatchObject({ migrated: 0, alreadyMigrated: 3, ledgersWritten: 0 });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Daily Quota Ledger
+ *
+ * Free-plan usage is tracked per user per day in quota_ledger/{userId}_{date}, so the
+ * daily allowance follows the account across browsers and devices. Each ledger doc
+ * also breaks usage down by device fingerprint; QUOTA_DEVICE_SUBCAP_MS optionally caps
+ * how much of the allowance a single device can use. The quota day follows the user's
+ * time zone (user-timezone.ts), so resets happen at their local midnight.
+ *
+ * Replaces the fingerprint-keyed daily-limits docs; migrateDailyLimitsToLedger() folds
+ * those into the ledger.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { DEFAULT_QUOTA_POLICIES, getDailyLimitMs } from './quota-policy';
+import { DEFAULT_TIME_ZONE, getLocalDate, getNextLocalMidnight } from './user-timezone';
+
+const LEDGER_COLLECTION = 'quota_ledger';
+const LEGACY_COLLECTION = 'daily-limits';
+
+export interface QuotaLedgerDevice {
+  usageTime: number;
+  firstSeenAt: Date;
+  lastHeartbeat: Date | null;
+}
+
+export type QuotaDenialCode = 'DAILY_LIMIT_USED' | 'DEVICE_LIMIT_USED' | 'DAILY_USE_NOT_ACTIVATED';
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  code?: QuotaDenialCode;
+  ledgerId: string;
+  date: string;
+  totalUsageTime: number;
+  deviceUsageTime: number;
+  timeRemaining: number; // -1 = unlimited
+  timeZone: string;
+  nextResetTime: string;
+}
+
+/**
+ * Quota day for a moment in time (calendar date in the user's zone, YYYY-MM-DD)
+ */
+export function getQuotaDate(now: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE): string {
+  return getLocalDate(now, timeZone);
+}
+
+/**
+ * When the quota day containing `now` ends
+ */
+export function getNextResetTime(now: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE): string {
+  return getNextLocalMidnight(now, timeZone).toISOString();
+}
+
+export function getQuotaLedgerId(userId: string, date: string): string {
+  return `${userId}_${date}`;
+}
+
+export function getQuotaLedgerRef(userId: string, date: string): FirebaseFirestore.DocumentReference {
+  return adminDb.collection(LEDGER_COLLECTION).doc(getQuotaLedgerId(userId, date));
+}
+
+/**
+ * Per-device cap in ms, or null when devices may use the whole allowance
+ */
+export function getDeviceSubCapMs(): number | null {
+  const parsed = parseInt(process.env.QUOTA_DEVICE_SUBCAP_MS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Where a user/device stands against the allowance given the usage recorded so far
+ */
+export function evaluateQuota({
+  totalUsageTime,
+  deviceUsageTime,
+  dailyLimitMs
+}: {
+  totalUsageTime: number;
+  deviceUsageTime: number;
+  dailyLimitMs: number;
+}): { allowed: boolean; code?: QuotaDenialCode; timeRemaining: number } {
+  if (dailyLimitMs === -1) {
+    return { allowed: true, timeRemaining: -1 };
+  }
+
+  const accountRemaining = Math.max(0, dailyLimitMs - totalUsageTime);
+  const deviceSubCap = getDeviceSubCapMs();
+  const deviceRemaining = deviceSubCap === null ? Infinity : Math.max(0, deviceSubCap - deviceUsageTime);
+
+  if (accountRemaining === 0) {
+    return { allowed: false, code: 'DAILY_LIMIT_USED', timeRemaining: 0 };
+  }
+  if (deviceRemaining === 0) {
+    return { allowed: false, code: 'DEVICE_LIMIT_USED', timeRemaining: 0 };
+  }
+
+  return { allowed: true, timeRemaining: Math.min(accountRemaining, deviceRemaining) };
+}
+
+function readDevices(data: FirebaseFirestore.DocumentData | undefined): Record<string, QuotaLedgerDevice> {
+  return (data?.devices || {}) as Record<string, QuotaLedgerDevice>;
+}
+
+/**
+ * Current quota for a user on a device without changing anything (session start)
+ */
+export async function checkDailyQuota({
+  userId,
+  deviceFingerprint,
+  dailyLimitMs,
+  timeZone = DEFAULT_TIME_ZONE,
+  now = new Date()
+}: {
+  userId: string;
+  deviceFingerprint: string;
+  dailyLimitMs: number;
+  timeZone?: string;
+  now?: Date;
+}): Promise<QuotaCheckResult> {
+  const date = getQuotaDate(now, timeZone);
+  const ledgerDoc = await getQuotaLedgerRef(userId, date).get();
+  const data = ledgerDoc.exists ? ledgerDoc.data() : undefined;
+
+  const totalUsageTime = data?.totalUsageTime || 0;
+  const deviceUsageTime = readDevices(data)[deviceFingerprint]?.usageTime || 0;
+
+  return {
+    ...evaluateQuota({ totalUsageTime, deviceUsageTime, dailyLimitMs }),
+    ledgerId: getQuotaLedgerId(userId, date),
+    date,
+    totalUsageTime,
+    deviceUsageTime,
+    timeZone,
+    nextResetTime: getNextResetTime(now, timeZone)
+  };
+}
+
+/**
+ * Open (or rejoin) today's ledger for a user on a device. Re-activating never resets
+ * usage; it is refused once the account or device allowance is used up.
+ */
+export async function activateDailyQuota({
+  userId,
+  email,
+  deviceFingerprint,
+  dailyLimitMs,
+  timeZone = DEFAULT_TIME_ZONE,
+  now = new Date()
+}: {
+  userId: string;
+  email: string;
+  deviceFingerprint: string;
+  dailyLimitMs: number;
+  timeZone?: string;
+  now?: Date;
+}): Promise<QuotaCheckResult> {
+  const date = getQuotaDate(now, timeZone);
+  const ledgerRef = getQuotaLedgerRef(userId, date);
+
+  return adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const ledgerDoc = await transaction.get(ledgerRef);
+    const data = ledgerDoc.exists ? ledgerDoc.data() : undefined;
+    const devices = readDevices(data);
+
+    const totalUsageTime = data?.totalUsageTime || 0;
+    const deviceUsageTime = devices[deviceFingerprint]?.usageTime || 0;
+    const verdict = evaluateQuota({ totalUsageTime, deviceUsageTime, dailyLimitMs });
+
+    if (verdict.allowed) {
+      if (!ledgerDoc.exists) {
+        transaction.set(ledgerRef, {
+          userId,
+          email,
+          date,
+          timeZone,
+          activated: true,
+          activatedAt: now,
+          totalUsageTime: 0,
+          dailyLimitMs,
+          devices: {
+            [deviceFingerprint]: { usageTime: 0, firstSeenAt: now, lastHeartbeat: null }
+          },
+          createdAt: now,
+          updatedAt: now
+        });
+      } else if (!devices[deviceFingerprint]) {
+        transaction.update(ledgerRef, {
+          devices: {
+            ...devices,
+            [deviceFingerprint]: { usageTime: 0, firstSeenAt: now, lastHeartbeat: null }
+          },
+          updatedAt: now
+        });
+      }
+    }
+
+    return {
+      ...verdict,
+      ledgerId: ledgerRef.id,
+      date,
+      totalUsageTime,
+      deviceUsageTime,
+      timeZone,
+      nextResetTime: getNextResetTime(now, timeZone)
+    };
+  });
+}
+
+/**
+ * Add credited usage to a ledger inside the caller's transaction. The ledger doc must
+ * already have been read in that transaction (Firestore reads-before-writes).
+ */
+export function applyQuotaUsage({
+  transaction,
+  ledgerRef,
+  ledgerData,
+  deviceFingerprint,
+  creditedMs,
+  dailyLimitMs,
+  now
+}: {
+  transaction: FirebaseFirestore.Transaction;
+  ledgerRef: FirebaseFirestore.DocumentReference;
+  ledgerData: FirebaseFirestore.DocumentData;
+  deviceFingerprint: string;
+  creditedMs: number;
+  dailyLimitMs: number;
+  now: Date;
+}): { totalUsageTime: number; deviceUsageTime: number; allowed: boolean; code?: QuotaDenialCode; timeRemaining: number } {
+  const devices = readDevices(ledgerData);
+  const device = devices[deviceFingerprint] || { usageTime: 0, firstSeenAt: now, lastHeartbeat: null };
+
+  const totalUsageTime = (ledgerData.totalUsageTime || 0) + creditedMs;
+  const deviceUsageTime = (device.usageTime || 0) + creditedMs;
+
+  transaction.update(ledgerRef, {
+    totalUsageTime,
+    devices: {
+      ...devices,
+      [deviceFingerprint]: { ...device, usageTime: deviceUsageTime, lastHeartbeat: now }
+    },
+    lastHeartbeat: now,
+    updatedAt: now
+  });
+
+  return {
+    totalUsageTime,
+    deviceUsageTime,
+    ...evaluateQuota({ totalUsageTime, deviceUsageTime, dailyLimitMs })
+  };
+}
+
+export interface QuotaMigrationResult {
+  dryRun: boolean;
+  scanned: number;
+  migrated: number;
+  skippedNoUser: number;
+  alreadyMigrated: number;
+  ledgersWritten: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Fold fingerprint-keyed daily-limits docs into the per-user ledger. Processes one page
+ * of legacy docs (ordered by ID, after `cursor`); call again with nextCursor until it
+ * is null. Safe to re-run: each ledger remembers which legacy docs it absorbed.
+ */
+export async function migrateDailyLimitsToLedger({
+  dryRun,
+  cursor = null,
+  pageSize = 200
+}: {
+  dryRun: boolean;
+  cursor?: string | null;
+  pageSize?: number;
+}): Promise<QuotaMigrationResult> {
+  let query = adminDb.collection(LEGACY_COLLECTION).orderBy('__name__').limit(pageSize);
+  if (cursor) {
+    query = query.startAfter(cursor);
+  }
+  const snapshot = await query.get();
+
+  const result: QuotaMigrationResult = {
+    dryRun,
+    scanned: snapshot.size,
+    migrated: 0,
+    skippedNoUser: 0,
+    alreadyMigrated: 0,
+    ledgersWritten: 0,
+    nextCursor: snapshot.size === pageSize ? snapshot.docs[snapshot.size - 1].id : null
+  };
+
+  // Group legacy docs by the ledger they belong to
+  const byLedger = new Map<string, Array<{ id: string; data: FirebaseFirestore.DocumentData }>>();
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const date = data.date || doc.id.split('_').pop();
+    if (!data.userId || !date) {
+      result.skippedNoUser++;
+      continue;
+    }
+
+    const ledgerId = getQuotaLedgerId(data.userId, date);
+    const group = byLedger.get(ledgerId) || [];
+    group.push({ id: doc.id, data: { ...data, date } });
+    byLedger.set(ledgerId, group);
+  }
+
+  for (const [ledgerId, legacyDocs] of byLedger) {
+    const ledgerRef: FirebaseFirestore.DocumentReference = adminDb.collection(LEDGER_COLLECTION).doc(ledgerId);
+
+    // Counts come back from the callback so a retried transaction isn't counted twice
+    const outcome: { migrated: number; alreadyMigrated: number } = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+      const ledgerDoc = await transaction.get(ledgerRef);
+      const existing = ledgerDoc.exists ? ledgerDoc.data()! : undefined;
+      const migratedFrom: string[] = existing?.migratedFrom || [];
+
+      const pending = legacyDocs.filter(doc => !migratedFrom.includes(doc.id));
+      const counts = { migrated: pending.length, alreadyMigrated: legacyDocs.length - pending.length };
+      if (pending.length === 0) return counts;
+
+      const devices = readDevices(existing);
+      let addedUsage = 0;
+      for (const { data } of pending) {
+        const fingerprint = data.deviceFingerprint || 'unknown';
+        const usage = data.totalUsageTime || 0;
+        const device = devices[fingerprint] || { usageTime: 0, firstSeenAt: data.activatedAt || data.createdAt || new Date(), lastHeartbeat: null };
+        devices[fingerprint] = {
+          ...device,
+          usageTime: (device.usageTime || 0) + usage,
+          lastHeartbeat: data.lastHeartbeat || device.lastHeartbeat || null
+        };
+        addedUsage += usage;
+      }
+
+      if (dryRun) return counts;
+
+      const first = pending[0].data;
+      const now = new Date();
+      transaction.set(ledgerRef, {
+        userId: existing?.userId || first.userId,
+        email: existing?.email || first.userEmail || null,
+        date: existing?.date || first.date,
+        timeZone: existing?.timeZone || DEFAULT_TIME_ZONE, // Legacy docs were dated in UTC
+        activated: true,
+        activatedAt: existing?.activatedAt || first.activatedAt || now,
+        totalUsageTime: (existing?.totalUsageTime || 0) + addedUsage,
+        dailyLimitMs: existing?.dailyLimitMs || first.dailyLimitMs || getDailyLimitMs(DEFAULT_QUOTA_POLICIES.limited),
+        devices,
+        migratedFrom: [...migratedFrom, ...pending.map(doc => doc.id)],
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      });
+      return counts;
+    });
+
+    result.migrated += outcome.migrated;
+    result.alreadyMigrated += outcome.alreadyMigrated;
+    if (outcome.migrated > 0) result.ledgersWritten++;
+  }
+
+  console.log('📦 Daily-limits migration page processed:', result);
+  return result;
+}
@@ -0,0 +1,166 @@
+/**
+ * Quota Policies
+ *
+ * One policy per tier sets the usage limits: daily minutes, concurrent sessions, task
+ * executions per day and token budgets. Code defaults live here; a quota_policies/{tier}
+ * doc in Firestore overrides any of its fields without a deploy. Loaded policies are
+ * cached in memory for QUOTA_POLICY_CACHE_TTL_MS (default 60s).
+ *
+ * functions/src/quota-policy.ts mirrors these defaults for the Cloud Functions.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { resolvePlan } from './plan-catalog';
+import type { PlanTier } from '@/lib/stripe';
+
+export type QuotaTier = 'anonymous' | 'limited' | 'trial' | 'premium' | 'team';
+
+export const QUOTA_TIERS: QuotaTier[] = ['anonymous', 'limited', 'trial', 'premium', 'team'];
+
+export interface QuotaPolicy {
+  tier: QuotaTier;
+  dailyMinutes: number | null;          // null = unlimited
+  concurrentSessions: number;
+  taskExecutionsPerDay: number | null;  // null = unlimited
+  maxTokensPerTask: number;
+  dailyTokenBudget: number | null;      // null = unlimited
+}
+
+export const DEFAULT_QUOTA_POLICIES: Record<QuotaTier, QuotaPolicy> = {
+  anonymous: {
+    tier: 'anonymous',
+    dailyMinutes: 30,
+    concurrentSessions: 1,
+    taskExecutionsPerDay: 10,
+    maxTokensPerTask: 300,
+    dailyTokenBudget: 3000
+  },
+  limited: {
+    tier: 'limited',
+    dailyMinutes: 60,
+    concurrentSessions: 1,
+    taskExecutionsPerDay: 50,
+    maxTokensPerTask: 300,
+    dailyTokenBudget: 15000
+  },
+  trial: {
+    tier: 'trial',
+    dailyMinutes: null,
+    concurrentSessions: 2,
+    taskExecutionsPerDay: 200,
+    maxTokensPerTask: 600,
+    dailyTokenBudget: 120000
+  },
+  premium: {
+    tier: 'premium',
+    dailyMinutes: null,
+    concurrentSessions: 3,
+    taskExecutionsPerDay: null,
+    maxTokensPerTask: 2000,
+    dailyTokenBudget: null
+  },
+  team: {
+    tier: 'team',
+    dailyMinutes: null,
+    concurrentSessions: 3,
+    taskExecutionsPerDay: null,
+    maxTokensPerTask: 2000,
+    dailyTokenBudget: null
+  }
+};
+
+const POLICY_COLLECTION = 'quota_policies';
+const DEFAULT_CACHE_TTL_MS = 60000;
+
+const policyCache = new Map<QuotaTier, { policy: QuotaPolicy; expiresAt: number }>();
+
+function getCacheTtlMs(): number {
+  const parsed = parseInt(process.env.QUOTA_POLICY_CACHE_TTL_MS || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_TTL_MS;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isLimit(value: unknown): value is number | null {
+  return value === null || isCount(value);
+}
+
+/**
+ * Overlay the valid fields of a stored policy doc on the code default
+ */
+function mergePolicy(defaults: QuotaPolicy, stored: FirebaseFirestore.DocumentData | undefined): QuotaPolicy {
+  if (!stored) return defaults;
+
+  const policy = { ...defaults };
+  if (isLimit(stored.dailyMinutes)) policy.dailyMinutes = stored.dailyMinutes;
+  if (isCount(stored.concurrentSessions)) policy.concurrentSessions = stored.concurrentSessions;
+  if (isLimit(stored.taskExecutionsPerDay)) policy.taskExecutionsPerDay = stored.taskExecutionsPerDay;
+  if (isCount(stored.maxTokensPerTask)) policy.maxTokensPerTask = stored.maxTokensPerTask;
+  if (isLimit(stored.dailyTokenBudget)) policy.dailyTokenBudget = stored.dailyTokenBudget;
+  return policy;
+}
+
+/**
+ * Policy for a tier, from Firestore when configured, else the code default.
+ * Falls back to the default if Firestore can't be read.
+ */
+export async function getQuotaPolicy(tier: QuotaTier): Promise<QuotaPolicy> {
+  const cached = policyCache.get(tier);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  let policy = DEFAULT_QUOTA_POLICIES[tier];
+  try {
+    const policyDoc = await adminDb.collection(POLICY_COLLECTION).doc(tier).get();
+    policy = mergePolicy(DEFAULT_QUOTA_POLICIES[tier], policyDoc.exists ? policyDoc.data() : undefined);
+  } catch (error) {
+    console.error(`❌ Failed to load quota policy for ${tier}, using defaults:`, error);
+  }
+
+  policyCache.set(tier, { policy, expiresAt: Date.now() + getCacheTtlMs() });
+  return policy;
+}
+
+export async function getQuotaPolicies(): Promise<Record<QuotaTier, QuotaPolicy>> {
+  const policies = await Promise.all(QUOTA_TIERS.map(tier => getQuotaPolicy(tier)));
+  return Object.fromEntries(policies.map(policy => [policy.tier, policy])) as Record<QuotaTier, QuotaPolicy>;
+}
+
+export function invalidateQuotaPolicyCache(): void {
+  policyCache.clear();
+}
+
+/**
+ * Daily allowance in ms, -1 = unlimited
+ */
+export function getDailyLimitMs(policy: QuotaPolicy): number {
+  return policy.dailyMinutes === null ? -1 : policy.dailyMinutes * 60 * 1000;
+}
+
+/**
+ * Quota tier for a premium status result
+ */
+export function resolveQuotaTier(status: {
+  subscriptionStatus: string;
+  planTier?: PlanTier | null;
+  subscriptionPriceId?: string | null;
+}): QuotaTier {
+  const plan = resolvePlan(status);
+  if (plan.id === 'team') return 'team';
+  if (plan.id !== 'free') return 'premium';
+  return status.subscriptionStatus === 'trial' ? 'trial' : 'limited';
+}
+
+/**
+ * Policy that applies to a premium status result
+ */
+export async function getQuotaPolicyForStatus(status: {
+  subscriptionStatus: string;
+  planTier?: PlanTier | null;
+  subscriptionPriceId?: string | null;
+}): Promise<QuotaPolicy> {
+  return getQuotaPolicy(resolveQuotaTier(status));
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { validateSessionToken } from '@/lib/middleware/auth';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { issueSessionTokens, rotateSessionTokens } from './session-tokens';
+
+describe('rotateSessionTokens', () => {
+  let db: InMemoryFirestore;
+  let refreshToken: string;
+  const previousEnv = { ...process.env };
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  beforeEach(async () => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+    process.env.JWT_SECRET = 'test-secret';
+    delete process.env.JWT_SIGNING_KEYS;
+
+    db.write('sessions/session_1', { userId: 'user_1', status: 'active', subscriptionStatus: 'premium' }, 'set');
+    const tokens = await issueSessionTokens({
+      sessionId: 'session_1',
+      userId: 'user_1',
+      deviceFingerprint: 'device_a',
+      ipAddress: '203.0.113.7',
+      subscriptionStatus: 'premium',
+      now
+    });
+    refreshToken = tokens.refreshToken;
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+    process.env = { ...previousEnv };
+  });
+
+  function rotate(token: string, deviceFingerprint = 'device_a') {
+    return rotateSessionTokens({ refreshToken: token, deviceFingerprint, ipAddress: '203.0.113.7', now });
+  }
+
+  function refreshTokenStatuses() {
+    return db.paths()
+      .filter(path => path.startsWith('session_refresh_tokens/'))
+      .map(path => db.read(path)?.status)
+      .sort();
+  }
+
+  it('swaps a refresh token for a new pair on the same session', async () => {
+    const result = await rotate(refreshToken);
+    if (!result.success) throw new Error(result.message);
+
+    expect(result).toMatchObject({ sessionId: 'session_1', userId: 'user_1', subscriptionStatus: 'premium' });
+    expect(result.tokens.refreshToken).not.toBe(refreshToken);
+    expect(validateSessionToken(result.tokens.token)).toMatchObject({ sessionId: 'session_1', deviceFingerprint: 'device_a' });
+    expect(refreshTokenStatuses()).toEqual(['active', 'used']);
+
+    const next = await rotate(result.tokens.refreshToken);
+    expect(next.success).toBe(true);
+  });
+
+  it('revokes the family and the session when a used token comes back', async () => {
+    const first = await rotate(refreshToken);
+    if (!first.success) throw new Error(first.message);
+
+    const replay = await rotate(refreshToken);
+
+    expect(replay).toMatchObject({ success: false, code: 'REFRESH_TOKEN_REUSED' });
+    expect(refreshTokenStatuses()).toEqual(['revoked', 'revoked']);
+    expect(db.read('sessions/session_1')).toMatchObject({ status: 'revoked', revokedReason: 'refresh_token_reuse' });
+    expect(await rotate(first.tokens.refreshToken)).toMatchObject({ success: false, code: 'REFRESH_TOKEN_REUSED' });
+  });
+
+  it('refuses a token presented by another device without using it up', async () => {
+    expect(await rotate(refreshToken, 'device_b')).toMatchObject({ success: false, code: 'DEVICE_MISMATCH' });
+    expect((await rotate(refreshToken)).success).toBe(true);
+  });
+});
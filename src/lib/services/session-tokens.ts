@@ -0,0 +1,253 @@
+/**
+ * Session Token Pairs
+ *
+ * Extension sessions get a short-lived access JWT (SESSION_ACCESS_TOKEN_TTL_MS,
+ * default 15 minutes) plus an opaque refresh token (SESSION_REFRESH_TOKEN_TTL_MS,
+ * default 14 days). POST /api/v2/session/refresh trades a refresh token for a new pair
+ * on the same session, so usage carries on without starting a new session.
+ *
+ * Refresh tokens rotate: each one works once. Tokens are stored hashed in
+ * session_refresh_tokens/{sha256}, and every token issued for a session shares that
+ * session's family. Presenting a token that was already used means it leaked, so
+ * the whole family and the session are revoked.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { adminDb } from '@/lib/firebase-admin';
+import { generateSessionJWT } from '@/lib/middleware/auth';
+
+const REFRESH_COLLECTION = 'session_refresh_tokens';
+const DEFAULT_ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_REFRESH_TOKEN_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export type RefreshErrorCode =
+  | 'REFRESH_TOKEN_INVALID'
+  | 'REFRESH_TOKEN_EXPIRED'
+  | 'REFRESH_TOKEN_REUSED'
+  | 'DEVICE_MISMATCH'
+  | 'SESSION_INACTIVE';
+
+export const REFRESH_ERROR_STATUS: Record<RefreshErrorCode, number> = {
+  REFRESH_TOKEN_INVALID: 401,
+  REFRESH_TOKEN_EXPIRED: 401,
+  REFRESH_TOKEN_REUSED: 401,
+  DEVICE_MISMATCH: 403,
+  SESSION_INACTIVE: 403
+};
+
+export interface SessionTokenPair {
+  token: string;
+  expiresIn: number;          // Access token lifetime in seconds
+  refreshToken: string;
+  refreshExpiresAt: string;
+}
+
+export type RefreshResult =
+  | { success: true; sessionId: string; userId: string; subscriptionStatus: string; tokens: SessionTokenPair }
+  | { success: false; code: RefreshErrorCode; message: string };
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getAccessTokenTtlMs(): number {
+  return readPositiveIntEnv('SESSION_ACCESS_TOKEN_TTL_MS', DEFAULT_ACCESS_TOKEN_TTL_MS);
+}
+
+export function getRefreshTokenTtlMs(): number {
+  return readPositiveIntEnv('SESSION_REFRESH_TOKEN_TTL_MS', DEFAULT_REFRESH_TOKEN_TTL_MS);
+}
+
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Store a fresh refresh token for a session's family, inside a transaction when given
+ */
+function createRefreshToken({
+  sessionId,
+  userId,
+  deviceFingerprint,
+  now,
+  transaction
+}: {
+  sessionId: string;
+  userId: string;
+  deviceFingerprint: string;
+  now: Date;
+  transaction?: FirebaseFirestore.Transaction;
+}): { refreshToken: string; tokenHash: string; expiresAt: Date; write: Promise<unknown> | null } {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const tokenHash = hashRefreshToken(refreshToken);
+  const expiresAt = new Date(now.getTime() + getRefreshTokenTtlMs());
+  const tokenRef: FirebaseFirestore.DocumentReference = adminDb.collection(REFRESH_COLLECTION).doc(tokenHash);
+  const tokenData = {
+    familyId: sessionId,
+    sessionId,
+    userId,
+    deviceFingerprint,
+    status: 'active',
+    createdAt: now,
+    expiresAt
+  };
+
+  if (transaction) {
+    transaction.set(tokenRef, tokenData);
+    return { refreshToken, tokenHash, expiresAt, write: null };
+  }
+  return { refreshToken, tokenHash, expiresAt, write: tokenRef.set(tokenData) };
+}
+
+/**
+ * Access JWT and a new refresh token family for a session that was just created
+ */
+export async function issueSessionTokens({
+  sessionId,
+  userId,
+  deviceFingerprint,
+  ipAddress,
+  subscriptionStatus,
+  now = new Date()
+}: {
+  sessionId: string;
+  userId: string;
+  deviceFingerprint: string;
+  ipAddress: string;
+  subscriptionStatus: string;
+  now?: Date;
+}): Promise<SessionTokenPair> {
+  const accessTtlMs = getAccessTokenTtlMs();
+  const token = generateSessionJWT({ sessionId, userId, deviceFingerprint, ipAddress, subscriptionStatus }, accessTtlMs);
+  const { refreshToken, expiresAt, write } = createRefreshToken({ sessionId, userId, deviceFingerprint, now });
+  await write;
+
+  return {
+    token,
+    expiresIn: Math.floor(accessTtlMs / 1000),
+    refreshToken,
+    refreshExpiresAt: expiresAt.toISOString()
+  };
+}
+
+/**
+ * Revoke every refresh token in a family and the session it belongs to
+ */
+async function revokeTokenFamily(familyId: string, reason: string, now: Date): Promise<void> {
+  const snapshot = await adminDb.collection(REFRESH_COLLECTION).where('familyId', '==', familyId).get();
+  const batch = adminDb.batch();
+
+  snapshot.docs.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+    batch.update(doc.ref, { status: 'revoked', revokedAt: now, revokedReason: reason });
+  });
+
+  const sessionRef = adminDb.collection('sessions').doc(familyId);
+  const sessionDoc = await sessionRef.get();
+  if (sessionDoc.exists && sessionDoc.data()?.status === 'active') {
+    batch.update(sessionRef, {
+      status: 'revoked',
+      revokedAt: now,
+      revokedReason: reason,
+      revokedBy: 'system',
+      endTime: now,
+      endReason: reason
+    });
+  }
+
+  await batch.commit();
+}
+
+/**
+ * Trade a refresh token for a new access/refresh pair on the same session
+ */
+export async function rotateSessionTokens({
+  refreshToken,
+  deviceFingerprint,
+  ipAddress,
+  now = new Date()
+}: {
+  refreshToken: string;
+  deviceFingerprint: string;
+  ipAddress: string;
+  now?: Date;
+}): Promise<RefreshResult> {
+  const tokenRef: FirebaseFirestore.DocumentReference = adminDb.collection(REFRESH_COLLECTION).doc(hashRefreshToken(refreshToken));
+
+  const outcome = await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const tokenDoc = await transaction.get(tokenRef);
+    if (!tokenDoc.exists) {
+      return { success: false as const, code: 'REFRESH_TOKEN_INVALID' as const, message: 'Refresh token not recognized' };
+    }
+
+    const tokenData = tokenDoc.data()!;
+    if (tokenData.status !== 'active') {
+      // A used or revoked token coming back means someone else holds a copy
+      return { success: false as const, code: 'REFRESH_TOKEN_REUSED' as const, message: 'Refresh token was already used or revoked; the session has been signed out', familyId: tokenData.familyId as string };
+    }
+
+    const expiresAt: Date = tokenData.expiresAt?.toDate?.() || new Date(tokenData.expiresAt);
+    if (expiresAt.getTime() <= now.getTime()) {
+      return { success: false as const, code: 'REFRESH_TOKEN_EXPIRED' as const, message: 'Refresh token has expired. Please start a new session.' };
+    }
+
+    if (tokenData.deviceFingerprint !== deviceFingerprint) {
+      return { success: false as const, code: 'DEVICE_MISMATCH' as const, message: 'Refresh token was issued to a different device' };
+    }
+
+    const sessionRef: FirebaseFirestore.DocumentReference = adminDb.collection('sessions').doc(tokenData.sessionId);
+    const sessionDoc = await transaction.get(sessionRef);
+    const sessionData = sessionDoc.exists ? sessionDoc.data()! : undefined;
+    if (!sessionData || sessionData.status !== 'active') {
+      return { success: false as const, code: 'SESSION_INACTIVE' as const, message: 'Session is no longer active. Please start a new session.' };
+    }
+
+    const next = createRefreshToken({
+      sessionId: tokenData.sessionId,
+      userId: tokenData.userId,
+      deviceFingerprint,
+      now,
+      transaction
+    });
+    transaction.update(tokenRef, { status: 'used', usedAt: now, replacedBy: next.tokenHash });
+
+    return {
+      success: true as const,
+      sessionId: tokenData.sessionId as string,
+      userId: tokenData.userId as string,
+      subscriptionStatus: (sessionData.subscriptionStatus || 'limited') as string,
+      refreshToken: next.refreshToken,
+      refreshExpiresAt: next.expiresAt
+    };
+  });
+
+  if (!outcome.success) {
+    if (outcome.code === 'REFRESH_TOKEN_REUSED' && 'familyId' in outcome) {
+      console.warn(`🚨 Refresh token reuse detected, revoking session ${outcome.familyId}`);
+      await revokeTokenFamily(outcome.familyId, 'refresh_token_reuse', now);
+    }
+    return { success: false, code: outcome.code, message: outcome.message };
+  }
+
+  const accessTtlMs = getAccessTokenTtlMs();
+  const token = generateSessionJWT({
+    sessionId: outcome.sessionId,
+    userId: outcome.userId,
+    deviceFingerprint,
+    ipAddress,
+    subscriptionStatus: outcome.subscriptionStatus
+  }, accessTtlMs);
+
+  return {
+    success: true,
+    sessionId: outcome.sessionId,
+    userId: outcome.userId,
+    subscriptionStatus: outcome.subscriptionStatus,
+    tokens: {
+      token,
+      expiresIn: Math.floor(accessTtlMs / 1000),
+      refreshToken: outcome.refreshToken,
+      refreshExpiresAt: outcome.refreshExpiresAt.toISOString()
+    }
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Stripe Webhook Event Ledger
+ *
+ * Makes webhook processing idempotent and order-safe:
+ * - stripe_webhook_events/{event.id} records every event we have seen and its outcome,
+ *   so Stripe retries of an already-applied event are acknowledged without re-running it.
+ * - stripe_object_versions/{objectKey} holds the `created` time of the last event applied
+ *   to a subscription, so an older event delivered late can't roll a user back.
+ * - stripe_webhook_dead_letters/{event.id} keeps the full payload of failed events for replay.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import type Stripe from 'stripe';
+import { getInvoiceSubscriptionId } from './stripe-webhook-utils';
+
+const EVENTS_COLLECTION = 'stripe_webhook_events';
+const VERSIONS_COLLECTION = 'stripe_object_versions';
+const DEAD_LETTER_COLLECTION = 'stripe_webhook_dead_letters';
+
+// A 'processing' claim older than this is assumed to belong to a crashed invocation
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+export type StripeEventClaim =
+  | { status: 'claimed'; attempt: number }
+  | { status: 'duplicate'; previousStatus: string }
+  | { status: 'stale'; lastAppliedEventId: string; lastAppliedCreated: number };
+
+export interface StripeDeadLetter {
+  eventId: string;
+  eventType: string;
+  objectKey: string;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+  replayed: boolean;
+  replayedAt?: Date;
+  replayedBy?: string;
+  replayOutcome?: string;
+}
+
+/**
+ * Key events are ordered by. Everything that changes a user's subscription state is
+ * keyed by the subscription so checkout, subscription and invoice events share one clock.
+ */
+export function getStripeEventObjectKey(event: Stripe.Event): string {
+  const object = event.data.object as { id?: string };
+
+  if (event.type.startsWith('customer.subscription.')) {
+    return (event.data.object as Stripe.Subscription).id;
+  }
+
+  if (event.type.startsWith('invoice.')) {
+    return getInvoiceSubscriptionId(event.data.object as Stripe.Invoice) || object.id || event.id;
+  }
+
+  if (event.type === 'checkout.session.completed') {
+    const session = event.data.object as Stripe.Checkout.Session;
+    if (typeof session.subscription === 'string') return session.subscription;
+    if (session.subscription) return session.subscription.id;
+  }
+
+  return object.id || event.id;
+}
+
+/**
+ * Claim an event for processing. Returns 'duplicate' if it was already applied (or is
+ * being applied right now) and 'stale' if a newer event for the same object has been applied.
+ */
+export async function claimStripeEvent(event: Stripe.Event, options: { replay?: boolean } = {}): Promise<StripeEventClaim> {
+  const eventRef: FirebaseFirestore.DocumentReference = adminDb.collection(EVENTS_COLLECTION).doc(event.id);
+  const objectKey = getStripeEventObjectKey(event);
+  const versionRef: FirebaseFirestore.DocumentReference = adminDb.collection(VERSIONS_COLLECTION).doc(objectKey);
+
+  return adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const [eventDoc, versionDoc] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(versionRef)
+    ]);
+    const now = new Date();
+    const existing = eventDoc.exists ? eventDoc.data() : null;
+
+    if (existing?.status === 'processed' || existing?.status === 'skipped_stale') {
+      return { status: 'duplicate', previousStatus: existing.status } as StripeEventClaim;
+    }
+
+    if (existing?.status === 'processing' && !options.replay) {
+      const startedAt = existing.processingStartedAt?.toDate?.() as Date | undefined;
+      if (startedAt && now.getTime() - startedAt.getTime() < PROCESSING_LEASE_MS) {
+        return { status: 'duplicate', previousStatus: 'processing' } as StripeEventClaim;
+      }
+    }
+
+    const version = versionDoc.exists ? versionDoc.data() : null;
+    if (version && version.lastEventId !== event.id && event.created < version.lastEventCreated) {
+      transaction.set(eventRef, {
+        eventId: event.id,
+        type: event.type,
+        objectKey,
+        eventCreated: event.created,
+        status: 'skipped_stale',
+        supersededBy: version.lastEventId,
+        updatedAt: now
+      }, { merge: true });
+
+      return {
+        status: 'stale',
+        lastAppliedEventId: version.lastEventId,
+        lastAppliedCreated: version.lastEventCreated
+      } as StripeEventClaim;
+    }
+
+    const attempt = (existing?.attempts || 0) + 1;
+    transaction.set(eventRef, {
+      eventId: event.id,
+      type: event.type,
+      objectKey,
+      eventCreated: event.created,
+      livemode: event.livemode,
+      status: 'processing',
+      attempts: attempt,
+      processingStartedAt: now,
+      firstSeenAt: existing?.firstSeenAt || now,
+      updatedAt: now
+    }, { merge: true });
+
+    return { status: 'claimed', attempt } as StripeEventClaim;
+  });
+}
+
+/**
+ * Record a successful event and advance the object's version
+ */
+export async function markStripeEventProcessed(event: Stripe.Event): Promise<void> {
+  const eventRef: FirebaseFirestore.DocumentReference = adminDb.collection(EVENTS_COLLECTION).doc(event.id);
+  const versionRef: FirebaseFirestore.DocumentReference = adminDb.collection(VERSIONS_COLLECTION).doc(getStripeEventObjectKey(event));
+
+  await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const versionDoc = await transaction.get(versionRef);
+    const now = new Date();
+
+    // Only move forward; a concurrently applied newer event keeps its version
+    const lastCreated = versionDoc.exists ? versionDoc.data()?.lastEventCreated || 0 : 0;
+    if (event.created >= lastCreated) {
+      transaction.set(versionRef, {
+        lastEventId: event.id,
+        lastEventType: event.type,
+        lastEventCreated: event.created,
+        updatedAt: now
+      });
+    }
+
+    transaction.update(eventRef, {
+      status: 'processed',
+      processedAt: now,
+      updatedAt: now,
+      error: null
+    });
+  });
+}
+
+/**
+ * Record a failed event and park its payload in the dead-letter collection
+ */
+export async function markStripeEventFailed(event: Stripe.Event, error: unknown, attempts: number): Promise<void> {
+  const now = new Date();
+  const message = error instanceof Error ? error.message : String(error);
+
+  try {
+    await adminDb.collection(EVENTS_COLLECTION).doc(event.id).update({
+      status: 'failed',
+      error: message,
+      failedAt: now,
+      updatedAt: now
+    });
+
+    await adminDb.collection(DEAD_LETTER_COLLECTION).doc(event.id).set({
+      eventId: event.id,
+      eventType: event.type,
+      objectKey: getStripeEventObjectKey(event),
+      // Stored as JSON so the payload round-trips exactly for replay
+      payload: JSON.stringify(event),
+      error: message,
+      attempts,
+      failedAt: now,
+      replayed: false
+    });
+
+    console.log('📮 Stripe event moved to dead-letter queue:', { eventId: event.id, type: event.type });
+  } catch (ledgerError) {
+    console.error('❌ Failed to record dead-lettered Stripe event:', event.id, ledgerError);
+  }
+}
+
+/**
+ * Dead-lettered events, most recent first
+ */
+export async function listStripeDeadLetters(options: { includeReplayed?: boolean; limit?: number } = {}): Promise<StripeDeadLetter[]> {
+  let query: FirebaseFirestore.Query = adminDb.collection(DEAD_LETTER_COLLECTION);
+
+  if (!options.includeReplayed) {
+    query = query.where('replayed', '==', false);
+  }
+
+  const snapshot = await query.orderBy('failedAt', 'desc').limit(options.limit || 50).get();
+
+  return snapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      eventId: data.eventId,
+      eventType: data.eventType,
+      objectKey: data.objectKey,
+      error: data.error,
+      attempts: data.attempts,
+      failedAt: data.failedAt?.toDate?.() || data.failedAt,
+      replayed: data.replayed,
+      replayedAt: data.replayedAt?.toDate?.() || data.replayedAt,
+      replayedBy: data.replayedBy,
+      replayOutcome: data.replayOutcome
+    };
+  });
+}
+
+/**
+ * Load the original event for a dead letter, or null if there is none
+ */
+export async function getStripeDeadLetterEvent(eventId: string): Promise<Stripe.Event | null> {
+  const doc = await adminDb.collection(DEAD_LETTER_COLLECTION).doc(eventId).get();
+  if (!doc.exists) return null;
+
+  return JSON.parse(doc.data()?.payload) as Stripe.Event;
+}
+
+export async function markStripeDeadLetterReplayed(eventId: string, outcome: string, adminId: string): Promise<void> {
+  const now = new Date();
+  await adminDb.collection(DEAD_LETTER_COLLECTION).doc(eventId).update({
+    // A replay that failed again stays in the queue
+    replayed: outcome !== 'failed',
+    replayedAt: now,
+    replayedBy: adminId,
+    replayOutcome: outcome
+  });
+}
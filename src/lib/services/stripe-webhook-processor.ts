@@ -0,0 +1,624 @@
+/**
+ * Stripe Webhook Event Processor
+ *
+ * Applies verified Stripe events to premium_users and custom claims. Event handlers
+ * throw on failure so the caller can record the event in the dead-letter queue;
+ * idempotency and ordering are handled by the ledger in stripe-event-ledger.ts.
+ */
+
+import Stripe from 'stripe';
+import { adminDb, getAdminAuth } from '@/lib/firebase-admin';
+import { getStripe } from '@/lib/stripe-admin';
+import { 
+  lookupFirebaseUser, 
+  createOrUpdatePremiumUser, 
+  extractSubscriptionData, 
+  getSubscriptionStatus,
+  getGracePeriodEndsAt,
+  getInvoiceSubscriptionId,
+  getSubscriptionPeriod,
+  logWebhookEvent,
+  type PremiumUserData
+} from './stripe-webhook-utils';
+import { invalidatePremiumStatusCache } from './premium-status-cache';
+import { getGracePeriodEnd, hasPremiumAccess } from './subscription-state';
+import { resolvePaidPlanTier } from './plan-catalog';
+import type { PlanTier } from '@/lib/stripe';
+import { syncOrganizationSubscription } from './organizations';
+import {
+  claimStripeEvent,
+  markStripeEventFailed,
+  markStripeEventProcessed
+} from './stripe-event-ledger';
+
+export type StripeEventOutcome = 'processed' | 'duplicate' | 'stale' | 'failed';
+
+// Fields a webhook may change on an existing premium_users record
+type PremiumUserRecordUpdates =
+  Partial<Pick<PremiumUserData, 'subscriptionStatus' | 'stripeSubscriptionId' | 'subscriptionPriceId' | 'gracePeriodEndsAt'>> & {
+    subscriptionEndDate?: Date | null;
+    planTier?: PlanTier | null;
+    source: string;
+  };
+
+/**
+ * Run an event through the ledger: skip duplicates and stale events, apply the rest,
+ * and dead-letter failures. Never throws for handler errors.
+ */
+export async function handleStripeWebhookEvent(
+  event: Stripe.Event,
+  options: { replay?: boolean } = {}
+): Promise<StripeEventOutcome> {
+  const claim = await claimStripeEvent(event, options);
+
+  if (claim.status === 'duplicate') {
+    console.log('♻️ Stripe event already handled, skipping:', { id: event.id, previousStatus: claim.previousStatus });
+    return 'duplicate';
+  }
+
+  if (claim.status === 'stale') {
+    console.log('⏪ Stale Stripe event skipped, a newer event was already applied:', {
+      id: event.id,
+      type: event.type,
+      created: event.created,
+      lastAppliedEventId: claim.lastAppliedEventId,
+      lastAppliedCreated: claim.lastAppliedCreated
+    });
+    return 'stale';
+  }
+
+  try {
+    await processStripeEvent(event);
+    await markStripeEventProcessed(event);
+    return 'processed';
+  } catch (eventError) {
+    console.error('❌ Error processing webhook event:', {
+      type: event.type,
+      id: event.id,
+      attempt: claim.attempt,
+      error: eventError instanceof Error ? {
+        name: eventError.name,
+        message: eventError.message,
+        stack: eventError.stack
+      } : eventError
+    });
+
+    await markStripeEventFailed(event, eventError, claim.attempt);
+    return 'failed';
+  }
+}
+
+/**
+ * Dispatch a verified event to its handler. Throws if the handler fails.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      console.log('💳 Processing checkout completion...');
+      await handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
+      console.log('✅ Checkout completion processed successfully');
+      break;
+
+    case 'customer.subscription.created':
+      console.log('🔔 Processing subscription creation...');
+      await handleSubscriptionCreated(event.data.object as Stripe.Subscription);
+      console.log('✅ Subscription creation processed successfully');
+      break;
+
+    case 'customer.subscription.updated':
+      console.log('🔄 Processing subscription update...');
+      await handleSubscriptionUpdated(event.data.object as Stripe.Subscription);
+      console.log('✅ Subscription update processed successfully');
+      break;
+
+    case 'customer.subscription.deleted':
+      console.log('❌ Processing subscription deletion...');
+      await handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+      console.log('✅ Subscription deletion processed successfully');
+      break;
+
+    case 'invoice.payment_succeeded':
+      console.log('💰 Processing successful payment...');
+      await handlePaymentSucceeded(event.data.object as Stripe.Invoice);
+      console.log('✅ Payment success processed successfully');
+      break;
+
+    case 'invoice.payment_failed':
+      console.log('💸 Processing failed payment...');
+      await handlePaymentFailed(event.data.object as Stripe.Invoice);
+      console.log('✅ Payment failure processed successfully');
+      break;
+
+    default:
+      console.log(`⚠️ Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Handle successful checkout completion
+ */
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const stripe = getStripe();
+  logWebhookEvent('checkout.session.completed', { sessionId: session.id });
+
+  try {
+    // Get customer and subscription details
+    const customerId = session.customer as string;
+    const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+    
+    // Get the subscription
+    const subscriptions = await stripe.subscriptions.list({
+      customer: customerId,
+      status: 'active',
+      limit: 1
+    });
+
+    const subscription = subscriptions.data[0];
+    if (!subscription) {
+      console.warn('⚠️ No active subscription found for customer:', customerId);
+      return;
+    }
+
+    // Use consolidated user lookup
+    const userLookup = await lookupFirebaseUser(customer, session);
+    if (!userLookup.found || !userLookup.userId) {
+      console.error('❌ Cannot find userId for customer:', customerId);
+      return;
+    }
+
+    // Extract subscription data
+    const subscriptionData = extractSubscriptionData(subscription);
+
+    // Create premium user record using consolidated utility
+    await createOrUpdatePremiumUser({
+      userId: userLookup.userId,
+      email: userLookup.email,
+      subscriptionStatus: getSubscriptionStatus(subscription),
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscription.id,
+      ...subscriptionData,
+      source: 'checkout_completed'
+    });
+    await invalidatePremiumStatusCache(userLookup.userId);
+
+    // Team subscriptions get an organization owned by the subscriber
+    await syncOrganizationSubscription({
+      subscription,
+      subscriptionStatus: getSubscriptionStatus(subscription),
+      owner: { userId: userLookup.userId, email: userLookup.email }
+    });
+
+    console.log('✅ Premium user created from checkout completion:', userLookup.userId);
+
+  } catch (error) {
+    console.error('❌ Error processing checkout completion:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle subscription creation
+ */
+async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
+  const stripe = getStripe();
+  console.log('🔄 Processing subscription creation:', subscription.id);
+
+  try {
+    const customerId = subscription.customer as string;
+    const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+    
+    const email = customer.email;
+    if (!email) {
+      console.error('❌ No email found for customer:', customerId);
+      return;
+    }
+
+    // Find user by email
+    let userId: string | null = null;
+    try {
+      const auth = getAdminAuth();
+      const userRecord = await auth.getUserByEmail(email);
+      userId = userRecord.uid;
+    } catch {
+      console.warn('⚠️ User not found by email:', email);
+      return;
+    }
+
+    if (!userId) return;
+
+    await createPremiumUserRecord({
+      userId,
+      email,
+      customerId,
+      subscription,
+      source: 'subscription_created'
+    });
+
+    console.log('✅ Premium user created from subscription creation:', userId);
+
+  } catch (error) {
+    console.error('❌ Error processing subscription creation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle subscription updates
+ */
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
+  const stripe = getStripe();
+  console.log('🔄 Processing subscription update:', subscription.id);
+
+  try {
+    const customerId = subscription.customer as string;
+    const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+    
+    const email = customer.email;
+    if (!email) return;
+
+    // Find user by email
+    let userId: string | null = null;
+    try {
+      const auth = getAdminAuth();
+      const userRecord = await auth.getUserByEmail(email);
+      userId = userRecord.uid;
+    } catch {
+      return;
+    }
+
+    if (!userId) return;
+
+    // Update subscription status based on Stripe status (includes dunning and pending cancellation)
+    const subscriptionStatus = getSubscriptionStatus(subscription);
+
+    // A cancellation scheduled for the period end keeps access until then
+    let subscriptionEndDate: Date | null = subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null;
+    if (subscription.cancel_at_period_end) {
+      subscriptionEndDate = new Date(getSubscriptionPeriod(subscription).current_period_end * 1000);
+    }
+
+    const subscriptionPriceId = subscription.items.data[0]?.price.id || null;
+
+    await updatePremiumUserRecord(userId, {
+      subscriptionStatus,
+      stripeSubscriptionId: subscription.id,
+      subscriptionPriceId,
+      planTier: resolvePaidPlanTier(subscriptionPriceId),
+      subscriptionEndDate,
+      gracePeriodEndsAt: getGracePeriodEndsAt(subscription),
+      source: 'subscription_updated'
+    });
+
+    // Seat quantity and billing state for team subscriptions
+    await syncOrganizationSubscription({
+      subscription,
+      subscriptionStatus,
+      gracePeriodEndsAt: getGracePeriodEndsAt(subscription),
+      owner: { userId, email }
+    });
+
+    console.log('✅ Premium user updated from subscription update:', userId);
+
+  } catch (error) {
+    console.error('❌ Error processing subscription update:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle subscription deletion/cancellation
+ */
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+  const stripe = getStripe();
+  console.log('🗑️ Processing subscription deletion:', subscription.id);
+
+  try {
+    const customerId = subscription.customer as string;
+    const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+    
+    const email = customer.email;
+    if (!email) return;
+
+    // Find user by email
+    let userId: string | null = null;
+    try {
+      const auth = getAdminAuth();
+      const userRecord = await auth.getUserByEmail(email);
+      userId = userRecord.uid;
+    } catch {
+      return;
+    }
+
+    if (!userId) return;
+
+    // Downgrade to limited status
+    await updatePremiumUserRecord(userId, {
+      subscriptionStatus: 'limited',
+      subscriptionEndDate: new Date(subscription.canceled_at! * 1000),
+      gracePeriodEndsAt: null,
+      source: 'subscription_deleted'
+    });
+
+    // Seated members lose access along with the owner
+    await syncOrganizationSubscription({ subscription, subscriptionStatus: 'limited' });
+
+    console.log('✅ Premium user downgraded from subscription deletion:', userId);
+
+  } catch (error) {
+    console.error('❌ Error processing subscription deletion:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle successful payment
+ */
+async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
+  const stripe = getStripe();
+  console.log('💰 Processing payment success:', invoice.id);
+
+  try {
+    const subscriptionId = getInvoiceSubscriptionId(invoice);
+    if (!subscriptionId) return;
+
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const customerId = subscription.customer as string;
+    const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+    
+    const email = customer.email;
+    if (!email) return;
+
+    let userId: string | null = null;
+    try {
+      const auth = getAdminAuth();
+      const userRecord = await auth.getUserByEmail(email);
+      userId = userRecord.uid;
+    } catch {
+      return;
+    }
+
+    if (!userId) return;
+
+    // Ensure user is premium after successful payment and close any grace window
+    const subscriptionStatus = getSubscriptionStatus(subscription) === 'canceled_at_period_end' ? 'canceled_at_period_end' : 'premium';
+
+    await updatePremiumUserRecord(userId, {
+      subscriptionStatus,
+      gracePeriodEndsAt: null,
+      source: 'payment_succeeded'
+    });
+    await syncOrganizationSubscription({ subscription, subscriptionStatus });
+
+    console.log('✅ Premium status confirmed after payment success:', userId);
+
+  } catch (error) {
+    console.error('❌ Error processing payment success:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle failed payment
+ */
+async function handlePaymentFailed(invoice: Stripe.Invoice) {
+  const stripe = getStripe();
+  console.log('💸 Processing payment failure:', invoice.id);
+
+  try {
+    const subscriptionId = getInvoiceSubscriptionId(invoice);
+    if (!subscriptionId) return;
+
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const customerId = subscription.customer as string;
+    const customer = await stripe.customers.retrieve(customerId) as Stripe.Customer;
+
+    const email = customer.email;
+    if (!email) return;
+
+    let userId: string | null = null;
+    try {
+      const auth = getAdminAuth();
+      const userRecord = await auth.getUserByEmail(email);
+      userId = userRecord.uid;
+    } catch {
+      return;
+    }
+
+    if (!userId) return;
+
+    // Stripe retries failed renewals against the same invoice, so anchor the window
+    // to the invoice rather than extending it on every retry
+    const gracePeriodEndsAt = getGracePeriodEndsAt(subscription) || getGracePeriodEnd(new Date(invoice.created * 1000));
+
+    const subscriptionStatus = gracePeriodEndsAt > new Date() ? 'grace' : 'past_due';
+
+    await updatePremiumUserRecord(userId, {
+      subscriptionStatus,
+      stripeSubscriptionId: subscription.id,
+      gracePeriodEndsAt,
+      source: 'payment_failed'
+    });
+    await syncOrganizationSubscription({ subscription, subscriptionStatus, gracePeriodEndsAt });
+
+    console.log('⏳ Payment failed, premium kept until grace period ends:', {
+      userId,
+      subscriptionStatus,
+      gracePeriodEndsAt: gracePeriodEndsAt.toISOString(),
+      attemptCount: invoice.attempt_count
+    });
+
+  } catch (error) {
+    console.error('❌ Error processing payment failure:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a premium user record
+ */
+async function createPremiumUserRecord({
+  userId,
+  email,
+  customerId,
+  subscription,
+  source
+}: {
+  userId: string;
+  email: string;
+  customerId: string;
+  subscription: Stripe.Subscription;
+  source: string;
+}) {
+  const priceId = subscription.items.data[0]?.price.id;
+  
+  const premiumUserData = {
+    userId,
+    email,
+    subscriptionStatus: 'premium' as const,
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscription.id,
+    subscriptionStartDate: new Date(subscription.created * 1000),
+    subscriptionEndDate: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
+    subscriptionPriceId: priceId,
+    planTier: resolvePaidPlanTier(priceId),
+    deviceFingerprints: {},
+    dailyUsageData: {},
+    preferences: {
+      theme: 'light',
+      ttsEnabled: true,
+      language: 'en'
+    },
+    metadata: {
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastAccess: new Date(),
+      version: 1,
+      source: source
+    }
+  };
+
+  // Use atomic transaction to prevent race conditions
+  const premiumUserRef: FirebaseFirestore.DocumentReference = adminDb.collection('premium_users').doc(userId);
+  
+  try {
+    await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+      const existingDoc = await transaction.get(premiumUserRef);
+      
+      if (existingDoc.exists) {
+        // Update existing record
+        const updateData = {
+          ...premiumUserData,
+          'metadata.updatedAt': new Date(),
+          'metadata.lastAccess': new Date(),
+          'metadata.version': (existingDoc.data()?.metadata?.version || 0) + 1
+        };
+        transaction.update(premiumUserRef, updateData);
+        console.log('✅ Updated existing premium user record:', userId);
+      } else {
+        // Create new record
+        transaction.set(premiumUserRef, premiumUserData);
+        console.log('✅ Created new premium user record:', userId);
+      }
+    });
+
+    // Set Firebase custom claims for backward compatibility (outside transaction)
+    try {
+      const auth = getAdminAuth();
+      // Keep admin and other unrelated claims
+      const existingClaims = (await auth.getUser(userId)).customClaims || {};
+      await auth.setCustomUserClaims(userId, {
+        ...existingClaims,
+        subscriptionStatus: 'premium',
+        stripeCustomerId: customerId,
+        stripeSubscriptionId: subscription.id,
+        premium: true,
+        stripeRole: 'premium',
+        planTier: premiumUserData.planTier
+      });
+      console.log('✅ Set custom claims for user:', userId);
+    } catch (error) {
+      console.warn('⚠️ Failed to set custom claims:', error);
+    }
+
+    await invalidatePremiumStatusCache(userId);
+
+    await syncOrganizationSubscription({
+      subscription,
+      subscriptionStatus: getSubscriptionStatus(subscription),
+      owner: { userId, email }
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to create/update premium user record:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update existing premium user record
+ */
+async function updatePremiumUserRecord(userId: string, updates: PremiumUserRecordUpdates) {
+  const premiumUserRef: FirebaseFirestore.DocumentReference = adminDb.collection('premium_users').doc(userId);
+  
+  try {
+    await adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+      const existingDoc = await transaction.get(premiumUserRef);
+      
+      if (existingDoc.exists) {
+        const currentData = existingDoc.data();
+        const updateData = {
+          ...updates,
+          'metadata.updatedAt': new Date(),
+          'metadata.lastAccess': new Date(),
+          'metadata.version': (currentData?.metadata?.version || 0) + 1
+        };
+        
+        transaction.update(premiumUserRef, updateData);
+        console.log('✅ Updated premium user record:', userId);
+      } else {
+        console.warn('⚠️ Premium user record not found for update:', userId);
+        // Create the record if it doesn't exist
+        const newData = {
+          userId,
+          subscriptionStatus: updates.subscriptionStatus || 'premium',
+          ...updates,
+          metadata: {
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            lastAccess: new Date(),
+            version: 1,
+            source: 'webhook_update'
+          }
+        };
+        transaction.set(premiumUserRef, newData);
+        console.log('✅ Created premium user record during update:', userId);
+      }
+    });
+
+    // Update custom claims if subscription status changed (outside transaction)
+    if (updates.subscriptionStatus) {
+      try {
+        const auth = getAdminAuth();
+        const premiumAccess = hasPremiumAccess(updates.subscriptionStatus);
+        const existingClaims = (await auth.getUser(userId)).customClaims || {};
+        await auth.setCustomUserClaims(userId, {
+          ...existingClaims,
+          subscriptionStatus: updates.subscriptionStatus,
+          premium: premiumAccess,
+          stripeRole: premiumAccess ? 'premium' : null,
+          ...(updates.planTier ? { planTier: premiumAccess ? updates.planTier : null } : {}),
+          gracePeriodEndsAt: updates.gracePeriodEndsAt ? updates.gracePeriodEndsAt.getTime() : null
+        });
+        console.log('✅ Updated custom claims for user:', userId);
+      } catch (error) {
+        console.warn('⚠️ Failed to update custom claims:', error);
+      }
+    }
+
+    await invalidatePremiumStatusCache(userId);
+
+  } catch (error) {
+    console.error('❌ Failed to update premium user record:', error);
+    throw error;
+  }
+}
@@ -4,9 +4,11 @@
  * Consolidated utilities for Stripe webhook processing to eliminate duplicate code
  */
 
-import { adminDb } from '@/lib/firebase-admin';
-import { getAuth } from 'firebase-admin/auth';
+import { adminDb, getAdminAuth } from '@/lib/firebase-admin';
 import Stripe from 'stripe';
+import { getGracePeriodEnd, hasPremiumAccess, type BillingSubscriptionStatus } from './subscription-state';
+import { resolvePaidPlanTier } from './plan-catalog';
+import type { PlanTier } from '@/lib/stripe';
 
 export interface StripeUserLookupResult {
   userId: string | null;
@@ -18,12 +20,14 @@ export interface StripeUserLookupResult {
 export interface PremiumUserData {
   userId: string;
   email: string;
-  subscriptionStatus: 'premium' | 'limited';
+  subscriptionStatus: BillingSubscriptionStatus;
   stripeCustomerId: string;
   stripeSubscriptionId?: string;
   subscriptionStartDate?: Date;
   subscriptionEndDate?: Date;
-  subscriptionPriceId?: string;
+  gracePeriodEndsAt?: Date | null;
+  subscriptionPriceId?: string | null;
+  planTier?: PlanTier;
   source: string;
 }
 
@@ -57,7 +61,7 @@ export async function lookupFirebaseUser(
   // 3. Try to look up user by email in Firebase Auth
   else if (email) {
     try {
-      const auth = getAuth();
+      const auth = getAdminAuth();
       const userRecord = await auth.getUserByEmail(email);
       userId = userRecord.uid;
       source = 'email_lookup';
@@ -107,7 +111,10 @@ export async function createOrUpdatePremiumUser(data: PremiumUserData): Promise<
       subscriptionStartDate: otherData.subscriptionStartDate || existingData?.subscriptionStartDate || null,
       subscriptionEndDate: otherData.subscriptionEndDate || existingData?.subscriptionEndDate || null,
       subscriptionPriceId: otherData.subscriptionPriceId || existingData?.subscriptionPriceId || null,
+      planTier: otherData.planTier || existingData?.planTier || null,
+      gracePeriodEndsAt: otherData.gracePeriodEndsAt || null,
       deviceFingerprints: existingData?.deviceFingerprints || {},
+      provenance: existingData?.provenance || null, // Last registration, see premium-registration.ts
       dailyUsageData: existingData?.dailyUsageData || {},
       preferences: existingData?.preferences || {
         theme: 'light',
@@ -128,7 +135,14 @@ export async function createOrUpdatePremiumUser(data: PremiumUserData): Promise<
     console.log('✅ Premium user record created/updated:', userId);
 
     // Also set Firebase custom claims for backward compatibility
-    await updateFirebaseCustomClaims(userId, subscriptionStatus, stripeCustomerId, otherData.stripeSubscriptionId);
+    await updateFirebaseCustomClaims(
+      userId,
+      subscriptionStatus,
+      stripeCustomerId,
+      otherData.stripeSubscriptionId,
+      otherData.gracePeriodEndsAt,
+      otherData.planTier
+    );
 
   } catch (error) {
     console.error('❌ Failed to create/update premium user:', error);
@@ -137,31 +151,80 @@ export async function createOrUpdatePremiumUser(data: PremiumUserData): Promise<
 }
 
 /**
- * Update Firebase custom claims for backward compatibility
+ * Write the billing custom claims, keeping admin and other unrelated claims. Throws
+ * when the write fails; callers that must know whether it landed use this directly.
+ */
+export async function setFirebaseCustomClaims(
+  userId: string,
+  subscriptionStatus: BillingSubscriptionStatus,
+  stripeCustomerId?: string,
+  stripeSubscriptionId?: string,
+  gracePeriodEndsAt?: Date | null,
+  planTier?: PlanTier | null
+): Promise<void> {
+  const auth = getAdminAuth();
+  const premiumAccess = hasPremiumAccess(subscriptionStatus);
+  const existingClaims = (await auth.getUser(userId)).customClaims || {};
+  const customClaims = {
+    ...existingClaims,
+    subscriptionStatus: subscriptionStatus,
+    stripeCustomerId: stripeCustomerId || null,
+    stripeSubscriptionId: stripeSubscriptionId || null,
+    premium: premiumAccess,
+    stripeRole: premiumAccess ? 'premium' : null,
+    planTier: premiumAccess ? planTier || null : null,
+    gracePeriodEndsAt: gracePeriodEndsAt ? gracePeriodEndsAt.getTime() : null // Epoch ms - claims must be JSON
+  };
+
+  await auth.setCustomUserClaims(userId, customClaims);
+  console.log('✅ Firebase custom claims updated:', userId);
+}
+
+/**
+ * Update Firebase custom claims for backward compatibility. Failures are logged, not thrown.
  */
 export async function updateFirebaseCustomClaims(
   userId: string,
-  subscriptionStatus: 'premium' | 'limited',
+  subscriptionStatus: BillingSubscriptionStatus,
   stripeCustomerId?: string,
-  stripeSubscriptionId?: string
+  stripeSubscriptionId?: string,
+  gracePeriodEndsAt?: Date | null,
+  planTier?: PlanTier | null
 ): Promise<void> {
   try {
-    const auth = getAuth();
-    const customClaims = {
-      subscriptionStatus: subscriptionStatus,
-      stripeCustomerId: stripeCustomerId || null,
-      stripeSubscriptionId: stripeSubscriptionId || null,
-      premium: subscriptionStatus === 'premium',
-      stripeRole: subscriptionStatus === 'premium' ? 'premium' : null
-    };
-
-    await auth.setCustomUserClaims(userId, customClaims);
-    console.log('✅ Firebase custom claims updated:', userId);
+    await setFirebaseCustomClaims(userId, subscriptionStatus, stripeCustomerId, stripeSubscriptionId, gracePeriodEndsAt, planTier);
   } catch (error) {
     console.warn('⚠️ Failed to set custom claims (non-critical):', error);
   }
 }
 
+// The pinned API version (2023-10-16) still returns these fields, newer SDK typings moved them
+interface LegacySubscriptionFields {
+  current_period_start: number;
+  current_period_end: number;
+}
+
+interface LegacyInvoiceFields {
+  subscription: string | Stripe.Subscription | null;
+}
+
+/**
+ * Current billing period of a subscription as returned by the pinned API version
+ */
+export function getSubscriptionPeriod(subscription: Stripe.Subscription): LegacySubscriptionFields {
+  const { current_period_start, current_period_end } = subscription as unknown as LegacySubscriptionFields;
+  return { current_period_start, current_period_end };
+}
+
+/**
+ * Subscription ID an invoice was billed for, if any
+ */
+export function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const { subscription } = invoice as unknown as LegacyInvoiceFields;
+  if (!subscription) return null;
+  return typeof subscription === 'string' ? subscription : subscription.id;
+}
+
 /**
  * Extract subscription data from Stripe subscription object
  */
@@ -169,20 +232,51 @@ export function extractSubscriptionData(subscription: Stripe.Subscription): {
   subscriptionStartDate: Date;
   subscriptionEndDate: Date;
   subscriptionPriceId: string | null;
+  planTier: PlanTier;
 } {
+  const subscriptionPriceId = subscription.items.data[0]?.price.id || null;
+
   return {
     subscriptionStartDate: new Date(subscription.created * 1000),
-    subscriptionEndDate: new Date(subscription.current_period_end * 1000),
-    subscriptionPriceId: subscription.items.data[0]?.price.id || null
+    subscriptionEndDate: new Date(getSubscriptionPeriod(subscription).current_period_end * 1000),
+    subscriptionPriceId,
+    planTier: resolvePaidPlanTier(subscriptionPriceId)
   };
 }
 
 /**
  * Determine subscription status from Stripe subscription
  */
-export function getSubscriptionStatus(subscription: Stripe.Subscription): 'premium' | 'limited' {
+export function getSubscriptionStatus(subscription: Stripe.Subscription): BillingSubscriptionStatus {
   const activeStatuses = ['active', 'trialing'];
-  return activeStatuses.includes(subscription.status) ? 'premium' : 'limited';
+
+  if (activeStatuses.includes(subscription.status)) {
+    return subscription.cancel_at_period_end ? 'canceled_at_period_end' : 'premium';
+  }
+
+  if (subscription.status === 'past_due') {
+    const gracePeriodEndsAt = getGracePeriodEndsAt(subscription);
+    return gracePeriodEndsAt && gracePeriodEndsAt > new Date() ? 'grace' : 'past_due';
+  }
+
+  // Stripe gave up retrying
+  if (subscription.status === 'unpaid') {
+    return 'past_due';
+  }
+
+  return 'limited';
+}
+
+/**
+ * End of the grace window for a past_due subscription.
+ * The failed renewal is billed at the start of the current period, so the window runs from there.
+ */
+export function getGracePeriodEndsAt(subscription: Stripe.Subscription): Date | null {
+  if (subscription.status !== 'past_due') {
+    return null;
+  }
+
+  return getGracePeriodEnd(new Date(getSubscriptionPeriod(subscription).current_period_start * 1000));
 }
 
 /**
@@ -0,0 +1,92 @@
+/**
+ * Subscription Billing States
+ *
+ * Stripe subscriptions map onto five stored states:
+ * - premium: paid and renewing
+ * - canceled_at_period_end: paid, but will not renew; access runs to the period end
+ * - grace: a renewal payment failed; access continues until gracePeriodEndsAt
+ * - past_due: payment still failing after the grace window; premium access is off
+ * - limited: no paid subscription
+ */
+
+export type BillingSubscriptionStatus =
+  | 'premium'
+  | 'limited'
+  | 'past_due'
+  | 'grace'
+  | 'canceled_at_period_end';
+
+export interface BillingWarning {
+  code: 'PAYMENT_FAILED_GRACE' | 'PAYMENT_PAST_DUE' | 'SUBSCRIPTION_ENDING';
+  message: string;
+  accessEndsAt: string | null;
+}
+
+const DEFAULT_GRACE_PERIOD_DAYS = 7;
+const PREMIUM_ACCESS_STATUSES: string[] = ['premium', 'grace', 'canceled_at_period_end'];
+
+/**
+ * Length of the grace window after a failed payment (PREMIUM_GRACE_PERIOD_DAYS)
+ */
+export function getGracePeriodDays(): number {
+  const configured = parseInt(process.env.PREMIUM_GRACE_PERIOD_DAYS || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_GRACE_PERIOD_DAYS;
+}
+
+export function getGracePeriodEnd(failedAt: Date): Date {
+  return new Date(failedAt.getTime() + getGracePeriodDays() * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a status unlocks premium features
+ */
+export function hasPremiumAccess(status: string | null | undefined): boolean {
+  return !!status && PREMIUM_ACCESS_STATUSES.includes(status);
+}
+
+/**
+ * Downgrade a stored grace status whose window has already elapsed.
+ * Stores are only rewritten by webhooks, so readers must apply this themselves.
+ */
+export function resolveGraceStatus<T extends string>(
+  status: T,
+  gracePeriodEndsAt: Date | null | undefined,
+  now: Date = new Date()
+): T | 'past_due' {
+  if (status === 'grace' && gracePeriodEndsAt && gracePeriodEndsAt.getTime() <= now.getTime()) {
+    return 'past_due';
+  }
+  return status;
+}
+
+/**
+ * Warning for the extension to show while access is at risk, or null when billing is healthy
+ */
+export function getBillingWarning(status: {
+  subscriptionStatus: string;
+  gracePeriodEndsAt?: Date | null;
+  subscriptionEndDate?: Date | null;
+}): BillingWarning | null {
+  switch (status.subscriptionStatus) {
+    case 'grace':
+      return {
+        code: 'PAYMENT_FAILED_GRACE',
+        message: 'Your last payment failed. Update your payment method to keep Premium access.',
+        accessEndsAt: status.gracePeriodEndsAt?.toISOString() || null
+      };
+    case 'past_due':
+      return {
+        code: 'PAYMENT_PAST_DUE',
+        message: 'Premium access is paused because your payment is past due. Update your payment method to restore it.',
+        accessEndsAt: null
+      };
+    case 'canceled_at_period_end':
+      return {
+        code: 'SUBSCRIPTION_ENDING',
+        message: 'Your subscription is canceled and Premium access ends at the end of the billing period.',
+        accessEndsAt: status.subscriptionEndDate?.toISOString() || null
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Task Usage Budgets
+ *
+ * Counts task executions and reserved tokens per user per quota day in
+ * task_usage/{userId}_{date}, and checks them against the tier's quota policy before
+ * a task runs. A task reserves its full token allowance up front.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import type { QuotaPolicy } from './quota-policy';
+import { getQuotaDate, getNextResetTime } from './quota-ledger';
+import { DEFAULT_TIME_ZONE } from './user-timezone';
+
+export type TaskQuotaDenialCode = 'TASK_EXECUTIONS_EXHAUSTED' | 'TOKEN_BUDGET_EXHAUSTED';
+
+export interface TaskReservation {
+  allowed: boolean;
+  code?: TaskQuotaDenialCode;
+  maxTokens: number;         // Tokens granted to this execution
+  executionsToday: number;
+  tokensToday: number;
+  nextResetTime: string;
+}
+
+/**
+ * Reserve one execution and its tokens against today's task budget. The granted
+ * maxTokens is capped by the policy's per-task limit and whatever budget is left.
+ */
+export async function reserveTaskExecution({
+  userId,
+  taskId,
+  requestedTokens,
+  policy,
+  timeZone = DEFAULT_TIME_ZONE,
+  now = new Date()
+}: {
+  userId: string;
+  taskId: string;
+  requestedTokens: number;
+  policy: QuotaPolicy;
+  timeZone?: string;
+  now?: Date;
+}): Promise<TaskReservation> {
+  const date = getQuotaDate(now, timeZone);
+  const usageRef: FirebaseFirestore.DocumentReference = adminDb.collection('task_usage').doc(`${userId}_${date}`);
+  const nextResetTime = getNextResetTime(now, timeZone);
+
+  return adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const usageDoc = await transaction.get(usageRef);
+    const usage = usageDoc.exists ? usageDoc.data()! : {};
+    const executionsToday: number = usage.executions || 0;
+    const tokensToday: number = usage.tokens || 0;
+
+    if (policy.taskExecutionsPerDay !== null && executionsToday >= policy.taskExecutionsPerDay) {
+      return { allowed: false, code: 'TASK_EXECUTIONS_EXHAUSTED', maxTokens: 0, executionsToday, tokensToday, nextResetTime };
+    }
+
+    let maxTokens = Math.min(requestedTokens, policy.maxTokensPerTask);
+    if (policy.dailyTokenBudget !== null) {
+      maxTokens = Math.min(maxTokens, Math.max(0, policy.dailyTokenBudget - tokensToday));
+    }
+    if (maxTokens <= 0) {
+      return { allowed: false, code: 'TOKEN_BUDGET_EXHAUSTED', maxTokens: 0, executionsToday, tokensToday, nextResetTime };
+    }
+
+    transaction.set(usageRef, {
+      userId,
+      date,
+      timeZone,
+      tier: policy.tier,
+      executions: executionsToday + 1,
+      tokens: tokensToday + maxTokens,
+      lastTaskId: taskId,
+      updatedAt: now,
+      ...(usageDoc.exists ? {} : { createdAt: now })
+    }, { merge: true });
+
+    return {
+      allowed: true,
+      maxTokens,
+      executionsToday: executionsToday + 1,
+      tokensToday: tokensToday + maxTokens,
+      nextResetTime
+    };
+  });
+}
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { getQuotaDate, getQuotaLedgerId } from './quota-ledger';
+import { getMaxCreditPerBeatMs, getIdleGapMs, recordHeartbeatUsage } from './usage-accounting';
+
+describe('recordHeartbeatUsage', () => {
+  let db: InMemoryFirestore;
+  const now = new Date('2025-03-10T12:00:00.000Z');
+  const ledgerPath = `quota_ledger/${getQuotaLedgerId('user_1', getQuotaDate(now, 'UTC'))}`;
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+    db.write('sessions/session_1', {
+      userId: 'user_1',
+      status: 'active',
+      usageAccounting: 'measured',
+      totalUsageTime: 0,
+      lastHeartbeat: new Date(now.getTime() - getIdleGapMs() - 1000)
+    }, 'set');
+    db.write(ledgerPath, {
+      userId: 'user_1',
+      activated: true,
+      totalUsageTime: 0,
+      devices: { device_1: { usageTime: 0, firstSeenAt: now, lastHeartbeat: null } }
+    }, 'set');
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  function beat(dailyLimitMs: number) {
+    return recordHeartbeatUsage({
+      sessionId: 'session_1',
+      userId: 'user_1',
+      deviceFingerprint: 'device_1',
+      dailyLimitMs,
+      subscriptionStatus: dailyLimitMs === -1 ? 'premium' : 'limited',
+      timeZone: 'UTC',
+      now
+    });
+  }
+
+  it('charges and ends a limited session after an idle gap', async () => {
+    const result = await beat(60 * 60 * 1000);
+
+    expect(result).toMatchObject({
+      reason: 'idle_gap',
+      creditedMs: getMaxCreditPerBeatMs(),
+      shouldStop: true,
+      stopReason: 'SESSION_IDLE'
+    });
+    expect(db.read(ledgerPath)?.totalUsageTime).toBe(getMaxCreditPerBeatMs());
+  });
+
+  it('keeps an unlimited session running after an idle gap', async () => {
+    const result = await beat(-1);
+
+    expect(result).toMatchObject({ reason: 'idle_gap', shouldStop: false });
+    expect(result.stopReason).toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Measured Usage Accounting
+ *
+ * Credits session usage from the measured interval between consecutive heartbeats
+ * instead of a fixed amount per beat. Each beat is credited at most
+ * USAGE_MAX_CREDIT_PER_BEAT_MS. A gap longer than USAGE_IDLE_GAP_MS is not billed in
+ * full: the beat is credited the per-beat cap, and on limited plans the session stops so
+ * the client has to start a new one (otherwise beating just past the gap would never
+ * draw quota). Every beat is recorded in sessions/{sessionId}/usage_timeline so quota
+ * decisions can be audited. Limited plans draw the credit from the user's
+ * daily quota ledger (quota-ledger.ts).
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { applyQuotaUsage, getQuotaDate, getQuotaLedgerRef, type QuotaDenialCode } from './quota-ledger';
+
+export const HEARTBEAT_INTERVAL_MS = 30000; // Interval recommended to clients
+
+const DEFAULT_MAX_CREDIT_PER_BEAT_MS = 45000; // 1.5x the interval absorbs network jitter
+const DEFAULT_IDLE_GAP_MS = 120000; // Four missed beats
+
+export type HeartbeatCreditReason = 'measured' | 'capped' | 'idle_gap' | 'first_beat' | 'clock_skew';
+
+export interface HeartbeatCredit {
+  elapsedMs: number;
+  creditedMs: number;
+  reason: HeartbeatCreditReason;
+}
+
+export type HeartbeatStopReason = QuotaDenialCode | 'SESSION_IDLE';
+
+export interface HeartbeatUsageResult extends HeartbeatCredit {
+  sessionUsageTime: number;
+  dailyUsageTime: number | null; // null when the plan has no daily limit
+  deviceUsageTime: number | null;
+  timeRemaining: number; // -1 = unlimited
+  shouldStop: boolean;
+  stopReason?: HeartbeatStopReason;
+  ledgerId: string | null;
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getMaxCreditPerBeatMs(): number {
+  return readPositiveIntEnv('USAGE_MAX_CREDIT_PER_BEAT_MS', DEFAULT_MAX_CREDIT_PER_BEAT_MS);
+}
+
+export function getIdleGapMs(): number {
+  return readPositiveIntEnv('USAGE_IDLE_GAP_MS', DEFAULT_IDLE_GAP_MS);
+}
+
+/**
+ * Firestore hands stored Dates back as Timestamps
+ */
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+/**
+ * Usage to credit for a beat arriving at `now` after the previous one
+ */
+export function measureHeartbeatCredit(previousHeartbeat: Date | null, now: Date): HeartbeatCredit {
+  if (!previousHeartbeat) {
+    return { elapsedMs: 0, creditedMs: 0, reason: 'first_beat' };
+  }
+
+  const elapsedMs = now.getTime() - previousHeartbeat.getTime();
+
+  if (elapsedMs < 0) {
+    return { elapsedMs, creditedMs: 0, reason: 'clock_skew' };
+  }
+  const maxCredit = getMaxCreditPerBeatMs();
+  if (elapsedMs > getIdleGapMs()) {
+    // Sleep isn't billed, but the beat still costs as much as any other
+    return { elapsedMs, creditedMs: maxCredit, reason: 'idle_gap' };
+  }
+
+  if (elapsedMs > maxCredit) {
+    return { elapsedMs, creditedMs: maxCredit, reason: 'capped' };
+  }
+
+  return { elapsedMs, creditedMs: elapsedMs, reason: 'measured' };
+}
+
+/**
+ * Credit one heartbeat to the session and, for limited plans, the user's quota ledger.
+ * Runs in a transaction against the session's lastHeartbeat so concurrent beats
+ * can't both claim the same interval.
+ */
+export async function recordHeartbeatUsage({
+  sessionId,
+  userId,
+  deviceFingerprint,
+  dailyLimitMs,
+  subscriptionStatus,
+  timeZone,
+  now
+}: {
+  sessionId: string;
+  userId: string;
+  deviceFingerprint: string;
+  dailyLimitMs: number;
+  subscriptionStatus: string;
+  timeZone: string;
+  now: Date;
+}): Promise<HeartbeatUsageResult> {
+  const sessionRef: FirebaseFirestore.DocumentReference = adminDb.collection('sessions').doc(sessionId);
+  const ledgerRef: FirebaseFirestore.DocumentReference | null =
+    dailyLimitMs === -1 ? null : getQuotaLedgerRef(userId, getQuotaDate(now, timeZone));
+  const timelineRef: FirebaseFirestore.DocumentReference = sessionRef.collection('usage_timeline').doc();
+
+  return adminDb.runTransaction(async (transaction: FirebaseFirestore.Transaction) => {
+    const [sessionDoc, ledgerDoc] = await Promise.all([
+      transaction.get(sessionRef),
+      ledgerRef ? transaction.get(ledgerRef) : Promise.resolve(null)
+    ]);
+
+    const sessionData = sessionDoc.data() || {};
+    const previousHeartbeat = toDate(sessionData.lastHeartbeat);
+    const credit = measureHeartbeatCredit(previousHeartbeat, now);
+    // Sessions started before measured accounting carry no trustworthy total
+    const previousSessionUsage = sessionData.usageAccounting === 'measured' ? sessionData.totalUsageTime || 0 : 0;
+    const sessionUsageTime = previousSessionUsage + credit.creditedMs;
+
+    let dailyUsageTime: number | null = null;
+    let deviceUsageTime: number | null = null;
+    let timeRemaining = -1;
+    let shouldStop = false;
+    let stopReason: HeartbeatStopReason | undefined;
+
+    if (ledgerRef) {
+      if (!ledgerDoc?.exists) {
+        // No daily activation found today - deny access
+        timeRemaining = 0;
+        shouldStop = true;
+        stopReason = 'DAILY_USE_NOT_ACTIVATED';
+      } else {
+        const quota = applyQuotaUsage({
+          transaction,
+          ledgerRef,
+          ledgerData: ledgerDoc.data()!,
+          deviceFingerprint,
+          creditedMs: credit.creditedMs,
+          dailyLimitMs,
+          now
+        });
+        dailyUsageTime = quota.totalUsageTime;
+        deviceUsageTime = quota.deviceUsageTime;
+        timeRemaining = quota.timeRemaining;
+        shouldStop = !quota.allowed;
+        stopReason = quota.code;
+      }
+
+      if (!shouldStop && credit.reason === 'idle_gap') {
+        // Unlimited plans have no quota to protect, so only limited sessions end here
+        shouldStop = true;
+        stopReason = 'SESSION_IDLE';
+      }
+    }
+
+    transaction.update(sessionRef, {
+      lastHeartbeat: now,
+      totalUsageTime: sessionUsageTime,
+      usageAccounting: 'measured'
+    });
+
+    transaction.set(timelineRef, {
+      at: now,
+      previousHeartbeatAt: previousHeartbeat,
+      elapsedMs: credit.elapsedMs,
+      creditedMs: credit.creditedMs,
+      reason: credit.reason,
+      sessionUsageTime,
+      dailyUsageTime,
+      deviceUsageTime,
+      ledgerId: ledgerRef?.id || null,
+      dailyLimitMs,
+      subscriptionStatus,
+      stopReason: stopReason || null
+    });
+
+    return {
+      ...credit,
+      sessionUsageTime,
+      dailyUsageTime,
+      deviceUsageTime,
+      timeRemaining,
+      shouldStop,
+      stopReason,
+      ledgerId: ledgerRef?.id || null
+    };
+  });
+}
+
+/**
+ * Timeline entries for a session, oldest first
+ */
+export async function getSessionUsageTimeline(sessionId: string, limit: number = 500): Promise<FirebaseFirestore.DocumentData[]> {
+  const snapshot = await adminDb.collection('sessions').doc(sessionId)
+    .collection('usage_timeline')
+    .orderBy('at', 'asc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) => ({ id: doc.id, ...doc.data() }));
+}
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setAdminDbOverride } from '@/lib/firebase-admin';
+import { InMemoryFirestore } from '@/lib/testing/in-memory-firestore';
+import { rollupUsageStats } from './usage-stats';
+
+describe('rollupUsageStats', () => {
+  let db: InMemoryFirestore;
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  beforeEach(() => {
+    db = new InMemoryFirestore();
+    setAdminDbOverride(db);
+  });
+
+  afterEach(() => {
+    setAdminDbOverride(null);
+  });
+
+  it('counts users by status and active sessions', async () => {
+    db.write('premium_users/user_1', { subscriptionStatus: 'premium' }, 'set');
+    db.write('premium_users/user_2', { subscriptionStatus: 'premium' }, 'set');
+    db.write('premium_users/user_3', { subscriptionStatus: 'grace' }, 'set');
+    db.write('premium_users/user_4', { subscriptionStatus: 'limited' }, 'set');
+    db.write('premium_users/user_5', {}, 'set');
+    db.write('sessions/session_1', { userId: 'user_1', status: 'active', startTime: now }, 'set');
+    db.write('sessions/session_2', { userId: 'user_2', status: 'expired', startTime: now, endTime: now }, 'set');
+
+    const stats = await rollupUsageStats({ refreshDays: 1, now });
+
+    expect(stats.totalUsers).toBe(5);
+    expect(stats.usersByStatus).toEqual({ premium: 2, grace: 1, limited: 2 });
+    expect(stats.activeSessions).toBe(1);
+  });
+});
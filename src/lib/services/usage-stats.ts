@@ -0,0 +1,309 @@
+/**
+ * Usage Stats Rollup
+ *
+ * Precomputes the admin usage dashboard so it never scans whole collections on load.
+ * rollupUsageDay() summarises one UTC day of sessions (plus the quota ledger docs with
+ * the same date) into usage_rollups/{date}; rollupUsageStats() refreshes the most recent
+ * days and folds the last USAGE_STATS_WINDOW_DAYS daily rollups, the premium_users
+ * status counts and the live active-session count (count() aggregations, so neither
+ * collection is read in full) into usage_stats/current. The rollup cron runs it hourly;
+ * getUsageStats() just reads the result. getUserUsageSummary() is the one live lookup,
+ * for a single user.
+ *
+ * Daily usage comes from sessions, which cover every plan. Limited plans also record
+ * usage in the quota ledger (which replaced daily-limits), so a user's total for a day
+ * is the larger of the two. Ledger dates are the user's local day (user-timezone.ts)
+ * while session days are UTC, so for users far from UTC the ledger side of a rollup
+ * covers a window shifted by their offset, and a day's figure can include up to that
+ * many hours of the neighbouring day.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { getPremiumStatus, type PremiumStatusResult } from './premium-status';
+import { getDailyLimitMs, getQuotaPolicyForStatus } from './quota-policy';
+import type { BillingSubscriptionStatus } from './subscription-state';
+import { getQuotaDate, getQuotaLedgerRef } from './quota-ledger';
+import { getLocalDate, getUserTimeZone } from './user-timezone';
+
+const ROLLUP_COLLECTION = 'usage_rollups';
+const STATS_DOC = 'usage_stats/current';
+const TOP_USERS_PER_DAY = 50;
+const TOP_USERS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counted one aggregation each; anything else (including no status) shows as limited
+const COUNTED_STATUSES: BillingSubscriptionStatus[] = ['premium', 'grace', 'canceled_at_period_end', 'past_due'];
+
+export interface UsageTopUser {
+  userId: string;
+  email: string;
+  totalUsage: number;
+  status: string;
+}
+
+export interface UsageDayRollup {
+  date: string;
+  sessionCount: number;
+  endedSessions: number;
+  totalSessionDuration: number; // Wall-clock time of ended sessions
+  totalUsage: number;
+  activeUsers: number;
+  topUsers: UsageTopUser[];
+  computedAt: Date;
+}
+
+export interface UserUsageSummary {
+  userId: string;
+  email: string | null;
+  subscription: {
+    status: PremiumStatusResult['subscriptionStatus'];
+    unlimitedAccess: boolean;
+  };
+  dailyUsage: {
+    date: string;
+    timeZone: string;
+    today: number;
+    limit: number; // -1 = unlimited
+    usageLeft: number; // -1 = unlimited
+    limitExceeded: boolean;
+  };
+}
+
+export interface UsageStats {
+  totalUsers: number;
+  usersByStatus: Record<string, number>;
+  dailyUsage: Record<string, number>;
+  activeSessions: number;
+  averageSessionTime: number;
+  topUsers: UsageTopUser[];
+  windowDays: number;
+  computedAt: Date;
+}
+
+function getWindowDays(): number {
+  const parsed = parseInt(process.env.USAGE_STATS_WINDOW_DAYS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 90) : 14;
+}
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+function getSessionUsage(data: FirebaseFirestore.DocumentData, startTime: Date, endTime: Date): number {
+  if (data.usageAccounting === 'measured') return data.totalUsageTime || 0;
+  return data.usageTime ?? Math.max(endTime.getTime() - startTime.getTime(), 0);
+}
+
+async function countQuery(query: FirebaseFirestore.Query): Promise<number> {
+  const snapshot = await query.count().get();
+  return snapshot.data().count;
+}
+
+function rankTopUsers(users: Map<string, UsageTopUser>, limit: number): UsageTopUser[] {
+  return Array.from(users.values())
+    .sort((a, b) => b.totalUsage - a.totalUsage)
+    .slice(0, limit);
+}
+
+/**
+ * Summarise the sessions started on one UTC day (YYYY-MM-DD), plus the ledger docs
+ * for the local day with the same date
+ */
+export async function rollupUsageDay(date: string, now: Date = new Date()): Promise<UsageDayRollup> {
+  const dayStart = new Date(`${date}T00:00:00.000Z`);
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+  const [sessionsSnapshot, ledgerSnapshot] = await Promise.all([
+    adminDb.collection('sessions')
+      .where('startTime', '>=', dayStart)
+      .where('startTime', '<', dayEnd)
+      .get(),
+    adminDb.collection('quota_ledger').where('date', '==', date).get()
+  ]);
+
+  const users = new Map<string, UsageTopUser>();
+  let endedSessions = 0;
+  let totalSessionDuration = 0;
+
+  for (const doc of sessionsSnapshot.docs) {
+    const data = doc.data();
+    const startTime = toDate(data.startTime)!;
+    const endTime = toDate(data.endTime) || toDate(data.lastHeartbeat) || startTime;
+
+    if (data.status !== 'active') {
+      endedSessions++;
+      totalSessionDuration += Math.max(endTime.getTime() - startTime.getTime(), 0);
+    }
+
+    const user = users.get(data.userId) || { userId: data.userId, email: data.email || '', totalUsage: 0, status: 'limited' };
+    user.totalUsage += getSessionUsage(data, startTime, endTime);
+    user.status = data.subscriptionStatus || user.status;
+    users.set(data.userId, user);
+  }
+
+  for (const doc of ledgerSnapshot.docs) {
+    const data = doc.data();
+    const user = users.get(data.userId) || { userId: data.userId, email: data.email || '', totalUsage: 0, status: 'limited' };
+    user.totalUsage = Math.max(user.totalUsage, data.totalUsageTime || 0);
+    users.set(data.userId, user);
+  }
+
+  const rollup: UsageDayRollup = {
+    date,
+    sessionCount: sessionsSnapshot.size,
+    endedSessions,
+    totalSessionDuration,
+    totalUsage: Array.from(users.values()).reduce((sum, user) => sum + user.totalUsage, 0),
+    activeUsers: users.size,
+    topUsers: rankTopUsers(users, TOP_USERS_PER_DAY),
+    computedAt: now
+  };
+
+  await adminDb.collection(ROLLUP_COLLECTION).doc(date).set(rollup);
+  return rollup;
+}
+
+/**
+ * Refresh the last `refreshDays` daily rollups (today included) and rebuild the
+ * dashboard stats from the rollup window
+ */
+export async function rollupUsageStats({
+  refreshDays = 2,
+  now = new Date()
+}: {
+  refreshDays?: number;
+  now?: Date;
+} = {}): Promise<UsageStats> {
+  const windowDays = getWindowDays();
+  const dates = Array.from({ length: windowDays }, (_, index) =>
+    getLocalDate(new Date(now.getTime() - (windowDays - 1 - index) * DAY_MS))
+  );
+
+  const rollups = new Map<string, UsageDayRollup>();
+  for (const date of dates.slice(-Math.min(Math.max(refreshDays, 1), windowDays))) {
+    rollups.set(date, await rollupUsageDay(date, now));
+  }
+
+  const storedRollups = await Promise.all(
+    dates.filter(date => !rollups.has(date))
+      .map(date => adminDb.collection(ROLLUP_COLLECTION).doc(date).get())
+  );
+  for (const doc of storedRollups) {
+    if (doc.exists) rollups.set(doc.id, doc.data() as UsageDayRollup);
+  }
+
+  const premiumUsers = adminDb.collection('premium_users');
+  const [totalUsers, activeSessions, ...statusCounts] = await Promise.all([
+    countQuery(premiumUsers),
+    countQuery(adminDb.collection('sessions').where('status', '==', 'active')),
+    ...COUNTED_STATUSES.map(status => countQuery(premiumUsers.where('subscriptionStatus', '==', status)))
+  ]);
+
+  const usersByStatus: Record<string, number> = {};
+  COUNTED_STATUSES.forEach((status, index) => {
+    if (statusCounts[index] > 0) usersByStatus[status] = statusCounts[index];
+  });
+  const limitedUsers = totalUsers - statusCounts.reduce((sum, count) => sum + count, 0);
+  if (limitedUsers > 0) usersByStatus.limited = limitedUsers;
+
+  const dailyUsage: Record<string, number> = {};
+  const topUsers = new Map<string, UsageTopUser>();
+  let endedSessions = 0;
+  let totalSessionDuration = 0;
+
+  for (const date of dates) {
+    const rollup = rollups.get(date);
+    dailyUsage[date] = rollup?.totalUsage || 0;
+    if (!rollup) continue;
+
+    endedSessions += rollup.endedSessions;
+    totalSessionDuration += rollup.totalSessionDuration;
+    for (const user of rollup.topUsers) {
+      const total = topUsers.get(user.userId);
+      topUsers.set(user.userId, {
+        ...user,
+        email: user.email || total?.email || '',
+        totalUsage: (total?.totalUsage || 0) + user.totalUsage
+      });
+    }
+  }
+
+  const stats: UsageStats = {
+    totalUsers,
+    usersByStatus,
+    dailyUsage,
+    activeSessions,
+    averageSessionTime: endedSessions > 0 ? Math.round(totalSessionDuration / endedSessions) : 0,
+    topUsers: rankTopUsers(topUsers, TOP_USERS),
+    windowDays,
+    computedAt: now
+  };
+
+  await adminDb.doc(STATS_DOC).set(stats);
+  console.log(`📊 Usage stats rolled up: ${stats.totalUsers} users, ${stats.activeSessions} active sessions over ${windowDays} days`);
+  return stats;
+}
+
+/**
+ * Latest precomputed stats, or null before the first rollup
+ */
+export async function getUsageStats(): Promise<UsageStats | null> {
+  const doc = await adminDb.doc(STATS_DOC).get();
+  if (!doc.exists) return null;
+
+  const data = doc.data();
+  return { ...data, computedAt: toDate(data.computedAt) } as UsageStats;
+}
+
+/**
+ * One user's plan and today's usage, read live. Limited plans report the quota
+ * ledger; unlimited plans have no ledger, so their sessions since local midnight are
+ * summed instead.
+ */
+export async function getUserUsageSummary(userId: string, now: Date = new Date()): Promise<UserUsageSummary> {
+  const premiumStatus = await getPremiumStatus({ userId });
+  const dailyLimitMs = getDailyLimitMs(await getQuotaPolicyForStatus(premiumStatus));
+  const timeZone = await getUserTimeZone(userId);
+  const date = getQuotaDate(now, timeZone);
+
+  let today: number;
+  if (dailyLimitMs === -1) {
+    // Sessions can't start more than a day before the local date began
+    const sessionsSnapshot = await adminDb.collection('sessions')
+      .where('userId', '==', userId)
+      .where('startTime', '>=', new Date(now.getTime() - 2 * DAY_MS))
+      .get();
+
+    today = 0;
+    for (const doc of sessionsSnapshot.docs) {
+      const data = doc.data();
+      const startTime = toDate(data.startTime)!;
+      if (getLocalDate(startTime, timeZone) !== date) continue;
+      today += getSessionUsage(data, startTime, toDate(data.endTime) || toDate(data.lastHeartbeat) || startTime);
+    }
+  } else {
+    const ledgerDoc = await getQuotaLedgerRef(userId, date).get();
+    today = ledgerDoc.exists ? ledgerDoc.data()?.totalUsageTime || 0 : 0;
+  }
+
+  return {
+    userId,
+    email: premiumStatus.email,
+    subscription: {
+      status: premiumStatus.subscriptionStatus,
+      unlimitedAccess: dailyLimitMs === -1
+    },
+    dailyUsage: {
+      date,
+      timeZone,
+      today,
+      limit: dailyLimitMs,
+      usageLeft: dailyLimitMs === -1 ? -1 : Math.max(dailyLimitMs - today, 0),
+      limitExceeded: dailyLimitMs !== -1 && today >= dailyLimitMs
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getLocalDate, getNextLocalMidnight } from './user-timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getLocalDate and getNextLocalMidnight', () => {
+  it('starts the day at 01:00 when DST begins at midnight (America/Sao_Paulo, 2018-11-04)', () => {
+    const timeZone = 'America/Sao_Paulo';
+
+    // 00:00 local on the 4th never happened; the clock went from 23:59:59 -03 to 01:00 -02
+    const dayStart = getNextLocalMidnight(new Date('2018-11-03T12:00:00Z'), timeZone);
+    expect(dayStart.toISOString()).toBe('2018-11-04T03:00:00.000Z');
+    expect(getLocalDate(dayStart, timeZone)).toBe('2018-11-04');
+    expect(getLocalDate(new Date(dayStart.getTime() - 1), timeZone)).toBe('2018-11-03');
+
+    const dayEnd = getNextLocalMidnight(dayStart, timeZone);
+    expect(dayEnd.toISOString()).toBe('2018-11-05T02:00:00.000Z');
+    expect(dayEnd.getTime() - dayStart.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('skips a date dropped by a date-line move (Pacific/Apia, 2011-12-30)', () => {
+    const timeZone = 'Pacific/Apia';
+
+    // Samoa went from 23:59:59 on the 29th (UTC-10) straight to the 31st (UTC+14)
+    expect(getLocalDate(new Date('2011-12-30T09:59:59Z'), timeZone)).toBe('2011-12-29');
+    expect(getLocalDate(new Date('2011-12-30T10:00:00Z'), timeZone)).toBe('2011-12-31');
+
+    const next = getNextLocalMidnight(new Date('2011-12-30T00:00:00Z'), timeZone);
+    expect(next.toISOString()).toBe('2011-12-30T10:00:00.000Z');
+    expect(getLocalDate(next, timeZone)).toBe('2011-12-31');
+  });
+
+  it('runs a day ahead of UTC at UTC+14 (Pacific/Kiritimati)', () => {
+    const timeZone = 'Pacific/Kiritimati';
+    const now = new Date('2024-01-01T10:30:00Z');
+
+    expect(getLocalDate(now, timeZone)).toBe('2024-01-02');
+    expect(getNextLocalMidnight(now, timeZone).toISOString()).toBe('2024-01-02T10:00:00.000Z');
+    expect(getLocalDate(new Date('2024-01-01T09:59:59Z'), timeZone)).toBe('2024-01-01');
+  });
+
+  it('gives a 23-hour day when US clocks spring forward (America/New_York, 2024-03-10)', () => {
+    const timeZone = 'America/New_York';
+
+    const dayStart = getNextLocalMidnight(new Date('2024-03-09T12:00:00Z'), timeZone);
+    expect(dayStart.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+
+    const dayEnd = getNextLocalMidnight(new Date('2024-03-10T12:00:00Z'), timeZone);
+    expect(dayEnd.toISOString()).toBe('2024-03-11T04:00:00.000Z');
+    expect(dayEnd.getTime() - dayStart.getTime()).toBe(23 * HOUR_MS);
+    expect(getLocalDate(new Date(dayEnd.getTime() - 1), timeZone)).toBe('2024-03-10');
+  });
+});
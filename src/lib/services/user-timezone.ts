@@ -0,0 +1,100 @@
+/**
+ * User Time Zones
+ *
+ * Each user's IANA time zone lives on their profile (users/{userId}.timeZone) and
+ * decides where their quota day starts and ends. Calendar math goes through Intl so
+ * DST shifts and date-line zones resolve the same way the user's clock does.
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Switching zones can open a new quota day early, so a stored zone only changes this often
+const TIME_ZONE_CHANGE_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getDateFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    getDateFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant as seen in a time zone
+ */
+export function getLocalDate(now: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return getDateFormatter(timeZone).format(now);
+}
+
+/**
+ * First instant after `now` that falls on a later local date. Searched rather than
+ * computed from offsets, so days that start at 01:00 (DST at midnight) or are skipped
+ * entirely (date-line moves) still land on the real boundary.
+ */
+export function getNextLocalMidnight(now: Date, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const today = getLocalDate(now, timeZone);
+
+  // Local days are at most 25 hours long, so the boundary is within the next 26
+  let low = now.getTime();
+  let high = low + 26 * 60 * 60 * 1000;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (getLocalDate(new Date(mid), timeZone) === today) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return new Date(high);
+}
+
+/**
+ * Time zone stored on the user's profile, or UTC when none is set
+ */
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const userDoc = await adminDb.collection('users').doc(userId).get();
+  const timeZone = userDoc.exists ? userDoc.data()?.timeZone : null;
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Resolve the zone to use for a user, recording the one their client reports. A stored
+ * zone is only replaced once the cooldown since its last change has passed.
+ */
+export async function syncUserTimeZone(userId: string, reportedTimeZone: unknown, now: Date = new Date()): Promise<string> {
+  const userRef = adminDb.collection('users').doc(userId);
+  const userDoc = await userRef.get();
+  const userData = userDoc.exists ? userDoc.data() : undefined;
+  const storedTimeZone = isValidTimeZone(userData?.timeZone) ? userData!.timeZone as string : null;
+
+  if (!isValidTimeZone(reportedTimeZone) || reportedTimeZone === storedTimeZone) {
+    return storedTimeZone || DEFAULT_TIME_ZONE;
+  }
+
+  const lastChange = userData?.timeZoneUpdatedAt?.toDate?.() || userData?.timeZoneUpdatedAt || null;
+  if (storedTimeZone && lastChange && now.getTime() - new Date(lastChange).getTime() < TIME_ZONE_CHANGE_COOLDOWN_MS) {
+    console.log(`🕐 Keeping time zone ${storedTimeZone} for user ${userId} (reported ${reportedTimeZone}, changed recently)`);
+    return storedTimeZone;
+  }
+
+  await userRef.set({ timeZone: reportedTimeZone, timeZoneUpdatedAt: now }, { merge: true });
+  console.log(`🕐 Time zone for user ${userId} set to ${reportedTimeZone}`);
+  return reportedTimeZone;
+}
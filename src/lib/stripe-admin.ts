@@ -0,0 +1,31 @@
+import Stripe from 'stripe';
+
+let cachedStripe: Stripe | null = null;
+let stripeOverride: Stripe | null = null;
+
+/**
+ * Server-side Stripe client, created on first use so builds without
+ * STRIPE_SECRET_KEY don't fail at import time
+ */
+export function getStripe(): Stripe {
+  if (stripeOverride) return stripeOverride;
+  if (cachedStripe) return cachedStripe;
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error('Missing STRIPE_SECRET_KEY environment variable');
+  }
+
+  cachedStripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+    // Pinned to the version the webhook payloads were written against
+    apiVersion: '2023-10-16' as Stripe.LatestApiVersion,
+  });
+
+  return cachedStripe;
+}
+
+/**
+ * Replace the client returned by getStripe() (test harness). Pass null to restore.
+ */
+export function setStripeClientOverride(stripe: Stripe | null): void {
+  stripeOverride = stripe;
+}
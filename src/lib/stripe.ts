@@ -0,0 +1,84 @@
+/**
+ * Public pricing catalog
+ *
+ * Safe to import from client components: only display data and the public
+ * (NEXT_PUBLIC_*) Stripe price IDs used to start checkout. The server maps
+ * price IDs back to tiers in src/lib/services/plan-catalog.ts.
+ */
+
+export type PlanTier = 'monthly' | 'annual' | 'team';
+
+export const PLAN_TIERS: PlanTier[] = ['monthly', 'annual', 'team'];
+
+export interface SubscriptionStatus {
+  status: string; // 'free' | 'trial' | 'premium' | billing states from the server
+  planTier?: PlanTier;
+  startDate?: Date;
+  endDate?: Date;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+}
+
+// NEXT_PUBLIC_* variables must be referenced literally to be inlined in client bundles
+const PUBLIC_PRICE_IDS: Record<PlanTier, string | undefined> = {
+  monthly: process.env.NEXT_PUBLIC_STRIPE_MONTHLY_PRICE_ID || process.env.NEXT_PUBLIC_STRIPE_PREMIUM_PRICE_ID,
+  annual: process.env.NEXT_PUBLIC_STRIPE_ANNUAL_PRICE_ID,
+  team: process.env.NEXT_PUBLIC_STRIPE_TEAM_PRICE_ID
+};
+
+const PREMIUM_FEATURES = [
+  'Unlimited daily usage',
+  'All AI tasks and roles',
+  'Custom tasks and roles',
+  'Priority support'
+];
+
+export const PRICING_PLANS = {
+  trial: {
+    name: 'Free Trial',
+    price: 0,
+    duration: '1 hour a day',
+    features: [
+      '1 hour of usage per day',
+      'Core AI tasks',
+      'No credit card required'
+    ]
+  },
+  premium: {
+    tier: 'monthly' as PlanTier,
+    name: 'Premium',
+    price: 5,
+    period: 'month',
+    features: PREMIUM_FEATURES
+  },
+  annual: {
+    tier: 'annual' as PlanTier,
+    name: 'Premium Annual',
+    price: 50,
+    period: 'year',
+    features: [...PREMIUM_FEATURES, 'Two months free']
+  },
+  team: {
+    tier: 'team' as PlanTier,
+    name: 'Team',
+    price: 4,
+    period: 'seat / month',
+    features: [...PREMIUM_FEATURES, 'Shared billing', 'Seat management']
+  }
+};
+
+export function isPlanTier(value: unknown): value is PlanTier {
+  return typeof value === 'string' && (PLAN_TIERS as string[]).includes(value);
+}
+
+/**
+ * Stripe price ID to start checkout for a tier
+ */
+export function getCheckoutPriceId(tier: PlanTier = 'monthly'): string {
+  const priceId = PUBLIC_PRICE_IDS[tier];
+  if (!priceId) {
+    const envName = tier === 'monthly' ? 'NEXT_PUBLIC_STRIPE_MONTHLY_PRICE_ID' : `NEXT_PUBLIC_STRIPE_${tier.toUpperCase()}_PRICE_ID`;
+    throw new Error(`Price ID not configured for the ${tier} plan. Check ${envName} environment variable.`);
+  }
+  return priceId;
+}
@@ -0,0 +1,107 @@
+/**
+ * In-memory Firebase Auth stand-in
+ *
+ * Covers the user lookups and custom claims calls made by the webhook and premium
+ * status code, plus ID tokens for route tests: issueIdToken() hands out a token that
+ * verifyIdToken() accepts until the user's refresh tokens are revoked. Install it
+ * with setAdminAuthOverride().
+ */
+
+import type { Auth, UserRecord } from 'firebase-admin/auth';
+
+export interface InMemoryAuthUser {
+  uid: string;
+  email?: string;
+  emailVerified?: boolean; // Defaults to true
+  customClaims?: Record<string, unknown>;
+}
+
+export interface InMemoryAuth {
+  auth: Auth;
+  addUser(user: InMemoryAuthUser): void;
+  getClaims(uid: string): Record<string, unknown> | undefined;
+  issueIdToken(uid: string): string;
+  reset(): void;
+}
+
+function authError(code: string, message: string): Error {
+  const error = new Error(message);
+  (error as Error & { code: string }).code = code;
+  return error;
+}
+
+function notFound(identifier: string): Error {
+  return authError('auth/user-not-found', `There is no user record corresponding to the provided identifier: ${identifier}`);
+}
+
+/**
+ * Create an Auth stand-in plus helpers for seeding users and reading back claims
+ */
+export function createInMemoryAuth(): InMemoryAuth {
+  const users = new Map<string, InMemoryAuthUser>();
+  const tokens = new Map<string, { uid: string; issuedAt: number }>();
+  const revokedAt = new Map<string, number>();
+  let tokenCounter = 0;
+
+  const toRecord = (user: InMemoryAuthUser): UserRecord => ({
+    uid: user.uid,
+    email: user.email,
+    emailVerified: user.emailVerified ?? true,
+    disabled: false,
+    customClaims: user.customClaims ? { ...user.customClaims } : undefined,
+    providerData: [],
+    metadata: { creationTime: new Date().toUTCString(), lastSignInTime: new Date().toUTCString() }
+  }) as unknown as UserRecord;
+
+  const auth = {
+    async getUser(uid: string) {
+      const user = users.get(uid);
+      if (!user) throw notFound(uid);
+      return toRecord(user);
+    },
+    async getUserByEmail(email: string) {
+      const user = Array.from(users.values()).find(candidate => candidate.email === email);
+      if (!user) throw notFound(email);
+      return toRecord(user);
+    },
+    async setCustomUserClaims(uid: string, claims: Record<string, unknown> | null) {
+      const user = users.get(uid);
+      if (!user) throw notFound(uid);
+      user.customClaims = claims ? { ...claims } : undefined;
+    },
+    async verifyIdToken(idToken: string, checkRevoked = false) {
+      const token = tokens.get(idToken);
+      const user = token && users.get(token.uid);
+      if (!token || !user) throw authError('auth/argument-error', 'Decoding Firebase ID token failed');
+      if (checkRevoked && token.issuedAt <= (revokedAt.get(token.uid) ?? -1)) {
+        throw authError('auth/id-token-revoked', 'The Firebase ID token has been revoked');
+      }
+      return { ...user.customClaims, uid: user.uid, sub: user.uid, email: user.email, email_verified: user.emailVerified ?? true };
+    },
+    async revokeRefreshTokens(uid: string) {
+      if (!users.has(uid)) throw notFound(uid);
+      revokedAt.set(uid, tokenCounter);
+    }
+  };
+
+  return {
+    auth: auth as unknown as Auth,
+    addUser(user) {
+      users.set(user.uid, { ...user });
+    },
+    getClaims(uid) {
+      return users.get(uid)?.customClaims;
+    },
+    issueIdToken(uid) {
+      // Claims are read at verification time, as if the client refreshed its token
+      const idToken = `in-memory-id-token-${++tokenCounter}`;
+      tokens.set(idToken, { uid, issuedAt: tokenCounter });
+      return idToken;
+    },
+    reset() {
+      users.clear();
+      tokens.clear();
+      revokedAt.clear();
+    }
+  };
+}
@@ -0,0 +1,410 @@
+/**
+ * In-memory Firestore stand-in
+ *
+ * Implements the slice of the Admin Firestore API this codebase uses (doc/collection refs,
+ * set/update/delete, simple queries, count() aggregations, batches and transactions) so webhook and premium
+ * status code can run without a Firestore instance. Install it with setAdminDbOverride().
+ *
+ * Like Firestore, Dates are stored as Timestamps and FieldValue sentinels
+ * (serverTimestamp, increment, arrayUnion, delete) are applied on write.
+ */
+
+import { Timestamp } from 'firebase-admin/firestore';
+
+type DocumentData = FirebaseFirestore.DocumentData;
+type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+interface QueryConstraint {
+  where: Array<{ field: string; op: WhereOp; value: unknown }>;
+  orderBy: Array<{ field: string; direction: 'asc' | 'desc' }>;
+  limit?: number;
+}
+
+let autoIdCounter = 0;
+
+function autoId(): string {
+  autoIdCounter += 1;
+  return `mem_${Date.now().toString(36)}_${autoIdCounter}`;
+}
+
+function isSentinel(value: unknown): value is { methodName: string; operand?: number; elements?: unknown[] } {
+  return !!value && typeof value === 'object' && typeof (value as { methodName?: unknown }).methodName === 'string'
+    && (value as { methodName: string }).methodName.startsWith('FieldValue.');
+}
+
+/**
+ * Copy a value the way Firestore would store it
+ */
+function toStored(value: unknown): unknown {
+  if (isSentinel(value) && value.methodName === 'FieldValue.serverTimestamp') return Timestamp.now();
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (value instanceof Timestamp) return value;
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && typeof value === 'object' && !isSentinel(value)) {
+    const copy: DocumentData = {};
+    for (const [key, nested] of Object.entries(value)) {
+      if (nested !== undefined) copy[key] = toStored(nested);
+    }
+    return copy;
+  }
+  return value;
+}
+
+function cloneStored<T>(value: T): T {
+  if (value instanceof Timestamp) return value;
+  if (Array.isArray(value)) return value.map(cloneStored) as T;
+  if (value && typeof value === 'object') {
+    const copy: DocumentData = {};
+    for (const [key, nested] of Object.entries(value)) copy[key] = cloneStored(nested);
+    return copy as T;
+  }
+  return value;
+}
+
+function getField(data: DocumentData | undefined, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => (
+    current && typeof current === 'object' ? (current as DocumentData)[key] : undefined
+  ), data);
+}
+
+/**
+ * Write one (possibly dotted) field, resolving FieldValue sentinels against the current value
+ */
+function setField(data: DocumentData, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let target = data;
+  for (const key of keys) {
+    if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+    target = target[key];
+  }
+
+  if (isSentinel(value)) {
+    switch (value.methodName) {
+      case 'FieldValue.serverTimestamp':
+        target[last] = Timestamp.now();
+        return;
+      case 'FieldValue.delete':
+        delete target[last];
+        return;
+      case 'FieldValue.increment':
+        target[last] = (typeof target[last] === 'number' ? target[last] : 0) + (value.operand || 0);
+        return;
+      case 'FieldValue.arrayUnion': {
+        const existing: unknown[] = Array.isArray(target[last]) ? target[last] : [];
+        const additions = (value.elements || []).map(toStored)
+          .filter(element => !existing.some(item => JSON.stringify(item) === JSON.stringify(element)));
+        target[last] = [...existing, ...additions];
+        return;
+      }
+      default:
+        throw new Error(`In-memory Firestore does not support ${value.methodName}`);
+    }
+  }
+
+  target[last] = value;
+}
+
+function mergeInto(target: DocumentData, source: DocumentData): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Timestamp) && !isSentinel(value)
+      && target[key] && typeof target[key] === 'object' && !(target[key] instanceof Timestamp)) {
+      mergeInto(target[key], value);
+    } else {
+      setField(target, key, value);
+    }
+  }
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+function matches(data: DocumentData, { field, op, value }: QueryConstraint['where'][number]): boolean {
+  // Cast for the relational operators; mixed types compare as JS would, unlike Firestore
+  const actual = comparable(getField(data, field)) as number;
+  const expected = comparable(value) as number;
+
+  switch (op) {
+    case '==': return actual === expected;
+    case '!=': return actual !== undefined && actual !== expected;
+    case '<': return actual !== undefined && actual < expected;
+    case '<=': return actual !== undefined && actual <= expected;
+    case '>': return actual !== undefined && actual > expected;
+    case '>=': return actual !== undefined && actual >= expected;
+    case 'in': return Array.isArray(value) && value.map(comparable).includes(actual);
+    case 'array-contains': return Array.isArray(actual) && actual.map(comparable).includes(expected);
+    default: throw new Error(`In-memory Firestore does not support where op ${op}`);
+  }
+}
+
+export class InMemoryDocumentSnapshot {
+  constructor(
+    public readonly ref: InMemoryDocumentReference,
+    private readonly stored: DocumentData | undefined
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this.stored === undefined ? undefined : cloneStored(this.stored);
+  }
+
+  get(field: string): unknown {
+    return cloneStored(getField(this.stored, field));
+  }
+}
+
+export class InMemoryQuerySnapshot {
+  constructor(public readonly docs: InMemoryDocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: InMemoryDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+export class InMemoryDocumentReference {
+  constructor(private readonly db: InMemoryFirestore, public readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string): InMemoryCollectionReference {
+    return new InMemoryCollectionReference(this.db, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<InMemoryDocumentSnapshot> {
+    return new InMemoryDocumentSnapshot(this, this.db.read(this.path));
+  }
+
+  async set(data: DocumentData, options: { merge?: boolean } = {}): Promise<void> {
+    this.db.write(this.path, data, options.merge ? 'merge' : 'set');
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    this.db.write(this.path, data, 'update');
+  }
+
+  async delete(): Promise<void> {
+    this.db.remove(this.path);
+  }
+}
+
+export class InMemoryQuery {
+  constructor(
+    protected readonly db: InMemoryFirestore,
+    public readonly path: string,
+    protected readonly constraints: QueryConstraint = { where: [], orderBy: [] }
+  ) {}
+
+  where(field: string, op: WhereOp, value: unknown): InMemoryQuery {
+    return new InMemoryQuery(this.db, this.path, {
+      ...this.constraints,
+      where: [...this.constraints.where, { field, op, value }]
+    });
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): InMemoryQuery {
+    return new InMemoryQuery(this.db, this.path, {
+      ...this.constraints,
+      orderBy: [...this.constraints.orderBy, { field, direction }]
+    });
+  }
+
+  limit(count: number): InMemoryQuery {
+    return new InMemoryQuery(this.db, this.path, { ...this.constraints, limit: count });
+  }
+
+  count(): { get(): Promise<{ data(): { count: number } }> } {
+    return {
+      get: async () => {
+        const { size } = await this.get();
+        return { data: () => ({ count: size }) };
+      }
+    };
+  }
+
+  async get(): Promise<InMemoryQuerySnapshot> {
+    let entries = this.db.listCollection(this.path)
+      .filter(([, data]) => this.constraints.where.every(clause => matches(data, clause)));
+
+    for (const { field, direction } of [...this.constraints.orderBy].reverse()) {
+      entries = [...entries].sort(([, a], [, b]) => {
+        const left = comparable(getField(a, field)) as number;
+        const right = comparable(getField(b, field)) as number;
+        if (left === right) return 0;
+        const order = left < right ? -1 : 1;
+        return direction === 'desc' ? -order : order;
+      });
+    }
+
+    if (this.constraints.limit !== undefined) {
+      entries = entries.slice(0, this.constraints.limit);
+    }
+
+    return new InMemoryQuerySnapshot(entries.map(([path, data]) => (
+      new InMemoryDocumentSnapshot(new InMemoryDocumentReference(this.db, path), data)
+    )));
+  }
+}
+
+export class InMemoryCollectionReference extends InMemoryQuery {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id: string = autoId()): InMemoryDocumentReference {
+    return new InMemoryDocumentReference(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: DocumentData): Promise<InMemoryDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+type PendingWrite = () => void;
+
+export class InMemoryWriteBatch {
+  private readonly writes: PendingWrite[] = [];
+
+  constructor(private readonly db: InMemoryFirestore) {}
+
+  set(ref: InMemoryDocumentReference, data: DocumentData, options: { merge?: boolean } = {}): this {
+    this.writes.push(() => this.db.write(ref.path, data, options.merge ? 'merge' : 'set'));
+    return this;
+  }
+
+  update(ref: InMemoryDocumentReference, data: DocumentData): this {
+    this.writes.push(() => this.db.write(ref.path, data, 'update'));
+    return this;
+  }
+
+  delete(ref: InMemoryDocumentReference): this {
+    this.writes.push(() => this.db.remove(ref.path));
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.writes.forEach(write => write());
+  }
+}
+
+export class InMemoryTransaction extends InMemoryWriteBatch {
+  get(target: InMemoryDocumentReference): Promise<InMemoryDocumentSnapshot>;
+  get(target: InMemoryQuery): Promise<InMemoryQuerySnapshot>;
+  get(target: InMemoryDocumentReference | InMemoryQuery): Promise<InMemoryDocumentSnapshot | InMemoryQuerySnapshot> {
+    return target.get();
+  }
+}
+
+export class InMemoryFirestore {
+  private readonly documents = new Map<string, DocumentData>();
+  // Transactions run one at a time, which is enough isolation for single-process tests
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+
+  collection(name: string): InMemoryCollectionReference {
+    return new InMemoryCollectionReference(this, name);
+  }
+
+  doc(path: string): InMemoryDocumentReference {
+    return new InMemoryDocumentReference(this, path);
+  }
+
+  batch(): InMemoryWriteBatch {
+    return new InMemoryWriteBatch(this);
+  }
+
+  runTransaction<T>(updateFunction: (transaction: InMemoryTransaction) => Promise<T>): Promise<T> {
+    const run = this.transactionQueue.then(async () => {
+      const transaction = new InMemoryTransaction(this);
+      const result = await updateFunction(transaction);
+      await transaction.commit();
+      return result;
+    });
+
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Seed a document directly (test setup)
+   */
+  seed(path: string, data: DocumentData): void {
+    this.write(path, data, 'set');
+  }
+
+  /**
+   * Current contents of a document, or undefined (test assertions)
+   */
+  read(path: string): DocumentData | undefined {
+    const stored = this.documents.get(path);
+    return stored === undefined ? undefined : cloneStored(stored);
+  }
+
+  /**
+   * All document paths, for debugging test failures
+   */
+  paths(): string[] {
+    return Array.from(this.documents.keys()).sort();
+  }
+
+  reset(): void {
+    this.documents.clear();
+  }
+
+  write(path: string, data: DocumentData, mode: 'set' | 'merge' | 'update'): void {
+    const existing = this.documents.get(path);
+
+    if (mode === 'update' && existing === undefined) {
+      throw new Error(`5 NOT_FOUND: No document to update: ${path}`);
+    }
+
+    const next: DocumentData = mode === 'set' ? {} : cloneStored(existing || {});
+    const stored = toStored(data) as DocumentData;
+
+    if (mode === 'merge') {
+      mergeInto(next, stored);
+    } else {
+      // update() treats keys as field paths; set() writes them literally
+      for (const [key, value] of Object.entries(stored)) {
+        if (mode === 'update' || isSentinel(value)) {
+          setField(next, key, value);
+        } else {
+          next[key] = value;
+        }
+      }
+    }
+
+    this.documents.set(path, next);
+  }
+
+  remove(path: string): void {
+    this.documents.delete(path);
+  }
+
+  listCollection(collectionPath: string): Array<[string, DocumentData]> {
+    const depth = collectionPath.split('/').length + 1;
+    return Array.from(this.documents.entries())
+      .filter(([path]) => path.startsWith(`${collectionPath}/`) && path.split('/').length === depth)
+      .map(([path, data]) => [path, cloneStored(data)]);
+  }
+}
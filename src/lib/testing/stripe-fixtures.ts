@@ -0,0 +1,227 @@
+/**
+ * Stripe fixtures for webhook tests
+ *
+ * Builders for the objects our webhook handlers read, events wrapping them, signatures
+ * produced with Stripe's own test helper (so stripe.webhooks.constructEvent accepts them),
+ * and a Stripe client whose customer/subscription/checkout lookups are served from memory.
+ * Objects are shaped like the pinned API version (2023-10-16).
+ */
+
+import Stripe from 'stripe';
+
+const FIXTURE_API_KEY = 'sk_test_fixtures';
+
+let fixtureCounter = 0;
+
+function fixtureId(prefix: string): string {
+  fixtureCounter += 1;
+  return `${prefix}_fixture${Date.now().toString(36)}${fixtureCounter}`;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function buildStripeCustomer(overrides: Partial<Stripe.Customer> = {}): Stripe.Customer {
+  return {
+    id: fixtureId('cus'),
+    object: 'customer',
+    email: 'customer@example.com',
+    metadata: {},
+    created: nowSeconds(),
+    livemode: false,
+    ...overrides
+  } as Stripe.Customer;
+}
+
+export interface SubscriptionFixtureOptions {
+  id?: string;
+  customer: string;
+  status?: Stripe.Subscription.Status;
+  priceId?: string;
+  quantity?: number;
+  created?: number;
+  currentPeriodStart?: number;
+  currentPeriodEnd?: number;
+  cancelAtPeriodEnd?: boolean;
+  canceledAt?: number | null;
+}
+
+export function buildStripeSubscription(options: SubscriptionFixtureOptions): Stripe.Subscription {
+  const created = options.created ?? nowSeconds();
+  const currentPeriodStart = options.currentPeriodStart ?? created;
+  const priceId = options.priceId ?? 'price_fixture_monthly';
+
+  return {
+    id: options.id ?? fixtureId('sub'),
+    object: 'subscription',
+    customer: options.customer,
+    status: options.status ?? 'active',
+    created,
+    current_period_start: currentPeriodStart,
+    current_period_end: options.currentPeriodEnd ?? currentPeriodStart + 30 * 24 * 60 * 60,
+    cancel_at_period_end: options.cancelAtPeriodEnd ?? false,
+    canceled_at: options.canceledAt ?? null,
+    livemode: false,
+    metadata: {},
+    items: {
+      object: 'list',
+      data: [{
+        id: fixtureId('si'),
+        object: 'subscription_item',
+        price: { id: priceId, object: 'price' },
+        quantity: options.quantity ?? 1
+      }],
+      has_more: false,
+      url: '/v1/subscription_items'
+    }
+  } as unknown as Stripe.Subscription;
+}
+
+export function buildCheckoutSession(options: {
+  customer: string;
+  subscription: string;
+  userId?: string;
+  email?: string;
+}): Stripe.Checkout.Session {
+  return {
+    id: fixtureId('cs'),
+    object: 'checkout.session',
+    mode: 'subscription',
+    status: 'complete',
+    payment_status: 'paid',
+    customer: options.customer,
+    subscription: options.subscription,
+    customer_details: options.email ? { email: options.email } : null,
+    metadata: options.userId ? { userId: options.userId } : {},
+    created: nowSeconds(),
+    livemode: false
+  } as unknown as Stripe.Checkout.Session;
+}
+
+export function buildStripeInvoice(options: {
+  customer: string;
+  subscription: string;
+  attemptCount?: number;
+  created?: number;
+}): Stripe.Invoice {
+  return {
+    id: fixtureId('in'),
+    object: 'invoice',
+    customer: options.customer,
+    subscription: options.subscription,
+    attempt_count: options.attemptCount ?? 1,
+    created: options.created ?? nowSeconds(),
+    livemode: false
+  } as unknown as Stripe.Invoice;
+}
+
+/**
+ * Wrap an object in an event. `created` controls ordering against other events.
+ */
+export function buildStripeEvent<T extends { id: string }>(
+  type: string,
+  object: T,
+  options: { id?: string; created?: number } = {}
+): Stripe.Event {
+  return {
+    id: options.id ?? fixtureId('evt'),
+    object: 'event',
+    type,
+    api_version: '2023-10-16',
+    created: options.created ?? nowSeconds(),
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    data: { object }
+  } as unknown as Stripe.Event;
+}
+
+/**
+ * Serialize and sign an event the way Stripe delivers it
+ */
+export function signStripeEvent(
+  event: Stripe.Event,
+  secret: string,
+  timestamp: number = nowSeconds()
+): { payload: string; signature: string } {
+  const payload = JSON.stringify(event);
+  const signature = new Stripe(FIXTURE_API_KEY).webhooks.generateTestHeaderString({ payload, secret, timestamp });
+  return { payload, signature };
+}
+
+export interface FakeStripeClient {
+  stripe: Stripe;
+  addCustomer(customer: Stripe.Customer): void;
+  addSubscription(subscription: Stripe.Subscription): void;
+  addCheckoutSession(session: Stripe.Checkout.Session): void;
+  reset(): void;
+}
+
+function missingResource(type: string, id: string): Error {
+  const error = new Error(`No such ${type}: '${id}'`);
+  (error as Error & { code: string }).code = 'resource_missing';
+  return error;
+}
+
+/**
+ * A real Stripe client (so webhook signature checks are genuine) whose customer and
+ * subscription calls read from in-memory fixtures instead of the API
+ */
+export function createFakeStripeClient(): FakeStripeClient {
+  const customers = new Map<string, Stripe.Customer>();
+  const subscriptions = new Map<string, Stripe.Subscription>();
+  const checkoutSessions = new Map<string, Stripe.Checkout.Session>();
+  const stripe = new Stripe(FIXTURE_API_KEY, { apiVersion: '2023-10-16' as Stripe.LatestApiVersion });
+
+  const customerResource = stripe.customers as unknown as Record<string, unknown>;
+  customerResource.retrieve = async (id: string) => {
+    const customer = customers.get(id);
+    if (!customer) throw missingResource('customer', id);
+    return customer;
+  };
+
+  const subscriptionResource = stripe.subscriptions as unknown as Record<string, unknown>;
+  subscriptionResource.retrieve = async (id: string) => {
+    const subscription = subscriptions.get(id);
+    if (!subscription) throw missingResource('subscription', id);
+    return subscription;
+  };
+  subscriptionResource.list = async (params: Stripe.SubscriptionListParams = {}) => {
+    const data = Array.from(subscriptions.values())
+      .filter(subscription => !params.customer || subscription.customer === params.customer)
+      .filter(subscription => !params.status || params.status === 'all' || subscription.status === params.status)
+      .sort((a, b) => b.created - a.created)
+      .slice(0, params.limit ?? 10);
+    return { object: 'list', data, has_more: false, url: '/v1/subscriptions' };
+  };
+
+  const checkoutSessionResource = stripe.checkout.sessions as unknown as Record<string, unknown>;
+  checkoutSessionResource.retrieve = async (id: string, params: Stripe.Checkout.SessionRetrieveParams = {}) => {
+    const session = checkoutSessions.get(id);
+    if (!session) throw missingResource('checkout.session', id);
+    const subscriptionId = typeof session.subscription === 'string' ? session.subscription : null;
+    if (subscriptionId && params.expand?.includes('subscription') && subscriptions.has(subscriptionId)) {
+      return { ...session, subscription: subscriptions.get(subscriptionId) };
+    }
+    return session;
+  };
+
+  return {
+    stripe,
+    addCustomer(customer) {
+      customers.set(customer.id, customer);
+    },
+    addSubscription(subscription) {
+      subscriptions.set(subscription.id, subscription);
+    },
+    addCheckoutSession(session) {
+      checkoutSessions.set(session.id, session);
+    },
+    reset() {
+      customers.clear();
+      subscriptions.clear();
+      checkoutSessions.clear();
+    }
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Stripe Webhook Test Harness
+ *
+ * Swaps Firestore, Firebase Auth and the Stripe client for in-memory stand-ins and
+ * delivers signed events to the real POST /api/webhooks/stripe-premium handler, so a
+ * test can run a webhook end to end and assert on premium_users and custom claims:
+ *
+ *   const harness = installWebhookHarness();
+ *   harness.auth.addUser({ uid: 'user_1', email: 'a@example.com' });
+ *   harness.stripe.addCustomer(customer);
+ *   harness.stripe.addSubscription(subscription);
+ *   await harness.deliver(buildStripeEvent('customer.subscription.updated', subscription));
+ *   harness.db.read('premium_users/user_1');
+ *   harness.uninstall();
+ */
+
+import { NextRequest } from 'next/server';
+import type Stripe from 'stripe';
+import { setAdminAuthOverride, setAdminDbOverride } from '@/lib/firebase-admin';
+import { setStripeClientOverride } from '@/lib/stripe-admin';
+import { InMemoryFirestore } from './in-memory-firestore';
+import { createInMemoryAuth, type InMemoryAuth } from './in-memory-auth';
+import { createFakeStripeClient, signStripeEvent, type FakeStripeClient } from './stripe-fixtures';
+
+const DEFAULT_WEBHOOK_SECRET = 'whsec_test_harness';
+
+export interface WebhookDelivery {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface WebhookHarness {
+  db: InMemoryFirestore;
+  auth: InMemoryAuth;
+  stripe: FakeStripeClient;
+  webhookSecret: string;
+  deliver(event: Stripe.Event, options?: { signature?: string }): Promise<WebhookDelivery>;
+  uninstall(): void;
+}
+
+/**
+ * Install the in-memory stand-ins. Call uninstall() when the test is done.
+ */
+export function installWebhookHarness(options: { webhookSecret?: string } = {}): WebhookHarness {
+  const webhookSecret = options.webhookSecret || DEFAULT_WEBHOOK_SECRET;
+  const previousSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  const db = new InMemoryFirestore();
+  const auth = createInMemoryAuth();
+  const stripe = createFakeStripeClient();
+
+  setAdminDbOverride(db);
+  setAdminAuthOverride(auth.auth);
+  setStripeClientOverride(stripe.stripe);
+  process.env.STRIPE_WEBHOOK_SECRET = webhookSecret;
+
+  return {
+    db,
+    auth,
+    stripe,
+    webhookSecret,
+    async deliver(event, deliveryOptions = {}) {
+      const { payload, signature } = signStripeEvent(event, webhookSecret);
+      const { POST } = await import('@/app/api/webhooks/stripe-premium/route');
+
+      const response = await POST(new NextRequest('http://localhost/api/webhooks/stripe-premium', {
+        method: 'POST',
+        body: payload,
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': deliveryOptions.signature ?? signature
+        }
+      }));
+
+      return { status: response.status, body: await response.json() };
+    },
+    uninstall() {
+      setAdminDbOverride(null);
+      setAdminAuthOverride(null);
+      setStripeClientOverride(null);
+      if (previousSecret === undefined) {
+        delete process.env.STRIPE_WEBHOOK_SECRET;
+      } else {
+        process.env.STRIPE_WEBHOOK_SECRET = previousSecret;
+      }
+    }
+  };
+}